@@ -1,45 +1,130 @@
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import GameCanvas from './components/GameCanvas';
-import { generateLevel } from './services/geminiService';
-import { GameStatus, LevelConfig, LeaderboardEntry } from './types';
-import { CircleNotch, Trophy, Skull, Play, Pause, Star, Timer, Coin, House, ArrowCounterClockwise, FloppyDisk, Clock } from 'phosphor-react';
-import { initAudio } from './services/audioService';
-import { MAX_LEADERBOARD_ENTRIES, CANVAS_WIDTH, CANVAS_HEIGHT, TIME_LIMITS } from './constants';
+import ReplayViewer from './components/ReplayViewer';
+import LevelLibrary from './components/LevelLibrary';
+import LevelEditor, { createBlankLevel } from './components/LevelEditor';
+import ShareLevelDialog from './components/ShareLevelDialog';
+import ImportLevelDialog from './components/ImportLevelDialog';
+import PlayerHud from './components/PlayerHud';
+import RunStats from './components/RunStats';
+import { loadLevel, prefetchLevel, getLevelBoss, LEVEL_SOURCES, DEFAULT_LEVEL_SOURCE } from './services/levelService';
+import { LibraryEntry, saveToLibrary, recordLibraryResult } from './services/libraryService';
+import { SharedLevel } from './services/levelShareService';
+import { SavedRun, loadRun, saveRun, clearRun } from './services/runSaveService';
+import { LevelOutcome, startRunRecord, recordLevelStats, finishRunRecord } from './services/statsService';
+import { GameStatus, LevelConfig, LeaderboardEntry, LevelSource, Vector2, GameEvent, HudState, DamageCause, ScoreSource } from './types';
+import { CircleNotch, ClockCounterClockwise, Trophy, Skull, Play, Pause, Star, Timer, Coin, House, ArrowCounterClockwise, FloppyDisk, Clock, FilmStrip, DownloadSimple, Ghost, Sparkle, CloudSlash, Cpu, FileText, Books, PencilSimple, ShareNetwork, UploadSimple, ChartBar } from 'phosphor-react';
+import { initAudio, startMusic, stopMusic } from './services/audioService';
+import { downloadTextFile, readTextFile, toFileSlug } from './services/fileService';
+import { parseReplay, serializeReplay } from './services/replayFileService';
+import { Replay } from './game/replay';
+import { GameFlow, createGameFlow } from './game/gameFlow';
+import { WorldProgress } from './game/world';
+import { MAX_LEADERBOARD_ENTRIES, CANVAS_WIDTH, CANVAS_HEIGHT, TIME_LIMITS, CONTINUE_TOKENS, CONTINUE_COST } from './constants';
+
+// Use Math.min to cap difficulty at 3 for time limit lookup, assuming levels > 3 are hard
+const getTimeLimit = (difficulty: number) => TIME_LIMITS[Math.min(difficulty, 3) as keyof typeof TIME_LIMITS] || 120;
+
+// What happened on the current level attempt, counted from simulation events for the run history
+interface LevelTally {
+  dashes: number;
+  cratesBroken: number;
+  livesLost: Partial<Record<DamageCause, number>>;
+  lastCause: DamageCause | null;
+}
+
+const createTally = (): LevelTally => ({ dashes: 0, cratesBroken: 0, livesLost: {}, lastCause: null });
 
 const App: React.FC = () => {
   const [status, setStatus] = useState<GameStatus>(GameStatus.MENU);
   const [level, setLevel] = useState<LevelConfig | null>(null);
   const [seedsCollected, setSeedsCollected] = useState(0);
+  const [seedPoints, setSeedPoints] = useState(0); // What those seeds paid out, combo included
   const [difficulty, setDifficulty] = useState(1);
   const [loadingMessage, setLoadingMessage] = useState("Asking Gemini to build the plains...");
+  const [levelSource, setLevelSource] = useState<LevelSource>(() =>
+    LEVEL_SOURCES.find(s => s.source === localStorage.getItem('prairie_level_source'))?.source || DEFAULT_LEVEL_SOURCE
+  );
   
   // Stats State
   const [score, setScore] = useState(0);
+  const [levelStartScore, setLevelStartScore] = useState(0); // Score when the current level began
+  const [runId, setRunId] = useState(0); // Bumped to restart GameCanvas on the same level
+  const [continueTokens, setContinueTokens] = useState(CONTINUE_TOKENS); // Free continues left this run
   const [highScore, setHighScore] = useState(0);
   const [gameTime, setGameTime] = useState(0); // Elapsed time in seconds
   const [timeLeft, setTimeLeft] = useState(0);
+  const [hud, setHud] = useState<HudState | null>(null); // Lives, shield and dash, pushed by GameCanvas
+  const [hurtCount, setHurtCount] = useState(0);
+
+  // Saved Run State
+  const [savedRun, setSavedRun] = useState<SavedRun | null>(() => loadRun()); // Offered as "Resume Run" on the menu
+  const [resumeProgress, setResumeProgress] = useState<WorldProgress | null>(null); // Where the resumed level picks up
+  const [isSavedRun, setIsSavedRun] = useState(false); // Runs from the menu are saved; library, imported and play-test levels leave the save alone
+  const progressRef = useRef<WorldProgress | null>(null); // Latest progress handed over by GameCanvas
+  const tallyRef = useRef<LevelTally>(createTally());
   
   const [lastRunStats, setLastRunStats] = useState({
     time: 0,
     seeds: 0,
+    seedPoints: 0,
     levelBonus: 0,
     timeBonus: 0,
-    totalRunScore: 0
+    totalRunScore: 0,
+    won: false
   });
 
   // Leaderboard State
   const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
-  const [isLeaderboardQualifying, setIsLeaderboardQualifying] = useState(false);
   const [playerName, setPlayerName] = useState('');
 
+  // Replay State
+  const [lastReplay, setLastReplay] = useState<Replay | null>(null);
+  const [activeReplay, setActiveReplay] = useState<Replay | null>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
+
+  // Editor State
+  const [editorSession, setEditorSession] = useState<{ level: LevelConfig; difficulty: number } | null>(null);
+  const [playTest, setPlayTest] = useState<{ spawn?: Vector2 } | null>(null); // Set while the editor's level is being played
+
+  // Sharing State
+  const [shareTarget, setShareTarget] = useState<SharedLevel | null>(null);
+  const [showImport, setShowImport] = useState(false);
+
+  // Status changes only happen through the flow, which refuses transitions the current screen doesn't allow.
+  // Leaving play stops the music and the loop clock; going back to the menu drops the level behind it.
+  const flowRef = useRef<GameFlow | null>(null);
+  if (!flowRef.current) {
+    flowRef.current = createGameFlow(GameStatus.MENU, {
+      onExit: {
+        [GameStatus.PLAYING]: () => stopMusic()
+      },
+      onEnter: {
+        [GameStatus.PLAYING]: (_from, _to, action) => {
+          if (action !== 'RESUME' && action !== 'RESUME_RUN') {
+            setSeedsCollected(0);
+            setSeedPoints(0);
+            setGameTime(0);
+            setResumeProgress(null);
+          }
+          if (action !== 'RESUME') tallyRef.current = createTally();
+          startMusic();
+        },
+        [GameStatus.MENU]: () => {
+          setLevel(null);
+          setHud(null);
+          setSavedRun(loadRun());
+        }
+      },
+      onChange: setStatus
+    });
+  }
+  const flow = flowRef.current;
+
   // Viewport State for Responsive Canvas
   const [viewportSize, setViewportSize] = useState({ width: CANVAS_WIDTH, height: CANVAS_HEIGHT });
 
-  const startTimeRef = useRef<number>(0);
-  const totalPausedTimeRef = useRef<number>(0);
-  const pauseStartRef = useRef<number>(0);
-
   // Handle Window Resize / Orientation Change
   useEffect(() => {
     const handleResize = () => {
@@ -84,6 +169,10 @@ const App: React.FC = () => {
     }
   }, []);
 
+  useEffect(() => {
+    localStorage.setItem('prairie_level_source', levelSource);
+  }, [levelSource]);
+
   // Save High Score (Legacy simple persistence, plus Leaderboard sync)
   useEffect(() => {
     if (score > highScore) {
@@ -102,27 +191,22 @@ const App: React.FC = () => {
   }, []);
 
   // Game Timer
+  // Elapsed time comes from the simulation clock, so it stops while paused and matches gameplay speed on every display
+  const handleTimeUpdate = useCallback((elapsedSeconds: number) => {
+    setGameTime(elapsedSeconds);
+  }, []);
+
   useEffect(() => {
     if (status === GameStatus.PLAYING) {
-      const interval = setInterval(() => {
-        const now = Date.now();
-        const elapsed = Math.floor((now - startTimeRef.current - totalPausedTimeRef.current) / 1000);
-        setGameTime(elapsed);
-        
-        // Use Math.min to cap difficulty at 3 for time limit lookup, assuming levels > 3 are hard
-        const limitKey = Math.min(difficulty, 3) as keyof typeof TIME_LIMITS;
-        const limit = TIME_LIMITS[limitKey] || 120;
-        const remaining = limit - elapsed;
-        setTimeLeft(remaining);
-
-        if (remaining <= 0) {
-             handleGameOver(false);
-        }
+      const remaining = getTimeLimit(difficulty) - gameTime;
+      setTimeLeft(remaining);
 
-      }, 1000);
-      return () => clearInterval(interval);
+      // The flow ignores this if the level already ended on the same frame
+      if (remaining <= 0) {
+           handleGameOver(false, 'timeout');
+      }
     }
-  }, [status, difficulty]); // Added difficulty dependency
+  }, [status, difficulty, gameTime]); // Added difficulty dependency
 
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -131,69 +215,192 @@ const App: React.FC = () => {
   };
 
   const startGame = async (isNextLevel: boolean = false) => {
+    const abandoned = flow.getStatus() === GameStatus.PAUSED;
+    if (!flow.send(isNextLevel ? 'NEXT_LEVEL' : 'START_RUN')) return;
     initAudio(); // Initialize Audio Context on user interaction
-
-    let nextDifficulty = 1;
+    if (abandoned) recordAttempt('quit', score);
 
     if (isNextLevel) {
       // Auto-increase difficulty
-      nextDifficulty = difficulty + 1;
+      setLevelStartScore(score);
     } else {
       // New Game, reset to Easy
       setScore(0);
-      setIsLeaderboardQualifying(false);
-      nextDifficulty = 1;
+      setLevelStartScore(0);
+      setContinueTokens(CONTINUE_TOKENS);
+      setIsSavedRun(true);
+      startRunRecord();
     }
+    await loadNextLevel(isNextLevel ? difficulty + 1 : 1, isNextLevel);
+  };
+
+  // Fetch the level for a difficulty and start it, once the flow is in LOADING_LEVEL
+  const loadNextLevel = async (nextDifficulty: number, isNextLevel: boolean) => {
     setDifficulty(nextDifficulty);
-    
-    setStatus(GameStatus.LOADING_LEVEL);
-    setSeedsCollected(0);
-    setGameTime(0);
-    setLoadingMessage(isNextLevel ? `Scouting Level ${nextDifficulty}...` : "Asking Gemini to build the plains...");
-    
-    // Determine Collectible Density based on Difficulty
-    // Easy (1) -> High, Medium (2) -> Medium, Hard (3+) -> Low
-    const density = nextDifficulty === 1 ? 'high' : nextDifficulty === 2 ? 'medium' : 'low';
+    setLoadingMessage(isNextLevel
+      ? getLevelBoss(nextDifficulty) ? `Level ${nextDifficulty}: something big is stirring...` : `Scouting Level ${nextDifficulty}...`
+      : levelSource === 'procedural' ? "Digging a fresh set of tunnels..." : "Asking the AI to build the plains...");
+
+    // Instant when the level was prefetched while the previous one was played
+    const newLevel = await loadLevel(levelSource, nextDifficulty);
+    saveToLibrary(newLevel, nextDifficulty);
+    if (!flow.can('LEVEL_READY')) return;
 
-    // Slight delay for feel or API call
-    const newLevel = await generateLevel(nextDifficulty, density);
     setLevel(newLevel);
-    
-    startTimeRef.current = Date.now();
-    totalPausedTimeRef.current = 0;
-    pauseStartRef.current = 0;
-    
-    const limitKey = Math.min(nextDifficulty, 3) as keyof typeof TIME_LIMITS;
-    const limit = TIME_LIMITS[limitKey] || 120;
-    setTimeLeft(limit);
+    setTimeLeft(getTimeLimit(nextDifficulty));
+    flow.send('LEVEL_READY');
+  };
+
+  // Generate the next level in the background while this one is played
+  useEffect(() => {
+    if (level && !playTest) prefetchLevel(levelSource, difficulty + 1);
+  }, [level]);
 
-    setStatus(GameStatus.PLAYING);
+  // Start a fresh run on a level from the library or a share code
+  const playSavedLevel = (savedLevel: LevelConfig, levelDifficulty: number) => {
+    if (!flow.can('PLAY_LEVEL')) return;
+    initAudio();
+
+    setDifficulty(levelDifficulty);
+    setScore(0);
+    setLevelStartScore(0);
+    setContinueTokens(CONTINUE_TOKENS);
+    setIsSavedRun(false);
+    setTimeLeft(getTimeLimit(levelDifficulty));
+    startRunRecord();
+
+    setLevel(savedLevel);
+    setRunId(id => id + 1);
+    flow.send('PLAY_LEVEL');
   };
 
-  const togglePause = useCallback(() => {
-    if (status === GameStatus.PLAYING) {
-      pauseStartRef.current = Date.now();
-      setStatus(GameStatus.PAUSED);
-    } else if (status === GameStatus.PAUSED) {
-      // Calculate how long we were paused and add to total
-      const pausedDuration = Date.now() - pauseStartRef.current;
-      totalPausedTimeRef.current += pausedDuration;
-      setStatus(GameStatus.PLAYING);
+  // Pick up the saved run: mid-level at its last checkpoint, or at the next level when it was saved on a win
+  const resumeRun = () => {
+    const run = savedRun;
+    if (!run) return;
+
+    if (run.cleared) {
+      if (!flow.send('NEXT_LEVEL')) return;
+      initAudio();
+      setScore(run.score);
+      setLevelStartScore(run.score);
+      setContinueTokens(run.continueTokens);
+      setIsSavedRun(true);
+      loadNextLevel(run.difficulty + 1, true);
+      return;
     }
-  }, [status]);
+
+    if (!flow.can('RESUME_RUN')) return;
+    initAudio();
+
+    // The world goes back to the last checkpoint, so only what the level had paid out by then still counts
+    const checkpoint = run.progress?.checkpoint;
+    setDifficulty(run.difficulty);
+    setScore(run.levelStartScore + (checkpoint?.score ?? 0));
+    setLevelStartScore(run.levelStartScore);
+    setContinueTokens(run.continueTokens);
+    setSeedsCollected(checkpoint?.seeds ?? 0);
+    setSeedPoints(checkpoint?.seedPoints ?? 0);
+    setIsSavedRun(true);
+    setGameTime(run.elapsed);
+    setTimeLeft(getTimeLimit(run.difficulty) - run.elapsed);
+
+    setResumeProgress(run.progress);
+    setLevel(run.level);
+    setRunId(id => id + 1);
+    flow.send('RESUME_RUN');
+  };
+
+  const playLibraryLevel = (entry: LibraryEntry) => playSavedLevel(entry.level, entry.difficulty);
+
+  const playImportedLevel = (shared: SharedLevel) => {
+    setShowImport(false);
+    saveToLibrary(shared.level, shared.difficulty);
+    playSavedLevel(shared.level, shared.difficulty);
+  };
+
+  const openEditor = (levelToEdit: LevelConfig, levelDifficulty: number) => {
+    if (!flow.send('OPEN_EDITOR')) return;
+    setEditorSession({ level: levelToEdit, difficulty: levelDifficulty });
+    setPlayTest(null);
+  };
+
+  const closeEditor = () => {
+    if (!flow.send('QUIT')) return;
+    setEditorSession(null);
+  };
+
+  // Play the level being edited; nothing from a play-test counts towards score, leaderboard or library
+  const startPlayTest = (editedLevel: LevelConfig, spawn?: Vector2) => {
+    if (!editorSession || !flow.can('PLAY_TEST')) return;
+    initAudio();
+
+    setDifficulty(editorSession.difficulty);
+    setScore(0);
+    setLevelStartScore(0);
+    setIsSavedRun(false);
+    setTimeLeft(getTimeLimit(editorSession.difficulty));
+
+    setLevel(editedLevel);
+    setPlayTest({ spawn });
+    setRunId(id => id + 1);
+    flow.send('PLAY_TEST');
+  };
+
+  const endPlayTest = () => {
+    if (!flow.send('END_PLAY_TEST')) return;
+    setPlayTest(null);
+  };
+
+  // Play the same level again (a restart, or to race the ghost), undoing any score earned on it
+  const retryLevel = () => {
+    if (!level || !flow.can('RESTART_LEVEL')) return;
+    initAudio();
+    if (flow.getStatus() === GameStatus.PAUSED) recordAttempt('restarted', levelStartScore);
+
+    setScore(levelStartScore);
+    setTimeLeft(getTimeLimit(difficulty));
+
+    setRunId(id => id + 1);
+    flow.send('RESTART_LEVEL');
+  };
+
+  // After a game over, play the same level again for a free token or, once those run out, CONTINUE_COST points
+  const canContinue = continueTokens > 0 || levelStartScore >= CONTINUE_COST;
+
+  const continueRun = () => {
+    if (!level || !canContinue || !flow.can('CONTINUE')) return;
+    initAudio();
+
+    const restoredScore = continueTokens > 0 ? levelStartScore : levelStartScore - CONTINUE_COST;
+    if (continueTokens > 0) setContinueTokens(n => n - 1);
+    setScore(restoredScore);
+    setLevelStartScore(restoredScore);
+    setTimeLeft(getTimeLimit(difficulty));
+
+    setRunId(id => id + 1);
+    flow.send('CONTINUE');
+  };
+
+  // Quitting from the pause menu keeps the run open, so it can still be resumed
+  const quitFromPause = () => {
+    if (!flow.can('QUIT')) return;
+    recordAttempt('quit', score);
+    flow.send('QUIT');
+  };
+
+  const togglePause = useCallback(() => {
+    if (!flow.send('PAUSE')) flow.send('RESUME');
+  }, [flow]);
 
   // Keyboard listener for Pause
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.code === 'Escape') {
-        if (status === GameStatus.PLAYING || status === GameStatus.PAUSED) {
-          togglePause();
-        }
-      }
+      if (e.code === 'Escape') togglePause();
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [status, togglePause]);
+  }, [togglePause]);
 
   const checkLeaderboardQualification = useCallback((finalScore: number) => {
      // Check if this score qualifies for top 5
@@ -207,14 +414,34 @@ const App: React.FC = () => {
      return finalScore > lowestScore;
   }, [leaderboard]);
 
-  // Fix handleGameOver to properly handle the 'win' state and avoid loops
-  const handleGameOver = useCallback((win: boolean) => {
-    // Use ref to get accurate duration if needed, but gameTime state is close enough for summary
-    const endTime = Date.now();
-    const durationSeconds = Math.floor((endTime - startTimeRef.current - totalPausedTimeRef.current) / 1000);
-    
-    // Avoid double triggers if state is already changing
-    // We can't easily check 'status' inside callback without ref, but this is triggered by event
+  // Add the level attempt that just ended to the run history; play-tests aren't recorded
+  const recordAttempt = (outcome: LevelOutcome, runScore: number, lostTo: DamageCause | null = null) => {
+    if (!level || playTest) return;
+    const tally = tallyRef.current;
+    recordLevelStats({
+      name: level.name,
+      difficulty,
+      outcome,
+      seconds: gameTime,
+      seedsCollected,
+      seedsAvailable: level.collectibles.filter(c => (c.type || 'seed') === 'seed').length,
+      dashes: tally.dashes,
+      cratesBroken: tally.cratesBroken,
+      livesLost: lostTo === 'timeout' ? { ...tally.livesLost, timeout: 1 } : { ...tally.livesLost },
+      lostTo
+    }, runScore);
+  };
+
+  // Called by the loop and by the time limit, possibly both on one frame; only the first one ends the level
+  const handleGameOver = useCallback((win: boolean, cause?: DamageCause) => {
+    if (playTest) {
+      endPlayTest();
+      return;
+    }
+    if (!flow.send(win ? 'WIN' : 'LOSE')) return;
+
+    // Simulation clock, already excludes paused time
+    const durationSeconds = gameTime;
     
     if (win) {
       const levelBonus = 1000 * difficulty;
@@ -226,36 +453,114 @@ const App: React.FC = () => {
       setLastRunStats({
         time: durationSeconds,
         seeds: seedsCollected,
+        seedPoints,
         levelBonus,
         timeBonus,
-        totalRunScore: finalRunScore
+        totalRunScore: finalRunScore,
+        won: true
       });
       
-      setStatus(GameStatus.VICTORY);
+      if (level) recordLibraryResult(level, true, { timeSeconds: durationSeconds, seeds: seedsCollected, score: finalRunScore - levelStartScore });
+      recordAttempt('cleared', finalRunScore);
     } else {
       const finalScore = score;
       setLastRunStats({
         time: durationSeconds,
         seeds: seedsCollected,
+        seedPoints,
         levelBonus: 0,
         timeBonus: 0,
-        totalRunScore: finalScore
+        totalRunScore: finalScore,
+        won: false
       });
-      setStatus(GameStatus.GAME_OVER);
-      
-      if (checkLeaderboardQualification(finalScore)) {
-          setIsLeaderboardQualifying(true);
-          setPlayerName('');
-      }
+      if (level) recordLibraryResult(level, false, { timeSeconds: durationSeconds, seeds: seedsCollected, score: finalScore - levelStartScore });
+      recordAttempt('lost', finalScore, cause ?? tallyRef.current.lastCause);
     }
-  }, [difficulty, seedsCollected, score, checkLeaderboardQualification, timeLeft]);
+  }, [flow, difficulty, seedsCollected, seedPoints, score, timeLeft, gameTime, level, levelStartScore, playTest]);
 
   const handleCollect = useCallback(() => {
     setSeedsCollected(prev => prev + 1);
-    setScore(prev => prev + 100);
   }, []);
 
+  // Seeds, stomps and crates arrive already multiplied by the airborne combo
+  const handleScore = useCallback((points: number, _combo: number, source: ScoreSource) => {
+    setScore(prev => prev + points);
+    if (source === 'seed') setSeedPoints(prev => prev + points);
+  }, []);
+
+  // Simulation events the HUD reacts to beyond the state it shows, and the run history counts
+  const handleGameEvent = useCallback((event: GameEvent) => {
+    const tally = tallyRef.current;
+    if (event.type === 'dash') tally.dashes++;
+    if (event.type === 'crate_broken') tally.cratesBroken++;
+    if (event.type === 'damage' || event.type === 'fell') {
+      const cause = event.type === 'damage' ? event.cause : 'pit';
+      tally.livesLost[cause] = (tally.livesLost[cause] || 0) + 1;
+      tally.lastCause = cause;
+      setHurtCount(n => n + 1);
+    }
+    if (event.type === 'rollback') {
+      setScore(levelStartScore + event.score);
+      setSeedsCollected(event.seeds);
+      setSeedPoints(event.seedPoints);
+    }
+  }, [levelStartScore]);
+
+  const handleReplay = useCallback((replay: Replay) => {
+    setLastReplay(replay);
+  }, []);
+
+  const handleProgress = useCallback((progress: WorldProgress) => {
+    progressRef.current = progress;
+  }, []);
+
+  // Persist the run at level boundaries and on pause
+  const persistRun = (cleared: boolean, progress: WorldProgress | null) => {
+    if (!level || !isSavedRun) return;
+    saveRun({ level, difficulty, score, levelStartScore, seedsCollected, elapsed: gameTime, continueTokens, cleared, progress });
+  };
+
+  // A level (re)starting or being resumed
+  useEffect(() => {
+    if (status === GameStatus.PLAYING) persistRun(false, resumeProgress);
+  }, [runId, level]);
+
+  // GameCanvas hands over its progress as the loop stops, which happens before this runs
+  useEffect(() => {
+    if (status === GameStatus.PAUSED) persistRun(false, progressRef.current);
+    else if (status === GameStatus.VICTORY) persistRun(true, null);
+    else if (status === GameStatus.GAME_OVER && isSavedRun) clearRun(); // A lost run can only go on through Continue
+  }, [status]);
+
+  const downloadReplay = () => {
+    if (!lastReplay) return;
+    downloadTextFile(`${toFileSlug(lastReplay.level.name)}.pdrreplay.json`, serializeReplay(lastReplay));
+  };
+
+  const loadReplayFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const result = parseReplay(await readTextFile(file));
+      if ('error' in result) {
+        setReplayError(result.error);
+        return;
+      }
+      if (!flow.send('OPEN_REPLAY')) return;
+      setReplayError(null);
+      setActiveReplay(result.replay);
+    } catch (e) {
+      console.error("Failed to load replay", e);
+      setReplayError(e instanceof Error ? e.message : "Could not read replay file");
+    }
+  };
+
+  const exitReplay = () => {
+    if (!flow.send('QUIT')) return;
+    setActiveReplay(null);
+  };
+
   const saveLeaderboardScore = () => {
+      if (!flow.can('SUBMIT_NAME')) return;
       const name = playerName.trim() || `Prairie Dog ${Math.floor(Math.random() * 1000)}`;
       const newEntry: LeaderboardEntry = {
           name,
@@ -273,19 +578,19 @@ const App: React.FC = () => {
       // Update high score display if needed
       if (newBoard.length > 0) setHighScore(newBoard[0].score);
 
-      setIsLeaderboardQualifying(false);
-      setStatus(GameStatus.MENU);
+      flow.send('SUBMIT_NAME');
   };
 
-  const quitFromVictory = () => {
-      // If user quits after winning a level, submit score if qualified
-      const finalScore = lastRunStats.totalRunScore;
-      if (checkLeaderboardQualification(finalScore)) {
-           setStatus(GameStatus.GAME_OVER); // Switch to Game Over view to show input
-           setIsLeaderboardQualifying(true);
+  // Leaving a run after a win or a loss: a qualifying score is entered on the leaderboard first
+  const isLeaderboardQualifying = checkLeaderboardQualification(lastRunStats.totalRunScore);
+
+  const leaveRun = (next: () => void) => {
+      if (flow.getStatus() === GameStatus.GAME_OVER) finishRunRecord(); // Passing on Continue ends the run
+      if (isLeaderboardQualifying) {
            setPlayerName('');
+           flow.send('ENTER_NAME');
       } else {
-           setStatus(GameStatus.MENU);
+           next();
       }
   };
 
@@ -314,6 +619,8 @@ const App: React.FC = () => {
         <div className="flex items-center gap-2 sm:gap-4 pointer-events-auto">
             {(status === GameStatus.PLAYING || status === GameStatus.PAUSED) && (
                <>
+                  {hud && <PlayerHud hud={hud} hurt={hurtCount} />}
+
                   {/* Stats Panel */}
                   <div className="flex items-center gap-1 sm:gap-4 bg-black/60 p-1.5 sm:p-2 rounded-xl backdrop-blur-md border border-white/10 shadow-lg">
                       
@@ -364,12 +671,28 @@ const App: React.FC = () => {
       {/* Main Game Container - Scale to fit viewport */}
       <div className="flex-1 relative w-full flex items-center justify-center overflow-hidden">
         
-        {level && (
+        {status === GameStatus.REPLAY && activeReplay ? (
+          <ReplayViewer
+            replay={activeReplay}
+            onExit={exitReplay}
+            width={viewportSize.width}
+            height={viewportSize.height}
+          />
+        ) : level && (
           <GameCanvas 
+            key={runId}
             level={level} 
             status={status} 
             onGameOver={handleGameOver}
             onCollect={handleCollect}
+            onScore={handleScore}
+            onTimeUpdate={handleTimeUpdate}
+            onEvent={handleGameEvent}
+            onHud={setHud}
+            onReplay={playTest || resumeProgress ? undefined : handleReplay}
+            onProgress={handleProgress}
+            spawn={playTest?.spawn}
+            resume={resumeProgress}
             width={viewportSize.width}
             height={viewportSize.height}
           />
@@ -391,17 +714,42 @@ const App: React.FC = () => {
                     <Play weight="fill" /> Resume
                   </button>
                   <button 
-                    onClick={() => startGame(false)}
+                    onClick={retryLevel}
                     className="bg-gray-700 text-white font-bold py-3 rounded-lg hover:bg-gray-600 transition flex items-center justify-center gap-2"
                   >
                     <ArrowCounterClockwise weight="bold" /> Restart Level
                   </button>
-                  <button 
-                    onClick={() => setStatus(GameStatus.MENU)}
-                    className="bg-transparent border border-white/20 text-white font-bold py-3 rounded-lg hover:bg-white/10 transition flex items-center justify-center gap-2"
-                  >
-                    <House weight="fill" /> Quit to Menu
-                  </button>
+                  {!playTest && (
+                    <button 
+                      onClick={() => startGame(false)}
+                      className="bg-gray-700 text-white font-bold py-3 rounded-lg hover:bg-gray-600 transition flex items-center justify-center gap-2"
+                    >
+                      <Sparkle weight="fill" /> New Run
+                    </button>
+                  )}
+                  {level && !playTest && (
+                    <button 
+                      onClick={() => setShareTarget({ level, difficulty })}
+                      className="bg-gray-700 text-white font-bold py-3 rounded-lg hover:bg-gray-600 transition flex items-center justify-center gap-2"
+                    >
+                      <ShareNetwork weight="fill" /> Share Level
+                    </button>
+                  )}
+                  {playTest ? (
+                    <button 
+                      onClick={endPlayTest}
+                      className="bg-transparent border border-white/20 text-white font-bold py-3 rounded-lg hover:bg-white/10 transition flex items-center justify-center gap-2"
+                    >
+                      <PencilSimple weight="fill" /> Back to Editor
+                    </button>
+                  ) : (
+                    <button 
+                      onClick={quitFromPause}
+                      className="bg-transparent border border-white/20 text-white font-bold py-3 rounded-lg hover:bg-white/10 transition flex items-center justify-center gap-2"
+                    >
+                      <House weight="fill" /> Quit to Menu
+                    </button>
+                  )}
               </div>
             </div>
         </div>
@@ -418,15 +766,85 @@ const App: React.FC = () => {
                   
                   {/* Difficulty Selector Removed */}
 
+                  {/* Level Source */}
+                  <div className="mb-4 grid grid-cols-2 gap-2 bg-black/30 p-1 rounded-xl text-sm">
+                      {LEVEL_SOURCES.map(({ source, label }) => (
+                          <button
+                              key={source}
+                              onClick={() => setLevelSource(source)}
+                              className={`flex items-center justify-center gap-1 py-2 rounded-lg font-bold transition ${levelSource === source ? 'bg-amber-500 text-black' : 'text-gray-300 hover:bg-white/10'}`}
+                          >
+                              {source === 'gemini' && <Sparkle weight="fill" />}
+                              {source === 'openai' && <Cpu weight="fill" />}
+                              {source === 'static' && <FileText weight="fill" />}
+                              {source === 'procedural' && <CloudSlash weight="fill" />}
+                              {label}
+                          </button>
+                      ))}
+                  </div>
+
+                  {savedRun && (
+                      <button
+                          onClick={resumeRun}
+                          className="mb-3 w-full bg-amber-500 hover:bg-amber-400 text-black font-bold py-3 rounded-xl shadow-lg transition flex items-center justify-center gap-2"
+                      >
+                          <ClockCounterClockwise weight="bold" /> Resume Run
+                          <span className="text-xs font-mono text-black/60">
+                              Lvl {savedRun.cleared ? savedRun.difficulty + 1 : savedRun.difficulty} · {savedRun.score.toLocaleString()}
+                          </span>
+                      </button>
+                  )}
+
                   <button
                       onClick={() => startGame(false)}
                       className="w-full bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-400 hover:to-emerald-500 text-white text-lg sm:text-xl font-bold py-3 sm:py-4 rounded-xl shadow-lg transform transition hover:scale-105 flex items-center justify-center gap-2"
                   >
                       <Play weight="fill" /> Start Adventure
                   </button>
+
+                  <label className="mt-3 w-full bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 rounded-xl transition flex items-center justify-center gap-2 cursor-pointer text-sm">
+                      <FilmStrip weight="fill" /> Watch Replay
+                      <input
+                          type="file"
+                          accept=".json,application/json"
+                          className="hidden"
+                          onChange={(e) => { loadReplayFile(e.target.files?.[0]); e.target.value = ''; }}
+                      />
+                  </label>
+                  {replayError && (
+                      <p className="mt-2 text-xs text-red-400">{replayError}</p>
+                  )}
+
+                  <button
+                      onClick={() => flow.send('OPEN_LIBRARY')}
+                      className="mt-3 w-full bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 rounded-xl transition flex items-center justify-center gap-2 text-sm"
+                  >
+                      <Books weight="fill" /> Level Library
+                  </button>
+
+                  <button
+                      onClick={() => flow.send('OPEN_STATS')}
+                      className="mt-3 w-full bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 rounded-xl transition flex items-center justify-center gap-2 text-sm"
+                  >
+                      <ChartBar weight="fill" /> Stats
+                  </button>
+
+                  <button
+                      onClick={() => openEditor(createBlankLevel(), difficulty)}
+                      className="mt-3 w-full bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 rounded-xl transition flex items-center justify-center gap-2 text-sm"
+                  >
+                      <PencilSimple weight="fill" /> Level Editor
+                  </button>
+
+                  <button
+                      onClick={() => setShowImport(true)}
+                      className="mt-3 w-full bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 rounded-xl transition flex items-center justify-center gap-2 text-sm"
+                  >
+                      <UploadSimple weight="bold" /> Import Level
+                  </button>
                   
                   <div className="mt-4 text-xs text-gray-500">
-                      Levels generated by Gemini 2.5 Flash
+                      {LEVEL_SOURCES.find(s => s.source === levelSource)?.description}
                   </div>
               </div>
 
@@ -469,25 +887,63 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {/* LEVEL LIBRARY */}
+      {status === GameStatus.LIBRARY && (
+        <LevelLibrary
+          onPlay={playLibraryLevel}
+          onEdit={(entry) => openEditor(entry.level, entry.difficulty)}
+          onShare={(entry) => setShareTarget({ level: entry.level, difficulty: entry.difficulty })}
+          onClose={() => flow.send('QUIT')}
+        />
+      )}
+
+      {/* RUN STATS */}
+      {status === GameStatus.STATS && (
+        <RunStats onClose={() => flow.send('QUIT')} />
+      )}
+
+      {/* LEVEL EDITOR - stays mounted during play-tests so its undo history survives */}
+      {editorSession && (
+        <LevelEditor
+          level={editorSession.level}
+          difficulty={editorSession.difficulty}
+          hidden={status !== GameStatus.EDITOR}
+          onPlayTest={startPlayTest}
+          onExit={closeEditor}
+          width={viewportSize.width}
+          height={viewportSize.height}
+        />
+      )}
+
+      {/* SHARE / IMPORT */}
+      {shareTarget && (
+        <ShareLevelDialog level={shareTarget.level} difficulty={shareTarget.difficulty} onClose={() => setShareTarget(null)} />
+      )}
+      {showImport && (
+        <ImportLevelDialog onPlay={playImportedLevel} onClose={() => setShowImport(false)} />
+      )}
+
       {/* LOADING */}
       {status === GameStatus.LOADING_LEVEL && (
         <div className="fixed inset-0 bg-black/80 flex flex-col items-center justify-center z-50 text-white p-4 text-center">
             <CircleNotch size={64} className="animate-spin text-amber-500 mb-4" />
             <h2 className="text-xl sm:text-2xl font-bold">{loadingMessage}</h2>
-            <p className="text-gray-400 mt-2 text-sm sm:text-base">Consulting the AI landscape architect...</p>
+            <p className="text-gray-400 mt-2 text-sm sm:text-base">{levelSource === 'procedural' ? 'Packing the dirt just right...' : 'Consulting the AI landscape architect...'}</p>
         </div>
       )}
 
-      {/* GAME OVER */}
-      {status === GameStatus.GAME_OVER && (
+      {/* GAME OVER / NAME ENTRY */}
+      {(status === GameStatus.GAME_OVER || status === GameStatus.NAME_ENTRY) && (
         <div className="fixed inset-0 bg-red-900/80 flex flex-col items-center justify-center z-50 backdrop-blur-sm px-4 overflow-y-auto">
             <div className="bg-gray-900 p-6 sm:p-8 rounded-2xl border border-red-500/50 text-center max-w-sm w-full shadow-2xl my-auto">
-              <Skull size={64} className="mx-auto text-red-500 mb-4" />
+              {lastRunStats.won
+                  ? <Trophy size={64} className="mx-auto text-amber-400 mb-4" weight="fill" />
+                  : <Skull size={64} className="mx-auto text-red-500 mb-4" />}
               <h2 className="text-2xl sm:text-3xl font-bold text-white mb-2">
-                  {timeLeft <= 0 ? "Time's Up!" : "Ouch!"}
+                  {lastRunStats.won ? "Well Run!" : timeLeft <= 0 ? "Time's Up!" : "Ouch!"}
               </h2>
               <p className="text-gray-400 mb-6 text-sm sm:text-base">
-                  {timeLeft <= 0 ? "The sun set on your adventure." : "The prairie is a dangerous place."}
+                  {lastRunStats.won ? "You made it home safe." : timeLeft <= 0 ? "The sun set on your adventure." : "The prairie is a dangerous place."}
               </p>
               
               <div className="bg-black/30 rounded-lg p-4 mb-6">
@@ -502,7 +958,7 @@ const App: React.FC = () => {
                   )}
               </div>
 
-              {isLeaderboardQualifying ? (
+              {status === GameStatus.NAME_ENTRY ? (
                   <div className="mb-6 animate-fade-in">
                       <label className="block text-left text-xs text-gray-400 mb-1 ml-1">Enter Your Name:</label>
                       <div className="flex gap-2">
@@ -523,21 +979,51 @@ const App: React.FC = () => {
                       </div>
                   </div>
               ) : (
-                  <div className="flex gap-2">
-                      <button 
-                          onClick={() => startGame(false)}
-                          className="flex-1 bg-white text-black font-bold py-3 rounded-lg hover:bg-gray-200 transition flex items-center justify-center gap-2"
-                      >
-                          <ArrowCounterClockwise weight="bold" /> Retry
-                      </button>
-                      <button 
-                          onClick={() => setStatus(GameStatus.MENU)}
-                          className="px-4 bg-gray-800 border border-gray-600 text-white font-bold py-3 rounded-lg hover:bg-gray-700 transition"
-                      >
-                          <House weight="fill" size={24} />
-                      </button>
+                  <div className="flex flex-col gap-2">
+                      {level && (
+                          <button 
+                              onClick={continueRun}
+                              disabled={!canContinue}
+                              className="w-full bg-white text-black font-bold py-3 rounded-lg hover:bg-gray-200 transition flex items-center justify-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed"
+                          >
+                              <ArrowCounterClockwise weight="bold" /> Continue
+                              <span className="text-xs font-mono text-gray-600">
+                                  {continueTokens > 0 ? `${continueTokens} free` : `-${CONTINUE_COST} pts`}
+                              </span>
+                          </button>
+                      )}
+                      <div className="flex gap-2">
+                          <button 
+                              onClick={() => leaveRun(() => startGame(false))}
+                              className="flex-1 bg-gray-800 border border-gray-600 text-white font-bold py-3 rounded-lg hover:bg-gray-700 transition flex items-center justify-center gap-2"
+                          >
+                              <Sparkle weight="fill" /> New Run
+                          </button>
+                          <button 
+                              onClick={() => leaveRun(() => flow.send('QUIT'))}
+                              className="px-4 bg-gray-800 border border-gray-600 text-white font-bold py-3 rounded-lg hover:bg-gray-700 transition"
+                          >
+                              <House weight="fill" size={24} />
+                          </button>
+                      </div>
                   </div>
               )}
+              {lastReplay && (
+                  <button 
+                      onClick={downloadReplay}
+                      className="mt-3 w-full bg-transparent border border-white/20 text-gray-300 font-bold py-2 rounded-lg hover:bg-white/10 transition text-sm flex items-center justify-center gap-2"
+                  >
+                      <DownloadSimple weight="bold" /> Save Replay
+                  </button>
+              )}
+              {level && (
+                  <button 
+                      onClick={() => setShareTarget({ level, difficulty })}
+                      className="mt-3 w-full bg-transparent border border-white/20 text-gray-300 font-bold py-2 rounded-lg hover:bg-white/10 transition text-sm flex items-center justify-center gap-2"
+                  >
+                      <ShareNetwork weight="fill" /> Share Level
+                  </button>
+              )}
             </div>
         </div>
       )}
@@ -553,7 +1039,7 @@ const App: React.FC = () => {
                 <div className="bg-black/30 rounded-lg p-4 mb-6 space-y-2 text-sm">
                     <div className="flex justify-between">
                         <span className="text-gray-400">Seeds ({lastRunStats.seeds})</span>
-                        <span className="font-mono text-emerald-400">+{lastRunStats.seeds * 100}</span>
+                        <span className="font-mono text-emerald-400">+{lastRunStats.seedPoints}</span>
                     </div>
                     <div className="flex justify-between">
                         <span className="text-gray-400">Time Bonus</span>
@@ -577,11 +1063,33 @@ const App: React.FC = () => {
                           <Play weight="fill" /> Next Level
                     </button>
                     <button 
-                          onClick={quitFromVictory}
+                          onClick={retryLevel}
+                          className="w-full bg-gray-700 text-white font-bold py-2 rounded-lg hover:bg-gray-600 transition flex items-center justify-center gap-2"
+                    >
+                          <Ghost weight="fill" /> Race Your Ghost
+                    </button>
+                    <button 
+                          onClick={() => leaveRun(() => flow.send('QUIT'))}
                           className="w-full bg-transparent border border-white/20 text-gray-300 font-bold py-2 rounded-lg hover:bg-white/10 transition text-sm"
                     >
                           Save & Quit
                     </button>
+                    {lastReplay && (
+                        <button 
+                              onClick={downloadReplay}
+                              className="w-full bg-transparent border border-white/20 text-gray-300 font-bold py-2 rounded-lg hover:bg-white/10 transition text-sm flex items-center justify-center gap-2"
+                        >
+                              <DownloadSimple weight="bold" /> Save Replay
+                        </button>
+                    )}
+                    {level && (
+                        <button 
+                              onClick={() => setShareTarget({ level, difficulty })}
+                              className="w-full bg-transparent border border-white/20 text-gray-300 font-bold py-2 rounded-lg hover:bg-white/10 transition text-sm flex items-center justify-center gap-2"
+                        >
+                              <ShareNetwork weight="fill" /> Share Level
+                        </button>
+                    )}
                 </div>
               </div>
           </div>
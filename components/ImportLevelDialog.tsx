@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { LevelIssue } from '../types';
+import { importSharedLevel, SharedLevel, LEVEL_FILE_EXTENSION } from '../services/levelShareService';
+import { readTextFile } from '../services/fileService';
+import { UploadSimple, FileText, Play, X, WarningCircle, CircleNotch } from 'phosphor-react';
+
+interface ImportLevelDialogProps {
+  onPlay: (shared: SharedLevel) => void;
+  onClose: () => void;
+}
+
+const MAX_SHOWN_ISSUES = 5;
+
+const ImportLevelDialog: React.FC<ImportLevelDialogProps> = ({ onPlay, onClose }) => {
+  const [code, setCode] = useState('');
+  const [issues, setIssues] = useState<LevelIssue[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  const importText = async (text: string) => {
+    setBusy(true);
+    const result = await importSharedLevel(text);
+    setBusy(false);
+    if ('issues' in result) {
+      setIssues(result.issues);
+    } else {
+      onPlay(result.shared);
+    }
+  };
+
+  const importFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      await importText(await readTextFile(file));
+    } catch (e) {
+      console.error("Failed to read level file", e);
+      setIssues([{ path: '$', code: 'invalid_json', message: `Could not read ${file.name}` }]);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex flex-col items-center justify-center z-[60] backdrop-blur-sm p-4">
+      <div className="bg-gray-800 rounded-2xl border border-gray-700 shadow-2xl w-full max-w-lg p-6 flex flex-col gap-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <UploadSimple className="text-amber-400" size={28} weight="bold" />
+            <h2 className="text-2xl font-bold text-white">Import Level</h2>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-lg hover:bg-white/10 transition" title="Close">
+            <X size={20} weight="bold" />
+          </button>
+        </div>
+
+        <textarea
+          value={code}
+          onChange={(e) => { setCode(e.target.value); setIssues([]); }}
+          placeholder="Paste a level code (pdr.1...)"
+          className="w-full h-28 bg-black/40 border border-white/10 rounded-lg p-2 font-mono text-[10px] text-gray-200 break-all resize-none focus:border-amber-500 outline-none"
+        />
+
+        {issues.length > 0 && (
+          <div className="bg-red-900/30 border border-red-500/30 rounded-lg p-3 text-xs text-red-300 flex flex-col gap-1">
+            {issues.slice(0, MAX_SHOWN_ISSUES).map((issue, i) => (
+              <div key={i} className="flex items-start gap-1"><WarningCircle weight="fill" className="mt-0.5 shrink-0" /> {issue.message}</div>
+            ))}
+            {issues.length > MAX_SHOWN_ISSUES && <div className="text-red-400/70">...and {issues.length - MAX_SHOWN_ISSUES} more</div>}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <button
+            onClick={() => importText(code)}
+            disabled={busy || !code.trim()}
+            className="flex-1 bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-400 hover:to-emerald-500 disabled:opacity-40 text-white font-bold py-2 rounded-lg transition flex items-center justify-center gap-2"
+          >
+            {busy ? <CircleNotch className="animate-spin" /> : <Play weight="fill" />} Play Level
+          </button>
+          <label className="flex-1 bg-gray-700 text-white font-bold py-2 rounded-lg hover:bg-gray-600 transition flex items-center justify-center gap-2 cursor-pointer">
+            <FileText weight="fill" /> Open File
+            <input
+              type="file"
+              accept={`${LEVEL_FILE_EXTENSION},.json,application/json`}
+              className="hidden"
+              onChange={(e) => { importFile(e.target.files?.[0]); e.target.value = ''; }}
+            />
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportLevelDialog;
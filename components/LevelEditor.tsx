@@ -0,0 +1,749 @@
+import React, { useRef, useEffect, useState, useMemo, useCallback } from 'react';
+import { LevelConfig, LevelBounds, LevelArchetype, LevelHazard, HazardType, PlatformSubtype, PlatformMotion, Vector2 } from '../types';
+import { PLAYER_WIDTH, DEFAULT_LEVEL_BOUNDS, CONVEYOR_SPEED, WIND_FORCE } from '../constants';
+import { createWorld, getLevelBounds, getMotionOffset } from '../game/world';
+import { validateReachability, ReachabilityReport } from '../game/reachability';
+import { randomSeed } from '../game/random';
+import { validateLevel } from '../services/levelValidator';
+import { saveToLibrary } from '../services/libraryService';
+import { generatePrairieDogSpriteSheet, renderWorld, createSnapshot } from './worldRenderer';
+import { Cursor, ArrowUUpLeft, ArrowUUpRight, Trash, Play, Flag, FloppyDisk, SignOut, CheckCircle, WarningCircle } from 'phosphor-react';
+
+interface LevelEditorProps {
+  level: LevelConfig;
+  difficulty: number;
+  hidden: boolean; // Kept mounted (with its undo history) while a play-test runs
+  onPlayTest: (level: LevelConfig, spawn?: Vector2) => void;
+  onExit: () => void;
+  width: number;
+  height: number;
+}
+
+type EntityKind = 'platform' | 'obstacle' | 'enemy' | 'collectible' | 'hazard' | 'checkpoint' | 'goal';
+interface Selection { kind: EntityKind; index: number; }
+interface Rect { x: number; y: number; w: number; h: number; }
+
+type Tool =
+  | 'select'
+  | 'platform_normal' | 'platform_crumble' | 'platform_bouncy' | 'platform_oneway' | 'platform_conveyor'
+  | 'crate'
+  | 'enemy_snake' | 'enemy_hawk' | 'enemy_bat' | 'enemy_bug' | 'enemy_mole' | 'enemy_coyote' | 'enemy_badger' | 'enemy_rattlesnake'
+  | 'hazard_spikes' | 'hazard_water' | 'hazard_quicksand' | 'hazard_wind'
+  | 'seed' | 'shield' | 'checkpoint' | 'goal';
+
+const TOOLS: { tool: Tool; label: string }[] = [
+  { tool: 'select', label: 'Select' },
+  { tool: 'platform_normal', label: 'Platform' },
+  { tool: 'platform_crumble', label: 'Crumble' },
+  { tool: 'platform_bouncy', label: 'Bouncy' },
+  { tool: 'platform_oneway', label: 'One-way' },
+  { tool: 'platform_conveyor', label: 'Conveyor' },
+  { tool: 'crate', label: 'Crate' },
+  { tool: 'enemy_snake', label: 'Snake' },
+  { tool: 'enemy_mole', label: 'Mole' },
+  { tool: 'enemy_hawk', label: 'Hawk' },
+  { tool: 'enemy_bat', label: 'Bat' },
+  { tool: 'enemy_bug', label: 'Bug' },
+  { tool: 'enemy_coyote', label: 'Coyote' },
+  { tool: 'enemy_badger', label: 'Badger' },
+  { tool: 'enemy_rattlesnake', label: 'Rattler' },
+  { tool: 'hazard_spikes', label: 'Spikes' },
+  { tool: 'hazard_water', label: 'Water' },
+  { tool: 'hazard_quicksand', label: 'Quicksand' },
+  { tool: 'hazard_wind', label: 'Wind' },
+  { tool: 'seed', label: 'Seed' },
+  { tool: 'shield', label: 'Shield' },
+  { tool: 'checkpoint', label: 'Checkpoint' },
+  { tool: 'goal', label: 'Goal' }
+];
+
+const GRID = 25;
+const HANDLE_SIZE = 12; // Resize handle at the bottom-right corner of platforms and crates
+const MIN_SIZE = GRID;
+const MAX_HISTORY = 100;
+
+const ENEMY_SIZE = 40;
+const COLLECTIBLE_SIZE = 30;
+const GOAL_SIZE = { w: 60, h: 80 };
+
+const snap = (v: number) => Math.round(v / GRID) * GRID;
+
+const HAZARD_SIZE: Record<HazardType, { w: number; h: number }> = {
+  spikes: { w: 100, h: 25 },
+  water: { w: 300, h: 150 },
+  quicksand: { w: 200, h: 50 },
+  wind: { w: 300, h: 300 }
+};
+
+// Starting paths when a platform is set moving; every value can be tuned in the inspector
+const DEFAULT_MOTION: Record<PlatformMotion['path'], PlatformMotion> = {
+  linear: { path: 'linear', dx: 200, dy: 0, period: 240 },
+  circular: { path: 'circular', radius: 100, period: 240 }
+};
+
+// A minimal starting point for a level built from scratch
+export const createBlankLevel = (): LevelConfig => ({
+  name: 'Untitled Burrow',
+  description: 'A hand-built level.',
+  platforms: [
+    { x: 0, y: 500, w: 600, h: 100, subtype: 'normal' },
+    { x: DEFAULT_LEVEL_BOUNDS.width - 400, y: 500, w: 400, h: 100, subtype: 'normal' }
+  ],
+  obstacles: [],
+  enemies: [],
+  collectibles: [],
+  goal: { x: DEFAULT_LEVEL_BOUNDS.width - 200, y: 450 },
+  seed: randomSeed(),
+  bounds: { ...DEFAULT_LEVEL_BOUNDS }
+});
+
+const getRect = (level: LevelConfig, sel: Selection): Rect => {
+  switch (sel.kind) {
+    case 'platform': {
+      const p = level.platforms[sel.index];
+      return { x: p.x, y: p.y, w: p.w, h: p.h };
+    }
+    case 'obstacle': {
+      const o = level.obstacles[sel.index];
+      return { x: o.x, y: o.y, w: o.w, h: o.h };
+    }
+    case 'enemy': {
+      const e = level.enemies[sel.index];
+      return { x: e.x, y: e.y, w: ENEMY_SIZE, h: ENEMY_SIZE };
+    }
+    case 'collectible': {
+      const c = level.collectibles[sel.index];
+      return { x: c.x, y: c.y, w: COLLECTIBLE_SIZE, h: COLLECTIBLE_SIZE };
+    }
+    case 'hazard': {
+      const h = level.hazards![sel.index];
+      return { x: h.x, y: h.y, w: h.w, h: h.h };
+    }
+    case 'checkpoint': {
+      const c = level.checkpoints![sel.index];
+      return { x: c.x, y: c.y, ...GOAL_SIZE };
+    }
+    case 'goal':
+      return { x: level.goal.x, y: level.goal.y, ...GOAL_SIZE };
+  }
+};
+
+const isResizable = (sel: Selection | null) => sel !== null && (sel.kind === 'platform' || sel.kind === 'obstacle' || sel.kind === 'hazard');
+
+// Immutable edit of one entity; everything else is shared with the previous level
+const updateEntity = (level: LevelConfig, sel: Selection, changes: Partial<Rect> & Record<string, unknown>): LevelConfig => {
+  const { w, h, ...position } = changes;
+  switch (sel.kind) {
+    case 'platform':
+      return { ...level, platforms: level.platforms.map((p, i) => (i === sel.index ? { ...p, ...changes } : p)) };
+    case 'obstacle':
+      return { ...level, obstacles: level.obstacles.map((o, i) => (i === sel.index ? { ...o, ...changes } : o)) };
+    case 'enemy':
+      return { ...level, enemies: level.enemies.map((e, i) => (i === sel.index ? { ...e, ...position } : e)) };
+    case 'collectible':
+      return { ...level, collectibles: level.collectibles.map((c, i) => (i === sel.index ? { ...c, ...position } : c)) };
+    case 'hazard':
+      return { ...level, hazards: (level.hazards || []).map((h, i) => (i === sel.index ? { ...h, ...changes } : h)) };
+    case 'checkpoint':
+      return { ...level, checkpoints: (level.checkpoints || []).map((c, i) => (i === sel.index ? { ...c, ...position } : c)) };
+    case 'goal':
+      return { ...level, goal: { x: changes.x ?? level.goal.x, y: changes.y ?? level.goal.y } };
+  }
+};
+
+const removeEntity = (level: LevelConfig, sel: Selection): LevelConfig => {
+  const without = <T,>(items: T[]) => items.filter((_, i) => i !== sel.index);
+  switch (sel.kind) {
+    case 'platform': return { ...level, platforms: without(level.platforms) };
+    case 'obstacle': return { ...level, obstacles: without(level.obstacles) };
+    case 'enemy': return { ...level, enemies: without(level.enemies) };
+    case 'collectible': return { ...level, collectibles: without(level.collectibles) };
+    case 'hazard': return { ...level, hazards: without(level.hazards || []) };
+    case 'checkpoint': return { ...level, checkpoints: without(level.checkpoints || []) };
+    case 'goal': return level; // There is always exactly one goal
+  }
+};
+
+// Add an entity for a placement tool at a snapped world position, returning the new level and its selection
+const placeEntity = (level: LevelConfig, tool: Tool, x: number, y: number): { level: LevelConfig; selection: Selection } | null => {
+  if (tool.startsWith('platform_')) {
+    const subtype = tool.slice('platform_'.length) as PlatformSubtype;
+    const platform = { x, y, w: subtype === 'bouncy' ? 100 : 200, h: 25, subtype };
+    return { level: { ...level, platforms: [...level.platforms, platform] }, selection: { kind: 'platform', index: level.platforms.length } };
+  }
+  if (tool === 'crate') {
+    return { level: { ...level, obstacles: [...level.obstacles, { x, y, w: 50, h: 50, type: 'crate' }] }, selection: { kind: 'obstacle', index: level.obstacles.length } };
+  }
+  if (tool.startsWith('enemy_')) {
+    const type = tool.slice('enemy_'.length) as LevelConfig['enemies'][number]['type'];
+    return { level: { ...level, enemies: [...level.enemies, { x, y, type }] }, selection: { kind: 'enemy', index: level.enemies.length } };
+  }
+  if (tool.startsWith('hazard_')) {
+    const type = tool.slice('hazard_'.length) as HazardType;
+    const hazards = level.hazards || [];
+    const hazard: LevelHazard = { x, y, ...HAZARD_SIZE[type], type };
+    if (type === 'wind') hazard.force = { x: WIND_FORCE, y: 0 };
+    return { level: { ...level, hazards: [...hazards, hazard] }, selection: { kind: 'hazard', index: hazards.length } };
+  }
+  if (tool === 'seed' || tool === 'shield') {
+    return { level: { ...level, collectibles: [...level.collectibles, { x, y, type: tool }] }, selection: { kind: 'collectible', index: level.collectibles.length } };
+  }
+  if (tool === 'checkpoint') {
+    const checkpoints = level.checkpoints || [];
+    return { level: { ...level, checkpoints: [...checkpoints, { x, y }] }, selection: { kind: 'checkpoint', index: checkpoints.length } };
+  }
+  if (tool === 'goal') {
+    return { level: { ...level, goal: { x, y } }, selection: { kind: 'goal', index: 0 } };
+  }
+  return null;
+};
+
+// Topmost entity under a point: small things first, then whatever was added last
+const hitTest = (level: LevelConfig, p: Vector2): Selection | null => {
+  const inside = (r: Rect) => p.x >= r.x && p.x <= r.x + r.w && p.y >= r.y && p.y <= r.y + r.h;
+  const candidates: Selection[] = [
+    { kind: 'goal', index: 0 },
+    ...(level.checkpoints || []).map((_, index) => ({ kind: 'checkpoint' as const, index })).reverse(),
+    ...level.collectibles.map((_, index) => ({ kind: 'collectible' as const, index })).reverse(),
+    ...level.enemies.map((_, index) => ({ kind: 'enemy' as const, index })).reverse(),
+    ...level.obstacles.map((_, index) => ({ kind: 'obstacle' as const, index })).reverse(),
+    ...level.platforms.map((_, index) => ({ kind: 'platform' as const, index })).reverse(),
+    ...(level.hazards || []).map((_, index) => ({ kind: 'hazard' as const, index })).reverse() // Big volumes last, so what's inside stays clickable
+  ];
+  return candidates.find(sel => inside(getRect(level, sel))) || null;
+};
+
+interface History { past: LevelConfig[]; present: LevelConfig; future: LevelConfig[]; }
+
+type Drag =
+  | { mode: 'move'; start: LevelConfig; selection: Selection; grab: Vector2 }
+  | { mode: 'resize'; start: LevelConfig; selection: Selection; origin: Vector2 }
+  | { mode: 'pan'; client: Vector2 };
+
+const LevelEditor: React.FC<LevelEditorProps> = ({ level, difficulty, hidden, onPlayTest, onExit, width, height }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [spriteSheet, setSpriteSheet] = useState<HTMLCanvasElement | null>(null);
+  const dpr = typeof window !== 'undefined' ? window.devicePixelRatio || 1 : 1;
+
+  const [history, setHistory] = useState<History>({ past: [], present: level, future: [] });
+  const [tool, setTool] = useState<Tool>('select');
+  const [selection, setSelection] = useState<Selection | null>(null);
+  const [report, setReport] = useState<ReachabilityReport | null>(null);
+  const [saveState, setSaveState] = useState<'idle' | 'saved'>('idle');
+
+  const present = history.present;
+  const cameraRef = useRef<Vector2>({ x: 0, y: 0 });
+  const dragRef = useRef<Drag | null>(null);
+
+  // Start over when handed a different level
+  useEffect(() => {
+    setHistory({ past: [], present: level, future: [] });
+    setSelection(null);
+    cameraRef.current = { x: 0, y: 0 };
+  }, [level]);
+
+  useEffect(() => {
+    setSpriteSheet(generatePrairieDogSpriteSheet());
+  }, []);
+
+  // --- History ---
+  const commit = useCallback((next: LevelConfig, before: LevelConfig = present) => {
+    if (next === before) return;
+    setHistory(h => ({ past: [...h.past, before].slice(-MAX_HISTORY), present: next, future: [] }));
+    setSaveState('idle');
+  }, [present]);
+
+  const undo = useCallback(() => {
+    setHistory(h => h.past.length === 0 ? h : { past: h.past.slice(0, -1), present: h.past[h.past.length - 1], future: [h.present, ...h.future] });
+    setSelection(null);
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(h => h.future.length === 0 ? h : { past: [...h.past, h.present], present: h.future[0], future: h.future.slice(1) });
+    setSelection(null);
+  }, []);
+
+  const deleteSelection = useCallback(() => {
+    if (!selection || selection.kind === 'goal') return;
+    commit(removeEntity(present, selection));
+    setSelection(null);
+  }, [selection, present, commit]);
+
+  // Reachability of the edited level, checked once editing settles
+  useEffect(() => {
+    const timer = setTimeout(() => setReport(validateReachability(present)), 300);
+    return () => clearTimeout(timer);
+  }, [present]);
+
+  const issues = useMemo(() => {
+    const result = validateLevel(present);
+    return 'issues' in result ? result.issues : [];
+  }, [present]);
+
+  // --- Rendering ---
+  const world = useMemo(() => createWorld(present), [present]);
+  const drawStateRef = useRef({ world, selection, spriteSheet });
+  drawStateRef.current = { world, selection, spriteSheet };
+
+  useEffect(() => {
+    if (hidden) return;
+    let animationFrameId: number;
+
+    const draw = () => {
+      const ctx = canvasRef.current?.getContext('2d');
+      const { world, selection, spriteSheet } = drawStateRef.current;
+      const camera = cameraRef.current;
+      if (ctx) {
+        renderWorld(ctx, world, spriteSheet, {
+          width,
+          height,
+          dpr,
+          camera,
+          prev: createSnapshot(world, camera),
+          alpha: 1
+        });
+
+        // Editor overlay in world space
+        ctx.save();
+        ctx.translate(-camera.x, -camera.y);
+
+        ctx.strokeStyle = 'rgba(0, 0, 0, 0.08)';
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        for (let x = Math.floor(camera.x / GRID) * GRID; x < camera.x + width; x += GRID) {
+          ctx.moveTo(x, camera.y);
+          ctx.lineTo(x, camera.y + height);
+        }
+        for (let y = Math.floor(camera.y / GRID) * GRID; y < camera.y + height; y += GRID) {
+          ctx.moveTo(camera.x, y);
+          ctx.lineTo(camera.x + width, y);
+        }
+        ctx.stroke();
+
+        // World bounds: the kill plane in red, the other edges in white
+        const { width: levelWidth, height: levelHeight, killY } = world.bounds;
+        ctx.lineWidth = 2;
+        ctx.strokeStyle = 'rgba(255, 255, 255, 0.6)';
+        ctx.strokeRect(0, killY - levelHeight, levelWidth, levelHeight);
+        ctx.strokeStyle = '#ef4444';
+        ctx.beginPath();
+        ctx.moveTo(camera.x, killY);
+        ctx.lineTo(camera.x + width, killY);
+        ctx.stroke();
+        ctx.lineWidth = 1;
+
+        // Outline every entity at its authored position (ground enemies are drawn snapped by the renderer)
+        const level = world.level;
+        ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)';
+        ctx.setLineDash([4, 4]);
+        const outline = (sel: Selection) => {
+          const r = getRect(level, sel);
+          ctx.strokeRect(r.x, r.y, r.w, r.h);
+        };
+        level.enemies.forEach((_, index) => outline({ kind: 'enemy', index }));
+        // Paths of moving platforms, traced through their full cycle
+        level.platforms.forEach(p => {
+          if (!p.motion) return;
+          ctx.beginPath();
+          for (let step = 0; step <= 32; step++) {
+            const offset = getMotionOffset(p.motion, (p.motion.period * step) / 32);
+            ctx.lineTo(p.x + p.w / 2 + offset.x, p.y + offset.y);
+          }
+          ctx.stroke();
+        });
+        level.collectibles.forEach((_, index) => outline({ kind: 'collectible', index }));
+        (level.checkpoints || []).forEach((_, index) => outline({ kind: 'checkpoint', index }));
+        outline({ kind: 'goal', index: 0 });
+        ctx.setLineDash([]);
+
+        if (selection) {
+          const r = getRect(level, selection);
+          ctx.strokeStyle = '#f59e0b';
+          ctx.lineWidth = 3;
+          ctx.strokeRect(r.x - 2, r.y - 2, r.w + 4, r.h + 4);
+          if (isResizable(selection)) {
+            ctx.fillStyle = '#f59e0b';
+            ctx.fillRect(r.x + r.w - HANDLE_SIZE / 2, r.y + r.h - HANDLE_SIZE / 2, HANDLE_SIZE, HANDLE_SIZE);
+          }
+        }
+        ctx.restore();
+      }
+      animationFrameId = requestAnimationFrame(draw);
+    };
+
+    animationFrameId = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(animationFrameId);
+  }, [hidden, width, height, dpr]);
+
+  // --- Pointer Input ---
+  // The canvas is letterboxed with object-contain, so map through the drawn area rather than the element box
+  const toWorld = (clientX: number, clientY: number): Vector2 => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    const scale = Math.min(rect.width / width, rect.height / height) || 1;
+    const offsetX = (rect.width - width * scale) / 2;
+    const offsetY = (rect.height - height * scale) / 2;
+    return {
+      x: (clientX - rect.left - offsetX) / scale + cameraRef.current.x,
+      y: (clientY - rect.top - offsetY) / scale + cameraRef.current.y
+    };
+  };
+
+  const screenScale = () => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return Math.min(rect.width / width, rect.height / height) || 1;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    const p = toWorld(e.clientX, e.clientY);
+    (e.target as HTMLElement).setPointerCapture(e.pointerId);
+
+    if (tool !== 'select') {
+      const placed = placeEntity(present, tool, snap(p.x), snap(p.y));
+      if (placed) {
+        commit(placed.level);
+        setSelection(placed.selection);
+      }
+      return;
+    }
+
+    if (selection && isResizable(selection)) {
+      const r = getRect(present, selection);
+      if (Math.abs(p.x - (r.x + r.w)) <= HANDLE_SIZE && Math.abs(p.y - (r.y + r.h)) <= HANDLE_SIZE) {
+        dragRef.current = { mode: 'resize', start: present, selection, origin: { x: r.x, y: r.y } };
+        return;
+      }
+    }
+
+    const hit = hitTest(present, p);
+    setSelection(hit);
+    if (hit) {
+      const r = getRect(present, hit);
+      dragRef.current = { mode: 'move', start: present, selection: hit, grab: { x: p.x - r.x, y: p.y - r.y } };
+    } else {
+      dragRef.current = { mode: 'pan', client: { x: e.clientX, y: e.clientY } };
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+
+    if (drag.mode === 'pan') {
+      const scale = screenScale();
+      cameraRef.current.x -= (e.clientX - drag.client.x) / scale;
+      cameraRef.current.y -= (e.clientY - drag.client.y) / scale;
+      drag.client = { x: e.clientX, y: e.clientY };
+      return;
+    }
+
+    // Drags edit the present level directly and become a single undo step on release
+    const p = toWorld(e.clientX, e.clientY);
+    const next = drag.mode === 'move'
+      ? updateEntity(drag.start, drag.selection, { x: snap(p.x - drag.grab.x), y: snap(p.y - drag.grab.y) })
+      : updateEntity(drag.start, drag.selection, {
+          w: Math.max(MIN_SIZE, snap(p.x - drag.origin.x)),
+          h: Math.max(MIN_SIZE, snap(p.y - drag.origin.y))
+        });
+    setHistory(h => ({ ...h, present: next }));
+  };
+
+  const handlePointerUp = () => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (drag && drag.mode !== 'pan') {
+      setHistory(h => {
+        const moved = JSON.stringify(getRect(h.present, drag.selection)) !== JSON.stringify(getRect(drag.start, drag.selection));
+        return moved ? { past: [...h.past, drag.start].slice(-MAX_HISTORY), present: h.present, future: [] } : { ...h, present: drag.start };
+      });
+      setSaveState('idle');
+    }
+  };
+
+  const handleWheel = (e: React.WheelEvent) => {
+    // Levels are wide: the wheel scrolls sideways, Shift+wheel scrolls vertically
+    if (e.shiftKey) cameraRef.current.y += e.deltaY;
+    else cameraRef.current.x += e.deltaY + e.deltaX;
+  };
+
+  // --- Keyboard Shortcuts ---
+  useEffect(() => {
+    if (hidden) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
+      const mod = e.ctrlKey || e.metaKey;
+      if (mod && e.key.toLowerCase() === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) redo(); else undo();
+      } else if (mod && e.key.toLowerCase() === 'y') {
+        e.preventDefault();
+        redo();
+      } else if (e.key === 'Delete' || e.key === 'Backspace') {
+        deleteSelection();
+      } else if (e.key === 'Escape') {
+        setSelection(null);
+        setTool('select');
+      } else if (e.key === 'ArrowLeft') cameraRef.current.x -= GRID * 4;
+      else if (e.key === 'ArrowRight') cameraRef.current.x += GRID * 4;
+      else if (e.key === 'ArrowUp') cameraRef.current.y -= GRID * 4;
+      else if (e.key === 'ArrowDown') cameraRef.current.y += GRID * 4;
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [hidden, undo, redo, deleteSelection]);
+
+  // Drop the player in the middle of the current view, above whatever is there
+  const playTestFromHere = () => {
+    const camera = cameraRef.current;
+    onPlayTest(present, { x: snap(camera.x + width / 2 - PLAYER_WIDTH / 2), y: Math.round(camera.y + 50) });
+  };
+
+  const saveLevel = async () => {
+    await saveToLibrary(present, difficulty);
+    setSaveState('saved');
+  };
+
+  const selectedPlatform = selection?.kind === 'platform' ? present.platforms[selection.index] : null;
+  const selectedEnemy = selection?.kind === 'enemy' ? present.enemies[selection.index] : null;
+  const selectedCollectible = selection?.kind === 'collectible' ? present.collectibles[selection.index] : null;
+  const selectedHazard = selection?.kind === 'hazard' ? present.hazards![selection.index] : null;
+  const selectedRect = selection ? getRect(present, selection) : null;
+  const bounds = getLevelBounds(present);
+
+  return (
+    <div className={`fixed inset-0 z-40 bg-gray-900 flex flex-col ${hidden ? 'hidden' : ''}`}>
+        {/* Toolbar */}
+        <div className="flex flex-wrap items-center gap-2 p-2 bg-gray-800 border-b border-white/10 text-white text-xs">
+            <input
+                value={present.name}
+                onChange={(e) => commit({ ...present, name: e.target.value })}
+                className="bg-black/30 border border-white/10 rounded px-2 py-1 font-bold text-amber-200 w-44"
+                aria-label="Level name"
+            />
+            <div className="flex flex-wrap gap-1">
+                {TOOLS.map(t => (
+                    <button
+                        key={t.tool}
+                        onClick={() => setTool(t.tool)}
+                        className={`px-2 py-1 rounded transition flex items-center gap-1 ${tool === t.tool ? 'bg-amber-500 text-black font-bold' : 'bg-white/10 hover:bg-white/20'}`}
+                    >
+                        {t.tool === 'select' && <Cursor size={14} />}
+                        {t.tool === 'goal' && <Flag size={14} />}
+                        {t.label}
+                    </button>
+                ))}
+            </div>
+            <div className="flex gap-1 ml-auto">
+                <button onClick={undo} disabled={history.past.length === 0} className="p-1.5 rounded bg-white/10 hover:bg-white/20 disabled:opacity-40" title="Undo (Ctrl+Z)">
+                    <ArrowUUpLeft size={16} />
+                </button>
+                <button onClick={redo} disabled={history.future.length === 0} className="p-1.5 rounded bg-white/10 hover:bg-white/20 disabled:opacity-40" title="Redo (Ctrl+Shift+Z)">
+                    <ArrowUUpRight size={16} />
+                </button>
+                <button onClick={deleteSelection} disabled={!selection || selection.kind === 'goal'} className="p-1.5 rounded bg-white/10 hover:bg-red-600/60 disabled:opacity-40" title="Delete (Del)">
+                    <Trash size={16} />
+                </button>
+            </div>
+            <div className="flex gap-1">
+                <button onClick={() => onPlayTest(present)} className="flex items-center gap-1 px-2 py-1 rounded bg-green-600 hover:bg-green-500 font-bold">
+                    <Play weight="fill" size={14} /> Play-test
+                </button>
+                <button onClick={playTestFromHere} className="flex items-center gap-1 px-2 py-1 rounded bg-green-700 hover:bg-green-600 font-bold">
+                    <Play weight="fill" size={14} /> From Here
+                </button>
+                <button onClick={saveLevel} className="flex items-center gap-1 px-2 py-1 rounded bg-white/10 hover:bg-white/20">
+                    <FloppyDisk size={14} /> {saveState === 'saved' ? 'Saved' : 'Save to Library'}
+                </button>
+                <button onClick={onExit} className="flex items-center gap-1 px-2 py-1 rounded border border-white/20 hover:bg-white/10">
+                    <SignOut size={14} /> Done
+                </button>
+            </div>
+        </div>
+
+        {/* Canvas */}
+        <div className="flex-1 relative overflow-hidden">
+            <canvas
+                ref={canvasRef}
+                width={width * dpr}
+                height={height * dpr}
+                className={`block w-full h-full object-contain bg-sky-200 touch-none ${tool === 'select' ? 'cursor-default' : 'cursor-crosshair'}`}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+                onWheel={handleWheel}
+            />
+
+            {/* Inspector & Checks */}
+            <div className="absolute bottom-3 left-3 bg-black/70 backdrop-blur-md border border-white/10 rounded-xl p-3 text-white text-xs flex flex-col gap-2 max-w-xs">
+                {selection && selectedRect ? (
+                    <>
+                        <div className="font-bold capitalize text-amber-300">{selection.kind}</div>
+                        <div className="font-mono text-gray-300">
+                            x {selectedRect.x} · y {selectedRect.y}{isResizable(selection) && ` · ${selectedRect.w}×${selectedRect.h}`}
+                        </div>
+                        {selectedPlatform && (
+                            <select
+                                value={selectedPlatform.subtype || 'normal'}
+                                onChange={(e) => commit(updateEntity(present, selection, {
+                                  subtype: e.target.value,
+                                  speed: e.target.value === 'conveyor' ? selectedPlatform.speed : undefined // Only belts have a speed
+                                }))}
+                                className="bg-gray-800 border border-white/10 rounded px-2 py-1"
+                            >
+                                <option value="normal">Normal</option>
+                                <option value="crumble">Crumble</option>
+                                <option value="bouncy">Bouncy</option>
+                                <option value="oneway">One-way</option>
+                                <option value="conveyor">Conveyor</option>
+                            </select>
+                        )}
+                        {selectedPlatform && selectedPlatform.subtype === 'conveyor' && (
+                            <label className="flex items-center justify-between gap-2 text-gray-400">
+                                Belt speed
+                                <input
+                                    type="number"
+                                    step={0.5}
+                                    value={selectedPlatform.speed ?? CONVEYOR_SPEED}
+                                    onChange={(e) => {
+                                      const value = Number(e.target.value);
+                                      if (Number.isFinite(value)) commit(updateEntity(present, selection, { speed: value }));
+                                    }}
+                                    className="bg-gray-800 border border-white/10 rounded px-1 py-0.5 font-mono text-white w-20"
+                                />
+                            </label>
+                        )}
+                        {selectedPlatform && (
+                            <select
+                                value={selectedPlatform.motion?.path || 'static'}
+                                onChange={(e) => commit(updateEntity(present, selection, {
+                                  motion: e.target.value === 'static' ? undefined : { ...DEFAULT_MOTION[e.target.value as PlatformMotion['path']] }
+                                }))}
+                                className="bg-gray-800 border border-white/10 rounded px-2 py-1"
+                            >
+                                <option value="static">Static</option>
+                                <option value="linear">Moving: back and forth</option>
+                                <option value="circular">Moving: in a loop</option>
+                            </select>
+                        )}
+                        {selectedPlatform?.motion && (
+                            <div className="grid grid-cols-3 gap-1">
+                                {((selectedPlatform.motion.path === 'circular' ? ['radius', 'period'] : ['dx', 'dy', 'period']) as ('dx' | 'dy' | 'radius' | 'period')[]).map(key => (
+                                    <label key={key} className="flex flex-col gap-0.5 text-gray-400">
+                                        {key === 'period' ? 'Ticks' : key === 'radius' ? 'Radius' : key.toUpperCase()}
+                                        <input
+                                            type="number"
+                                            step={key === 'period' ? 30 : GRID}
+                                            value={selectedPlatform.motion![key] ?? 0}
+                                            onChange={(e) => {
+                                              const value = Number(e.target.value);
+                                              if (Number.isFinite(value)) commit(updateEntity(present, selection, { motion: { ...selectedPlatform.motion!, [key]: value } }));
+                                            }}
+                                            className="bg-gray-800 border border-white/10 rounded px-1 py-0.5 font-mono text-white w-full"
+                                        />
+                                    </label>
+                                ))}
+                            </div>
+                        )}
+                        {selectedEnemy && (
+                            <select
+                                value={selectedEnemy.type}
+                                onChange={(e) => commit(updateEntity(present, selection, { type: e.target.value }))}
+                                className="bg-gray-800 border border-white/10 rounded px-2 py-1 capitalize"
+                            >
+                                {['snake', 'mole', 'hawk', 'bat', 'bug', 'coyote', 'badger', 'rattlesnake'].map(type => <option key={type} value={type}>{type}</option>)}
+                            </select>
+                        )}
+                        {selectedCollectible && (
+                            <select
+                                value={selectedCollectible.type || 'seed'}
+                                onChange={(e) => commit(updateEntity(present, selection, { type: e.target.value }))}
+                                className="bg-gray-800 border border-white/10 rounded px-2 py-1"
+                            >
+                                <option value="seed">Seed</option>
+                                <option value="shield">Shield</option>
+                            </select>
+                        )}
+                        {selectedHazard && (
+                            <select
+                                value={selectedHazard.type}
+                                onChange={(e) => commit(updateEntity(present, selection, {
+                                  type: e.target.value,
+                                  force: e.target.value === 'wind' ? selectedHazard.force || { x: WIND_FORCE, y: 0 } : undefined // Only wind pushes
+                                }))}
+                                className="bg-gray-800 border border-white/10 rounded px-2 py-1 capitalize"
+                            >
+                                {Object.keys(HAZARD_SIZE).map(type => <option key={type} value={type}>{type}</option>)}
+                            </select>
+                        )}
+                        {selectedHazard?.force && (
+                            <div className="grid grid-cols-2 gap-1">
+                                {(['x', 'y'] as (keyof Vector2)[]).map(key => (
+                                    <label key={key} className="flex flex-col gap-0.5 text-gray-400">
+                                        Push {key.toUpperCase()}
+                                        <input
+                                            type="number"
+                                            step={0.1}
+                                            value={selectedHazard.force![key]}
+                                            onChange={(e) => {
+                                              const value = Number(e.target.value);
+                                              if (Number.isFinite(value)) commit(updateEntity(present, selection, { force: { ...selectedHazard.force!, [key]: value } }));
+                                            }}
+                                            className="bg-gray-800 border border-white/10 rounded px-1 py-0.5 font-mono text-white w-full"
+                                        />
+                                    </label>
+                                ))}
+                            </div>
+                        )}
+                    </>
+                ) : (
+                    <>
+                    <div className="font-bold text-amber-300">World</div>
+                    <select
+                        value={present.archetype || 'run'}
+                        onChange={(e) => commit({ ...present, archetype: e.target.value as LevelArchetype })}
+                        className="bg-gray-800 border border-white/10 rounded px-2 py-1"
+                    >
+                        <option value="run">Run (reach the far right)</option>
+                        <option value="climb">Climb (death plane rises)</option>
+                    </select>
+                    <div className="grid grid-cols-3 gap-1">
+                        {(['width', 'height', 'killY'] as (keyof LevelBounds)[]).map(key => (
+                            <label key={key} className="flex flex-col gap-0.5 text-gray-400">
+                                {key === 'killY' ? 'Kill Y' : key === 'width' ? 'Width' : 'Height'}
+                                <input
+                                    type="number"
+                                    step={GRID}
+                                    value={bounds[key]}
+                                    onChange={(e) => {
+                                      const value = Number(e.target.value);
+                                      if (Number.isFinite(value) && (key === 'killY' || value > 0)) commit({ ...present, bounds: { ...bounds, [key]: value } });
+                                    }}
+                                    className="bg-gray-800 border border-white/10 rounded px-1 py-0.5 font-mono text-white w-full"
+                                />
+                            </label>
+                        ))}
+                    </div>
+                    <div className="text-gray-400">Click to select · drag to move · drag the corner to resize · drag empty space or scroll to pan</div>
+                    </>
+                )}
+
+                <div className="border-t border-white/10 pt-2 flex flex-col gap-1">
+                    {report && (report.goalReachable ? (
+                        <div className="flex items-center gap-1 text-emerald-400"><CheckCircle weight="fill" /> Goal reachable</div>
+                    ) : (
+                        <div className="flex items-center gap-1 text-red-400"><WarningCircle weight="fill" /> No path to the goal</div>
+                    ))}
+                    {report && report.unreachableCollectibles.length > 0 && (
+                        <div className="flex items-center gap-1 text-amber-300"><WarningCircle weight="fill" /> {report.unreachableCollectibles.length} unreachable collectible(s)</div>
+                    )}
+                    {issues.slice(0, 3).map(issue => (
+                        <div key={issue.path + issue.code} className="text-amber-300 truncate" title={issue.message}>{issue.message}</div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    </div>
+  );
+};
+
+export default LevelEditor;
@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from 'react';
+import { LibraryEntry, listLibrary, deleteFromLibrary, setLibraryFavourite } from '../services/libraryService';
+import { downloadTextFile, toFileSlug } from '../services/fileService';
+import { Books, Play, Trash, Export, X, CircleNotch, Trophy, PencilSimple, ShareNetwork, Star } from 'phosphor-react';
+
+interface LevelLibraryProps {
+  onPlay: (entry: LibraryEntry) => void;
+  onEdit: (entry: LibraryEntry) => void;
+  onShare: (entry: LibraryEntry) => void;
+  onClose: () => void;
+}
+
+const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+
+const LevelLibrary: React.FC<LevelLibraryProps> = ({ onPlay, onEdit, onShare, onClose }) => {
+  const [entries, setEntries] = useState<LibraryEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const [favouritesOnly, setFavouritesOnly] = useState(false);
+
+  const shown = entries && (favouritesOnly ? entries.filter(e => e.favourite) : entries);
+
+  useEffect(() => {
+    listLibrary()
+      .then(setEntries)
+      .catch(e => {
+        console.error("Failed to load level library", e);
+        setError("The level library isn't available in this browser.");
+        setEntries([]);
+      });
+  }, []);
+
+  const handleDelete = async (entry: LibraryEntry) => {
+    // First click arms the button, second click deletes
+    if (confirmDeleteId !== entry.id) {
+      setConfirmDeleteId(entry.id);
+      return;
+    }
+    try {
+      await deleteFromLibrary(entry.id);
+      setEntries(prev => prev && prev.filter(e => e.id !== entry.id));
+    } catch (e) {
+      console.error("Failed to delete level", e);
+      setError(`Could not delete "${entry.name}".`);
+    }
+    setConfirmDeleteId(null);
+  };
+
+  const toggleFavourite = async (entry: LibraryEntry) => {
+    const favourite = !entry.favourite;
+    try {
+      await setLibraryFavourite(entry.id, favourite);
+      setEntries(prev => prev && prev.map(e => (e.id === entry.id ? { ...e, favourite } : e)));
+    } catch (e) {
+      console.error("Failed to update favourite", e);
+      setError(`Could not update "${entry.name}".`);
+    }
+  };
+
+  const exportEntry = (entry: LibraryEntry) => {
+    downloadTextFile(`${toFileSlug(entry.name)}.json`, JSON.stringify(entry.level, null, 2));
+  };
+
+  // A plain array of levels, which the "Level File" provider can load directly
+  const exportAll = () => {
+    if (!entries || entries.length === 0) return;
+    downloadTextFile('prairie-dog-levels.json', JSON.stringify(entries.map(e => e.level), null, 2));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex flex-col items-center justify-center z-50 backdrop-blur-sm p-4">
+      <div className="bg-gray-800 rounded-2xl border border-gray-700 shadow-2xl w-full max-w-3xl max-h-full flex flex-col">
+        <div className="flex items-center justify-between p-4 sm:p-6 border-b border-white/10">
+          <div className="flex items-center gap-2">
+            <Books className="text-amber-400" size={28} weight="fill" />
+            <h2 className="text-2xl font-bold text-white">Level Library</h2>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setFavouritesOnly(on => !on)}
+              className={`flex items-center gap-1 px-3 py-2 rounded-lg text-sm font-bold transition ${favouritesOnly ? 'bg-amber-500 text-black hover:bg-amber-400' : 'bg-white/10 hover:bg-white/20'}`}
+              title={favouritesOnly ? 'Show all levels' : 'Show favourites only'}
+            >
+              <Star size={16} weight={favouritesOnly ? 'fill' : 'regular'} /> Favourites
+            </button>
+            <button
+              onClick={exportAll}
+              disabled={!entries || entries.length === 0}
+              className="flex items-center gap-1 bg-white/10 hover:bg-white/20 disabled:opacity-40 px-3 py-2 rounded-lg text-sm font-bold transition"
+            >
+              <Export size={16} /> Export All
+            </button>
+            <button onClick={onClose} className="p-2 rounded-lg hover:bg-white/10 transition" title="Close">
+              <X size={20} weight="bold" />
+            </button>
+          </div>
+        </div>
+
+        {error && <p className="px-6 pt-4 text-sm text-red-400">{error}</p>}
+
+        <div className="flex-1 overflow-y-auto p-4 sm:p-6">
+          {shown === null ? (
+            <div className="flex justify-center py-12"><CircleNotch size={40} className="animate-spin text-amber-500" /></div>
+          ) : shown.length === 0 && favouritesOnly ? (
+            <div className="text-center text-gray-500 text-sm italic py-12">
+              <p>No favourites yet.</p>
+              <p>Star a level to find it here.</p>
+            </div>
+          ) : shown.length === 0 ? (
+            <div className="text-center text-gray-500 text-sm italic py-12">
+              <p>No levels yet.</p>
+              <p>Every level you play is saved here.</p>
+            </div>
+          ) : (
+            <ul className="flex flex-col gap-2">
+              {shown.map(entry => (
+                <li key={entry.id} className="bg-black/20 hover:bg-black/30 rounded-xl p-3 flex flex-wrap items-center gap-3 transition-colors">
+                  <div className="flex-1 min-w-[160px]">
+                    <div className="font-bold text-amber-200 truncate">{entry.name}</div>
+                    <div className="text-xs text-gray-400 font-mono flex flex-wrap gap-x-3">
+                      <span>Lvl {entry.difficulty}</span>
+                      <span>Seed {entry.seed}</span>
+                      <span>{entry.plays} {entry.plays === 1 ? 'play' : 'plays'}</span>
+                    </div>
+                  </div>
+                  <div className="text-xs text-right min-w-[90px]">
+                    {entry.best ? (
+                      <div className="flex items-center justify-end gap-1 text-emerald-400 font-mono">
+                        <Trophy weight="fill" /> {formatTime(entry.best.timeSeconds)} · {entry.best.seeds} seeds
+                      </div>
+                    ) : (
+                      <span className="text-gray-500 italic">Not cleared</span>
+                    )}
+                  </div>
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => toggleFavourite(entry)}
+                      className={`bg-white/10 p-2 rounded-lg hover:bg-white/20 transition ${entry.favourite ? 'text-amber-400' : ''}`}
+                      title={entry.favourite ? 'Remove from favourites' : 'Add to favourites'}
+                    >
+                      <Star weight={entry.favourite ? 'fill' : 'regular'} size={16} />
+                    </button>
+                    <button
+                      onClick={() => onPlay(entry)}
+                      className="bg-amber-500 text-black p-2 rounded-lg hover:bg-amber-400 transition"
+                      title="Play"
+                    >
+                      <Play weight="fill" size={16} />
+                    </button>
+                    <button
+                      onClick={() => onEdit(entry)}
+                      className="bg-white/10 p-2 rounded-lg hover:bg-white/20 transition"
+                      title="Edit"
+                    >
+                      <PencilSimple size={16} />
+                    </button>
+                    <button
+                      onClick={() => onShare(entry)}
+                      className="bg-white/10 p-2 rounded-lg hover:bg-white/20 transition"
+                      title="Share"
+                    >
+                      <ShareNetwork size={16} />
+                    </button>
+                    <button
+                      onClick={() => exportEntry(entry)}
+                      className="bg-white/10 p-2 rounded-lg hover:bg-white/20 transition"
+                      title="Export"
+                    >
+                      <Export size={16} />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(entry)}
+                      onBlur={() => setConfirmDeleteId(id => (id === entry.id ? null : id))}
+                      className={`p-2 rounded-lg transition flex items-center gap-1 text-xs font-bold ${confirmDeleteId === entry.id ? 'bg-red-600 hover:bg-red-500' : 'bg-white/10 hover:bg-red-600/60'}`}
+                      title="Delete"
+                    >
+                      <Trash size={16} /> {confirmDeleteId === entry.id && 'Sure?'}
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LevelLibrary;
@@ -0,0 +1,61 @@
+import React from 'react';
+import { HudState } from '../types';
+import { SHIELD_DURATION, SHIELD_WARNING } from '../constants';
+import { Heart, Shield, Lightning } from 'phosphor-react';
+
+interface PlayerHudProps {
+  hud: HudState;
+  hurt: number; // Bumped on every hit, replaying the hearts' shake
+}
+
+const RING_RADIUS = 14;
+const RING_LENGTH = 2 * Math.PI * RING_RADIUS;
+
+// Hearts, the shield countdown ring and the dash meter
+const PlayerHud: React.FC<PlayerHudProps> = ({ hud, hurt }) => {
+  const lastLife = hud.lives === 1;
+  const shieldExpiring = hud.shield > 0 && hud.shield <= SHIELD_WARNING / SHIELD_DURATION;
+  const dashReady = hud.dash >= 1;
+
+  return (
+    <div className="flex items-center gap-2 sm:gap-3 bg-black/60 p-1.5 sm:p-2 rounded-xl backdrop-blur-md border border-white/10 shadow-lg">
+      {/* Lives */}
+      <div key={hurt} className={`flex items-center gap-0.5 ${hurt > 0 ? 'animate-shake' : ''}`} title={`${hud.lives} of ${hud.maxLives} lives`}>
+        {Array.from({ length: hud.maxLives }, (_, i) => (
+          <Heart
+            key={i}
+            weight={i < hud.lives ? 'fill' : 'regular'}
+            className={`w-4 h-4 sm:w-5 sm:h-5 ${i < hud.lives ? 'text-red-500' : 'text-gray-600'} ${lastLife && i === 0 ? 'animate-pulse' : ''}`}
+          />
+        ))}
+        {lastLife && <span className="hidden sm:inline text-[9px] text-red-400 uppercase font-bold ml-1">Last life</span>}
+      </div>
+
+      {/* Shield countdown */}
+      {hud.shield > 0 && (
+        <div className={`relative w-8 h-8 ${shieldExpiring ? 'animate-pulse' : ''}`} title="Shield">
+          <svg viewBox="0 0 32 32" className="absolute inset-0 -rotate-90">
+            <circle cx="16" cy="16" r={RING_RADIUS} fill="none" stroke="rgba(255,255,255,0.15)" strokeWidth="3" />
+            <circle
+              cx="16" cy="16" r={RING_RADIUS} fill="none" strokeWidth="3" strokeLinecap="round"
+              stroke={shieldExpiring ? '#F87171' : '#38BDF8'}
+              strokeDasharray={RING_LENGTH}
+              strokeDashoffset={RING_LENGTH * (1 - hud.shield)}
+            />
+          </svg>
+          <Shield weight="fill" className={`absolute inset-0 m-auto w-4 h-4 ${shieldExpiring ? 'text-red-300' : 'text-sky-300'}`} />
+        </div>
+      )}
+
+      {/* Dash meter */}
+      <div className="flex items-center gap-1" title={dashReady ? 'Dash ready' : 'Dash recharging'}>
+        <Lightning weight="fill" className={`w-4 h-4 sm:w-5 sm:h-5 ${dashReady ? 'text-yellow-300' : 'text-gray-500'}`} />
+        <div className="w-8 sm:w-12 h-1.5 sm:h-2 bg-white/10 rounded-full overflow-hidden">
+          <div className={`h-full ${dashReady ? 'bg-yellow-300' : 'bg-yellow-700'}`} style={{ width: `${hud.dash * 100}%` }} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PlayerHud;
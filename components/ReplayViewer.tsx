@@ -0,0 +1,227 @@
+import React, { useRef, useEffect, useState, useCallback } from 'react';
+import { Vector2 } from '../types';
+import { SIMULATION_HZ, FIXED_TIMESTEP_MS, MAX_FRAME_MS } from '../constants';
+import { createWorld, World } from '../game/world';
+import { stepWorld } from '../game/simulation';
+import { Replay, expandInputs, decodeInput } from '../game/replay';
+import { generatePrairieDogSpriteSheet, renderWorld, createSnapshot, getFollowCameraTarget, updateFollowCamera, InterpolationSnapshot } from './worldRenderer';
+import { Play, Pause, Crosshair, ArrowsOutCardinal, SignOut } from 'phosphor-react';
+
+interface ReplayViewerProps {
+  replay: Replay;
+  onExit: () => void;
+  width: number;
+  height: number;
+}
+
+const KEYFRAME_INTERVAL = SIMULATION_HZ * 10; // Snapshot the world every 10 seconds for fast scrubbing
+const SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+const formatTicks = (ticks: number) => {
+  const seconds = Math.floor(ticks / SIMULATION_HZ);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+const ReplayViewer: React.FC<ReplayViewerProps> = ({ replay, onExit, width, height }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [spriteSheet, setSpriteSheet] = useState<HTMLCanvasElement | null>(null);
+  const dpr = typeof window !== 'undefined' ? window.devicePixelRatio || 1 : 1;
+
+  // Playback State
+  const [isPlaying, setIsPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+  const [followPlayer, setFollowPlayer] = useState(true);
+  const [tick, setTick] = useState(0);
+
+  const masksRef = useRef<number[]>([]);
+  const keyframesRef = useRef<World[]>([]);
+  const worldRef = useRef<World>(createWorld(replay.level, replay.seed));
+  const cameraRef = useRef<Vector2>({ x: 0, y: 0 });
+  const prevRef = useRef<InterpolationSnapshot>(createSnapshot(worldRef.current, cameraRef.current));
+  const dragRef = useRef<Vector2 | null>(null);
+
+  const stepReplay = (world: World) => {
+    stepWorld(world, decodeInput(masksRef.current[world.tick]));
+  };
+
+  // Pre-simulate the whole run once to build scrub keyframes
+  useEffect(() => {
+    masksRef.current = expandInputs(replay);
+    const world = createWorld(replay.level, replay.seed);
+    const keyframes: World[] = [];
+    while (world.tick < masksRef.current.length && !world.result) {
+      if (world.tick % KEYFRAME_INTERVAL === 0) keyframes.push(structuredClone(world));
+      stepReplay(world);
+    }
+    keyframesRef.current = keyframes;
+
+    worldRef.current = createWorld(replay.level, replay.seed);
+    cameraRef.current = { x: 0, y: 0 };
+    prevRef.current = createSnapshot(worldRef.current, cameraRef.current);
+    setTick(0);
+    setIsPlaying(true);
+  }, [replay]);
+
+  useEffect(() => {
+    setSpriteSheet(generatePrairieDogSpriteSheet());
+  }, []);
+
+  const isFinished = (world: World) => world.result !== null || world.tick >= masksRef.current.length;
+
+  const draw = useCallback((alpha: number) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    renderWorld(ctx, worldRef.current, spriteSheet, {
+      width,
+      height,
+      dpr,
+      camera: cameraRef.current,
+      prev: prevRef.current,
+      alpha
+    });
+  }, [spriteSheet, width, height, dpr]);
+
+  // Jump to any tick by restoring the nearest keyframe and simulating forward
+  const seek = (target: number) => {
+    const keyframes = keyframesRef.current;
+    const keyframe = keyframes[Math.min(Math.floor(target / KEYFRAME_INTERVAL), keyframes.length - 1)];
+    const world = keyframe ? structuredClone(keyframe) : createWorld(replay.level, replay.seed);
+    while (world.tick < target && !isFinished(world)) stepReplay(world);
+    worldRef.current = world;
+
+    if (followPlayer) cameraRef.current = getFollowCameraTarget(world, width, height); // Cut straight to the player, no easing
+    prevRef.current = createSnapshot(world, cameraRef.current);
+    setTick(world.tick);
+    draw(1);
+  };
+
+  // Playback Loop
+  useEffect(() => {
+    let animationFrameId: number;
+    let lastTime: number | null = null;
+    let accumulator = 0;
+
+    const update = (now: number) => {
+      const world = worldRef.current;
+      if (lastTime === null) lastTime = now;
+      const elapsed = Math.min(now - lastTime, MAX_FRAME_MS);
+      lastTime = now;
+
+      if (isPlaying && !isFinished(world)) {
+        accumulator += elapsed * speed;
+        while (accumulator >= FIXED_TIMESTEP_MS && !isFinished(world)) {
+          prevRef.current = createSnapshot(world, cameraRef.current);
+          stepReplay(world);
+          if (followPlayer && !world.isGameOver) updateFollowCamera(cameraRef.current, world, width, height);
+          accumulator -= FIXED_TIMESTEP_MS;
+        }
+        setTick(world.tick);
+        if (isFinished(world)) setIsPlaying(false);
+      }
+
+      draw(isPlaying ? accumulator / FIXED_TIMESTEP_MS : 1);
+      animationFrameId = requestAnimationFrame(update);
+    };
+
+    animationFrameId = requestAnimationFrame(update);
+    return () => cancelAnimationFrame(animationFrameId);
+  }, [isPlaying, speed, followPlayer, draw, width, height]);
+
+  // Free Camera: drag to pan
+  const toWorldDelta = (dx: number, dy: number) => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    const scale = rect && rect.width > 0 ? width / rect.width : 1;
+    return { x: dx * scale, y: dy * scale };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (followPlayer) return;
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    (e.target as HTMLElement).setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragRef.current) return;
+    const delta = toWorldDelta(e.clientX - dragRef.current.x, e.clientY - dragRef.current.y);
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    cameraRef.current.x -= delta.x;
+    cameraRef.current.y -= delta.y;
+    prevRef.current.camera = { ...cameraRef.current };
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const togglePlay = () => {
+    if (!isPlaying && isFinished(worldRef.current)) seek(0);
+    setIsPlaying(p => !p);
+  };
+
+  return (
+    <div className="relative w-full h-full">
+        <canvas
+            ref={canvasRef}
+            width={width * dpr}
+            height={height * dpr}
+            className={`block w-full h-full object-contain bg-sky-200 ${followPlayer ? '' : 'cursor-grab active:cursor-grabbing'}`}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+        />
+
+        {/* Replay Controls */}
+        <div className="absolute bottom-4 left-1/2 -translate-x-1/2 w-[95%] max-w-3xl bg-black/70 backdrop-blur-md border border-white/10 rounded-xl p-3 flex flex-col gap-2 text-white">
+            <div className="flex items-center justify-between text-xs text-gray-300">
+                <span className="font-bold truncate">Replay: {replay.level.name}</span>
+                <span className="font-mono">{formatTicks(tick)} / {formatTicks(masksRef.current.length || replay.ticks)}</span>
+            </div>
+            <input
+                type="range"
+                min={0}
+                max={replay.ticks}
+                value={tick}
+                onChange={(e) => seek(Number(e.target.value))}
+                className="w-full accent-amber-500"
+            />
+            <div className="flex items-center gap-2">
+                <button
+                    onClick={togglePlay}
+                    className="bg-amber-500 text-black p-2 rounded-lg hover:bg-amber-400 transition"
+                    title={isPlaying ? "Pause" : "Play"}
+                >
+                    {isPlaying ? <Pause weight="fill" size={18} /> : <Play weight="fill" size={18} />}
+                </button>
+                <div className="flex gap-1">
+                    {SPEEDS.map(s => (
+                        <button
+                            key={s}
+                            onClick={() => setSpeed(s)}
+                            className={`px-2 py-1 rounded text-xs font-mono transition ${speed === s ? 'bg-white text-black' : 'bg-white/10 hover:bg-white/20'}`}
+                        >
+                            {s}x
+                        </button>
+                    ))}
+                </div>
+                <button
+                    onClick={() => setFollowPlayer(f => !f)}
+                    className="ml-auto flex items-center gap-1 bg-white/10 hover:bg-white/20 px-2 py-1 rounded text-xs transition"
+                    title={followPlayer ? "Switch to free camera (drag to pan)" : "Follow the player"}
+                >
+                    {followPlayer ? <Crosshair size={16} /> : <ArrowsOutCardinal size={16} />}
+                    {followPlayer ? 'Follow' : 'Free Cam'}
+                </button>
+                <button
+                    onClick={onExit}
+                    className="flex items-center gap-1 bg-transparent border border-white/20 hover:bg-white/10 px-2 py-1 rounded text-xs transition"
+                >
+                    <SignOut size={16} /> Exit
+                </button>
+            </div>
+        </div>
+    </div>
+  );
+};
+
+export default ReplayViewer;
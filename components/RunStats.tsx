@@ -0,0 +1,234 @@
+import React, { useMemo, useState } from 'react';
+import { DamageCause, EnemyType } from '../types';
+import { RunRecord, listRuns, summarizeRuns, clearRunHistory } from '../services/statsService';
+import { ENEMY_DEFINITIONS } from '../game/enemyDefinitions';
+import { ChartBar, Skull, Trash, X } from 'phosphor-react';
+
+interface RunStatsProps {
+  onClose: () => void;
+}
+
+const CHART_RUNS = 30; // Runs shown in the charts, newest on the right
+const RECENT_RUNS = 10;
+
+const CAUSE_LABELS: Record<DamageCause, string> = {
+  snake: 'Snake',
+  hawk: 'Hawk',
+  bat: 'Bat',
+  bug: 'Bugs',
+  mole: 'Mole',
+  coyote: 'Coyote',
+  badger: 'Badger',
+  rattlesnake: 'Rattlesnake',
+  boss_badger: 'Giant Badger',
+  boss_eagle: 'Golden Eagle',
+  projectile: 'Projectiles',
+  spikes: 'Cactus spikes',
+  quicksand: 'Quicksand',
+  pit: 'Pits',
+  timeout: 'Out of time'
+};
+
+const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${Math.round(seconds % 60).toString().padStart(2, '0')}`;
+
+const formatDuration = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const mins = Math.floor((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${mins}m` : `${mins}m`;
+};
+
+const causeLabel = (cause: DamageCause) => {
+  const emoji = cause in ENEMY_DEFINITIONS ? ENEMY_DEFINITIONS[cause as EnemyType].emoji : null;
+  return emoji ? `${emoji} ${CAUSE_LABELS[cause]}` : CAUSE_LABELS[cause];
+};
+
+// Bars for one number per run, scaled to the largest
+const RunChart: React.FC<{ title: string; values: number[]; color: string }> = ({ title, values, color }) => {
+  const max = Math.max(1, ...values);
+  const barWidth = 100 / CHART_RUNS;
+  return (
+    <div className="bg-black/20 rounded-xl p-3">
+      <div className="flex justify-between text-xs text-gray-400 mb-2">
+        <span className="uppercase font-bold tracking-wider">{title}</span>
+        <span className="font-mono">max {max.toLocaleString()}</span>
+      </div>
+      <svg viewBox="0 0 100 40" preserveAspectRatio="none" className="w-full h-24">
+        {values.map((value, i) => {
+          const height = (value / max) * 38;
+          return (
+            <rect
+              key={i}
+              x={(CHART_RUNS - values.length + i) * barWidth + barWidth * 0.15}
+              y={40 - height}
+              width={barWidth * 0.7}
+              height={height}
+              className={color}
+            />
+          );
+        })}
+        <line x1="0" y1="39.75" x2="100" y2="39.75" stroke="rgba(255,255,255,0.15)" strokeWidth="0.5" />
+      </svg>
+    </div>
+  );
+};
+
+const Stat: React.FC<{ label: string; value: string; sub?: string }> = ({ label, value, sub }) => (
+  <div className="bg-black/20 rounded-xl p-3">
+    <div className="text-[10px] text-gray-400 uppercase font-bold tracking-wider">{label}</div>
+    <div className="font-mono font-bold text-lg text-white">{value}</div>
+    {sub && <div className="text-xs text-gray-500 font-mono">{sub}</div>}
+  </div>
+);
+
+const RunStats: React.FC<RunStatsProps> = ({ onClose }) => {
+  // Runs that never got past loading have nothing to show
+  const [runs, setRuns] = useState<RunRecord[]>(() => listRuns().filter(r => r.levels.length > 0));
+  const [confirmClear, setConfirmClear] = useState(false);
+
+  const summary = useMemo(() => summarizeRuns(runs), [runs]);
+  const chartRuns = runs.slice(-CHART_RUNS);
+  const deaths = (Object.entries(summary.livesLost) as [DamageCause, number][]).sort((a, b) => b[1] - a[1]);
+  const mostDeaths = deaths.length > 0 ? deaths[0][1] : 1;
+
+  const handleClear = () => {
+    // First click arms the button, second click clears
+    if (!confirmClear) {
+      setConfirmClear(true);
+      return;
+    }
+    clearRunHistory();
+    setRuns([]);
+    setConfirmClear(false);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex flex-col items-center justify-center z-50 backdrop-blur-sm p-4">
+      <div className="bg-gray-800 rounded-2xl border border-gray-700 shadow-2xl w-full max-w-3xl max-h-full flex flex-col">
+        <div className="flex items-center justify-between p-4 sm:p-6 border-b border-white/10">
+          <div className="flex items-center gap-2">
+            <ChartBar className="text-amber-400" size={28} weight="fill" />
+            <h2 className="text-2xl font-bold text-white">Stats</h2>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleClear}
+              onBlur={() => setConfirmClear(false)}
+              disabled={runs.length === 0}
+              className={`flex items-center gap-1 px-3 py-2 rounded-lg text-sm font-bold transition disabled:opacity-40 ${confirmClear ? 'bg-red-600 hover:bg-red-500' : 'bg-white/10 hover:bg-red-600/60'}`}
+            >
+              <Trash size={16} /> {confirmClear ? 'Sure?' : 'Clear'}
+            </button>
+            <button onClick={onClose} className="p-2 rounded-lg hover:bg-white/10 transition" title="Close">
+              <X size={20} weight="bold" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 sm:p-6 flex flex-col gap-4">
+          {runs.length === 0 ? (
+            <div className="text-center text-gray-500 text-sm italic py-12">
+              <p>No runs yet.</p>
+              <p>Every run you play is recorded here.</p>
+            </div>
+          ) : (
+            <>
+              {/* Totals */}
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                <Stat label="Runs" value={summary.runs.toLocaleString()} />
+                <Stat label="Levels Cleared" value={summary.levelsCleared.toLocaleString()} sub={`best run ${summary.bestStreak}`} />
+                <Stat label="Best Score" value={summary.bestScore.toLocaleString()} />
+                <Stat label="Play Time" value={formatDuration(summary.seconds)} />
+                <Stat
+                  label="Seeds"
+                  value={summary.seedsCollected.toLocaleString()}
+                  sub={summary.seedsAvailable > 0 ? `${Math.round((summary.seedsCollected / summary.seedsAvailable) * 100)}% of ${summary.seedsAvailable.toLocaleString()}` : undefined}
+                />
+                <Stat label="Dashes" value={summary.dashes.toLocaleString()} />
+                <Stat label="Crates Broken" value={summary.cratesBroken.toLocaleString()} />
+                <Stat
+                  label="Deadliest Enemy"
+                  value={summary.deadliestEnemy ? causeLabel(summary.deadliestEnemy.type) : '-'}
+                  sub={summary.deadliestEnemy ? `${summary.deadliestEnemy.lives} lives` : undefined}
+                />
+              </div>
+
+              {/* Over Time */}
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                <RunChart title="Score per run" values={chartRuns.map(r => r.score)} color="fill-emerald-400" />
+                <RunChart title="Levels cleared per run" values={chartRuns.map(r => r.levels.filter(l => l.outcome === 'cleared').length)} color="fill-amber-400" />
+              </div>
+
+              {/* Deaths */}
+              <div className="bg-black/20 rounded-xl p-3">
+                <div className="flex items-center gap-1 text-xs text-gray-400 uppercase font-bold tracking-wider mb-2">
+                  <Skull weight="fill" /> Lives lost by cause
+                </div>
+                {deaths.length === 0 ? (
+                  <p className="text-sm text-gray-500 italic">Not a scratch so far.</p>
+                ) : (
+                  <ul className="flex flex-col gap-1 text-sm">
+                    {deaths.map(([cause, count]) => (
+                      <li key={cause} className="flex items-center gap-2">
+                        <span className="w-36 truncate text-gray-300">{causeLabel(cause)}</span>
+                        <div className="flex-1 h-3 bg-white/5 rounded">
+                          <div className="h-3 bg-red-500/70 rounded" style={{ width: `${(count / mostDeaths) * 100}%` }} />
+                        </div>
+                        <span className="w-10 text-right font-mono text-gray-400">{count}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              {/* By Level */}
+              <div className="bg-black/20 rounded-xl p-3 overflow-x-auto">
+                <table className="w-full text-left text-sm">
+                  <thead className="text-xs text-gray-400 border-b border-white/10">
+                    <tr>
+                      <th className="pb-2">Level</th>
+                      <th className="pb-2 text-right">Attempts</th>
+                      <th className="pb-2 text-right">Cleared</th>
+                      <th className="pb-2 text-right">Avg Time</th>
+                      <th className="pb-2 text-right">Lives Lost / Try</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-white/5 font-mono">
+                    {summary.byDifficulty.map(row => (
+                      <tr key={row.difficulty}>
+                        <td className="py-2 text-amber-200">Lvl {row.difficulty}</td>
+                        <td className="py-2 text-right">{row.attempts}</td>
+                        <td className="py-2 text-right">{Math.round((row.cleared / row.attempts) * 100)}%</td>
+                        <td className="py-2 text-right">{formatTime(row.seconds / row.attempts)}</td>
+                        <td className="py-2 text-right">{(row.livesLost / row.attempts).toFixed(1)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {/* Recent Runs */}
+              <ul className="flex flex-col gap-2">
+                {runs.slice(-RECENT_RUNS).reverse().map(run => (
+                  <li key={run.id} className="bg-black/20 rounded-xl p-3 flex flex-wrap items-center gap-3 text-sm">
+                    <div className="flex-1 min-w-[160px]">
+                      <div className="font-bold text-amber-200">{new Date(run.startedAt).toLocaleString()}</div>
+                      <div className="text-xs text-gray-400 font-mono">
+                        {run.levels.filter(l => l.outcome === 'cleared').length} cleared · {formatTime(run.levels.reduce((sum, l) => sum + l.seconds, 0))}
+                      </div>
+                    </div>
+                    <div className="text-xs text-gray-400">
+                      {!run.endedAt ? 'In progress' : run.endedBy ? causeLabel(run.endedBy) : 'Quit'}
+                    </div>
+                    <div className="font-mono font-bold text-emerald-400 min-w-[70px] text-right">{run.score.toLocaleString()}</div>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RunStats;
@@ -0,0 +1,85 @@
+import React, { useEffect, useState } from 'react';
+import { LevelConfig } from '../types';
+import { encodeShareCode, serializeLevelFile, LEVEL_FILE_EXTENSION } from '../services/levelShareService';
+import { downloadTextFile, toFileSlug } from '../services/fileService';
+import { ShareNetwork, Copy, Check, DownloadSimple, X, CircleNotch } from 'phosphor-react';
+
+interface ShareLevelDialogProps {
+  level: LevelConfig;
+  difficulty: number;
+  onClose: () => void;
+}
+
+const ShareLevelDialog: React.FC<ShareLevelDialogProps> = ({ level, difficulty, onClose }) => {
+  const [code, setCode] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    encodeShareCode(level, difficulty).then(setCode);
+  }, [level, difficulty]);
+
+  const copyCode = async () => {
+    if (!code) return;
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+    } catch (e) {
+      console.error("Failed to copy level code", e);
+    }
+  };
+
+  const downloadFile = () => {
+    downloadTextFile(`${toFileSlug(level.name)}${LEVEL_FILE_EXTENSION}`, serializeLevelFile(level, difficulty));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex flex-col items-center justify-center z-[60] backdrop-blur-sm p-4">
+      <div className="bg-gray-800 rounded-2xl border border-gray-700 shadow-2xl w-full max-w-lg p-6 flex flex-col gap-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <ShareNetwork className="text-amber-400" size={28} weight="fill" />
+            <h2 className="text-2xl font-bold text-white">Share Level</h2>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-lg hover:bg-white/10 transition" title="Close">
+            <X size={20} weight="bold" />
+          </button>
+        </div>
+
+        <div>
+          <div className="font-bold text-amber-200 truncate">{level.name}</div>
+          <div className="text-xs text-gray-400 font-mono">Lvl {difficulty}{level.seed !== undefined && ` · Seed ${level.seed}`}</div>
+        </div>
+
+        {code === null ? (
+          <div className="flex justify-center py-6"><CircleNotch size={32} className="animate-spin text-amber-500" /></div>
+        ) : (
+          <textarea
+            readOnly
+            value={code}
+            onFocus={(e) => e.target.select()}
+            className="w-full h-28 bg-black/40 border border-white/10 rounded-lg p-2 font-mono text-[10px] text-gray-300 break-all resize-none"
+          />
+        )}
+
+        <div className="flex gap-2">
+          <button
+            onClick={copyCode}
+            disabled={!code}
+            className="flex-1 bg-amber-500 text-black font-bold py-2 rounded-lg hover:bg-amber-400 disabled:opacity-40 transition flex items-center justify-center gap-2"
+          >
+            {copied ? <><Check weight="bold" /> Copied!</> : <><Copy weight="bold" /> Copy Code</>}
+          </button>
+          <button
+            onClick={downloadFile}
+            className="flex-1 bg-gray-700 text-white font-bold py-2 rounded-lg hover:bg-gray-600 transition flex items-center justify-center gap-2"
+          >
+            <DownloadSimple weight="bold" /> Download File
+          </button>
+        </div>
+        <p className="text-xs text-gray-500">Friends can paste the code or open the file with "Import Level" on the main menu.</p>
+      </div>
+    </div>
+  );
+};
+
+export default ShareLevelDialog;
@@ -0,0 +1,860 @@
+import { Vector2, AnimationState, GameObject, BossType } from '../types';
+import { COLORS, CRUMBLE_TIME, PLAYER_WIDTH, PLAYER_HEIGHT, MAX_COMBO } from '../constants';
+import { World } from '../game/world';
+import { getBossName, getBossPhase } from '../game/boss';
+import { getEnemyDefinition, getEnemyState } from '../game/enemies';
+import { GhostFrame } from '../game/ghost';
+
+// Canvas renderer for a simulation World, shared by live play and replay playback.
+
+// Positions before the latest simulation step, used to interpolate rendering between ticks
+export interface InterpolationSnapshot {
+  player: Vector2;
+  camera: Vector2;
+  enemies: Map<string, Vector2>;
+  platforms: Map<string, Vector2>; // Moving platforms only
+}
+
+export interface RenderView {
+  width: number;
+  height: number;
+  dpr: number;
+  camera: Vector2;
+  prev: InterpolationSnapshot;
+  alpha: number; // How far (0-1) rendering sits between the previous and the current simulation tick
+  ghost?: {
+    prev: GhostFrame;
+    current: GhostFrame;
+    splitDelta: number | null; // Seconds behind (+) or ahead (-) of the ghost
+  };
+}
+
+export const createSnapshot = (world: World, camera: Vector2): InterpolationSnapshot => ({
+  player: { ...world.player.position },
+  camera: { ...camera },
+  enemies: new Map([...world.enemies, ...(world.boss ? [world.boss] : [])].map(e => [e.id, { ...e.position }])),
+  platforms: new Map(world.platforms.filter(p => p.motion).map(p => [p.id, { ...p.position }]))
+});
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+// Where the follow camera wants to be, kept inside the level bounds
+export const getFollowCameraTarget = (world: World, width: number, height: number): Vector2 => {
+  const player = world.player;
+
+  // Camera Follow
+  // Calculate target camera X to keep player centered horizontally
+  let targetCamX = player.position.x - width / 2 + player.size.width / 2;
+  // Calculate target camera Y to keep player visible vertically, but clamped
+  // Climbs frame the player lower down, so more of the shaft above is visible
+  const isClimb = world.level.archetype === 'climb';
+  let targetCamY = player.position.y - height * (isClimb ? 0.7 : 0.6);
+
+  // Clamp Camera to Level Bounds (narrow shafts are centred; short levels stick to the bottom)
+  const { width: levelWidth, height: levelHeight } = world.bounds;
+  const top = world.bounds.killY - levelHeight;
+  targetCamX = levelWidth < width ? (levelWidth - width) / 2 : Math.max(0, Math.min(targetCamX, levelWidth - width));
+  targetCamY = Math.min(Math.max(targetCamY, top), world.killY - height); // Never show below the (possibly rising) kill plane
+
+  // A boss fight frames the arena and nothing past its walls
+  if (world.arenaLocked) {
+      const arena = world.level.boss!.arena;
+      targetCamX = arena.w < width ? arena.x + (arena.w - width) / 2 : Math.max(arena.x, Math.min(targetCamX, arena.x + arena.w - width));
+  }
+
+  return { x: targetCamX, y: targetCamY };
+};
+
+// Ease the camera towards the player; called once per simulation tick
+export const updateFollowCamera = (camera: Vector2, world: World, width: number, height: number) => {
+  const target = getFollowCameraTarget(world, width, height);
+
+  // Smooth Lerp
+  camera.x += (target.x - camera.x) * 0.1;
+  camera.y += (target.y - camera.y) * 0.1;
+};
+
+// Sprite Sheet Generation
+export const generatePrairieDogSpriteSheet = () => {
+  const CELL_SIZE = 128; // Increased resolution for sharpness
+  const sCanvas = document.createElement('canvas');
+  sCanvas.width = CELL_SIZE * 4; 
+  sCanvas.height = CELL_SIZE * 4; 
+  const ctx = sCanvas.getContext('2d');
+  if (!ctx) return null;
+
+  const drawFrame = (row: number, col: number, action: (c: CanvasRenderingContext2D) => void) => {
+      ctx.save();
+      ctx.translate(col * CELL_SIZE, row * CELL_SIZE);
+      
+      // Clip to cell
+      ctx.beginPath();
+      ctx.rect(0, 0, CELL_SIZE, CELL_SIZE);
+      ctx.clip();
+      
+      // Scale up coordinate system to fit 128x128 conveniently (0-100 range logic)
+      // 100 units * 1.28 = 128 pixels
+      ctx.scale(1.28, 1.28); 
+
+      action(ctx);
+      ctx.restore();
+  };
+
+  // Common body drawing (Vector paths remain valid with scaling)
+  const drawBody = (c: CanvasRenderingContext2D, legOffset: number, yOffset: number) => {
+      // Body
+      c.fillStyle = COLORS.player;
+      c.beginPath();
+      c.ellipse(50, 60 + yOffset, 25, 35, 0, 0, Math.PI * 2);
+      c.fill();
+
+      // Belly
+      c.fillStyle = '#FDE68A';
+      c.beginPath();
+      c.ellipse(50, 65 + yOffset, 15, 25, 0, 0, Math.PI * 2);
+      c.fill();
+
+      // Head
+      c.fillStyle = COLORS.player;
+      c.beginPath();
+      c.arc(50, 35 + yOffset, 20, 0, Math.PI * 2);
+      c.fill();
+
+      // Snout area
+      c.fillStyle = '#FDE68A';
+      c.beginPath();
+      c.ellipse(50, 42 + yOffset, 12, 10, 0, 0, Math.PI * 2);
+      c.fill();
+      
+      // Nose
+      c.fillStyle = '#3e2723';
+      c.beginPath();
+      c.arc(50, 38 + yOffset, 3, 0, Math.PI * 2);
+      c.fill();
+
+      // Eyes
+      c.fillStyle = 'black';
+      c.beginPath();
+      c.arc(42, 32 + yOffset, 3, 0, Math.PI * 2);
+      c.arc(58, 32 + yOffset, 3, 0, Math.PI * 2);
+      c.fill();
+      // Highlights
+      c.fillStyle = 'white';
+      c.beginPath();
+      c.arc(43, 31 + yOffset, 1, 0, Math.PI * 2);
+      c.arc(59, 31 + yOffset, 1, 0, Math.PI * 2);
+      c.fill();
+
+      // Ears
+      c.fillStyle = '#92400E';
+      c.beginPath();
+      c.arc(32, 30 + yOffset, 5, 0, Math.PI * 2);
+      c.arc(68, 30 + yOffset, 5, 0, Math.PI * 2);
+      c.fill();
+
+      // Tail
+      c.fillStyle = '#92400E';
+      c.beginPath();
+      c.ellipse(25, 70 + yOffset, 15, 8, -0.5, 0, Math.PI * 2);
+      c.fill();
+
+      // Legs
+      c.fillStyle = '#92400E';
+      c.beginPath();
+      // Left Leg
+      c.ellipse(40 + legOffset, 90 + yOffset, 6, 8, 0, 0, Math.PI * 2);
+      // Right Leg
+      c.ellipse(60 - legOffset, 90 + yOffset, 6, 8, 0, 0, Math.PI * 2);
+      c.fill();
+  };
+
+  // Row 0: Idle (Breathing)
+  for(let i=0; i<4; i++) {
+    drawFrame(0, i, (c) => {
+         const breathe = Math.sin(i) * 2;
+         drawBody(c, 0, breathe);
+    });
+  }
+
+  // Row 1: Run (Fast Leg Cycle)
+  for(let i=0; i<4; i++) {
+    drawFrame(1, i, (c) => {
+         // Use PI/2 to get 0, 1, 0, -1 cycle approx
+         const leg = Math.sin(i * Math.PI / 2) * 12;
+         const bounce = Math.abs(Math.sin(i * Math.PI / 2)) * 5;
+         drawBody(c, leg, -bounce);
+    });
+  }
+
+  // Row 2: Jump
+  // Frame 0: Up (Stretch)
+  drawFrame(2, 0, (c) => {
+      c.scale(0.9, 1.1); // Stretch vertically
+      drawBody(c, 0, -5);
+  });
+  // Frame 1: Down (Squash)
+  drawFrame(2, 1, (c) => {
+      c.scale(1.1, 0.9); // Squash vertically
+      drawBody(c, 0, 0);
+  });
+
+  // Row 3: Walk (Slower Leg Cycle)
+  for(let i=0; i<4; i++) {
+    drawFrame(3, i, (c) => {
+         const leg = Math.sin(i * Math.PI / 2) * 6;
+         const bounce = Math.abs(Math.sin(i * Math.PI / 2)) * 2;
+         drawBody(c, leg, -bounce);
+    });
+  }
+
+  return sCanvas;
+};
+
+// Draw one prairie dog sprite cell centered on the current transform origin
+const drawPlayerSprite = (
+  ctx: CanvasRenderingContext2D,
+  spriteSheet: HTMLCanvasElement | null,
+  state: AnimationState,
+  frame: number
+) => {
+  if (spriteSheet) {
+      const spriteSize = 128; // Source size (Upscaled to match CELL_SIZE)
+      const renderSize = 100; // Target size (Upscaled)
+      
+      // Determine row
+      // 0:Idle, 1:Run, 2:Jump, 3:Walk
+      let row = 0;
+      if (state === 'run') row = 1;
+      else if (state === 'jump') row = 2;
+      else if (state === 'walk') row = 3;
+
+      // Draw Image
+      // Offset to center the sprite visually within the physics box
+      const xOff = -renderSize / 2; 
+      const yOff = -renderSize / 2 - 15; // Adjusted yOff for larger sprite
+
+      ctx.drawImage(
+          spriteSheet,
+          frame * spriteSize, row * spriteSize, spriteSize, spriteSize,
+          xOff, yOff, renderSize, renderSize
+      );
+
+  } else {
+       // Fallback
+       ctx.fillStyle = COLORS.player;
+       ctx.fillRect(-20, -20, 40, 40);
+  }
+};
+
+// Bosses, with the tell for whatever they are about to do
+const drawBoss = (ctx: CanvasRenderingContext2D, boss: GameObject, pos: Vector2, tick: number) => {
+  const { width: w, height: h } = boss.size;
+  const cx = pos.x + w / 2;
+
+  // Telegraphs are drawn in world space: the eagle's landing spot, the badger's travelling mound
+  if (boss.target && (boss.aiState === 'telegraph' || boss.aiState === 'swoop')) {
+      const tx = boss.target.x + w / 2;
+      const ty = boss.target.y + h;
+      ctx.save();
+      ctx.strokeStyle = `rgba(239, 68, 68, ${0.5 + Math.sin(tick / 3) * 0.3})`;
+      ctx.lineWidth = 4;
+      ctx.setLineDash([8, 6]);
+      ctx.beginPath();
+      ctx.ellipse(tx, ty - 4, w / 2, 10, 0, 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.restore();
+  }
+  if (boss.aiState === 'tunnel' || boss.aiState === 'burrow') {
+      const floorY = boss.initialPosition!.y + h;
+      ctx.fillStyle = COLORS.dirt;
+      ctx.beginPath();
+      ctx.ellipse(cx, floorY, w / 2, 14 + Math.sin(tick / 4) * 3, 0, Math.PI, Math.PI * 2);
+      ctx.fill();
+      if (boss.aiState === 'tunnel') return;
+  }
+
+  ctx.save();
+  // Whatever has sunk below the floor stays hidden
+  if (boss.aiState === 'burrow') {
+      ctx.beginPath();
+      ctx.rect(pos.x - 20, pos.y - 60, w + 40, boss.initialPosition!.y + h - pos.y + 60);
+      ctx.clip();
+  }
+  ctx.translate(cx, pos.y + h / 2);
+  if (boss.velocity!.x > 0) ctx.scale(-1, 1); // Emoji face left
+  if (boss.aiState === 'windup') ctx.translate(Math.sin(tick) * 3, 0); // Scraping, about to charge
+  if (boss.aiState === 'swoop') ctx.rotate(-Math.PI / 6);
+  if (boss.invulnerable! > 0 && Math.floor(tick / 4) % 2 === 0) ctx.globalAlpha = 0.4;
+
+  ctx.font = `${h * 1.3}px serif`;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.fillText(boss.subtype === 'eagle' ? "🦅" : "🦡", 0, 0);
+  if (getBossPhase(boss) === 2) {
+      ctx.font = "28px serif";
+      ctx.fillText("💢", -w / 3, -h / 2);
+  }
+  ctx.restore();
+
+  // Exclamation over the head while winding up; stars while it's open to a stomp
+  ctx.textAlign = "center";
+  ctx.textBaseline = "bottom";
+  if (boss.aiState === 'windup' || boss.aiState === 'telegraph' || boss.aiState === 'volley') {
+      ctx.font = "bold 36px sans-serif";
+      ctx.fillStyle = '#EF4444';
+      ctx.fillText("!", cx, pos.y - 10 - Math.abs(Math.sin(tick / 5)) * 8);
+  } else if (boss.aiState === 'stunned' || boss.aiState === 'grounded') {
+      ctx.font = "24px serif";
+      ctx.fillText("💫", cx + Math.sin(tick / 8) * 20, pos.y - 5);
+  }
+};
+
+// Hazard volumes. Spikes and wind are drawn behind the player, water and quicksand over them
+const drawHazard = (ctx: CanvasRenderingContext2D, h: GameObject, tick: number) => {
+  const { x, y } = h.position;
+  const { width: w, height: hh } = h.size;
+
+  if (h.subtype === 'spikes') {
+      ctx.fillStyle = '#9CA3AF'; // Gray-400
+      ctx.strokeStyle = '#4B5563'; // Gray-600
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      for (let sx = 0; sx < w; sx += 20) {
+          const sw = Math.min(20, w - sx);
+          ctx.moveTo(x + sx, y + hh);
+          ctx.lineTo(x + sx + sw / 2, y);
+          ctx.lineTo(x + sx + sw, y + hh);
+      }
+      ctx.closePath();
+      ctx.fill();
+      ctx.stroke();
+  } else if (h.subtype === 'water') {
+      ctx.fillStyle = 'rgba(56, 189, 248, 0.45)'; // Sky-400
+      ctx.fillRect(x, y + 4, w, hh - 4);
+      // Rippling surface
+      ctx.strokeStyle = 'rgba(224, 242, 254, 0.9)';
+      ctx.lineWidth = 3;
+      ctx.beginPath();
+      for (let sx = 0; sx <= w; sx += 10) {
+          ctx.lineTo(x + sx, y + 4 + Math.sin((sx + tick * 2) / 20) * 3);
+      }
+      ctx.stroke();
+  } else if (h.subtype === 'quicksand') {
+      ctx.fillStyle = 'rgba(202, 138, 4, 0.85)'; // Yellow-600
+      ctx.fillRect(x, y, w, hh);
+      // Slowly churning grains
+      ctx.fillStyle = 'rgba(113, 63, 18, 0.6)';
+      for (let sx = 7; sx < w; sx += 23) {
+          for (let sy = 5; sy < hh; sy += 17) {
+              const drift = ((sy + tick * 0.3) % hh);
+              ctx.fillRect(x + sx, y + drift, 3, 3);
+          }
+      }
+  } else if (h.subtype === 'wind') {
+      // Dust streaks blowing along the force
+      const force = h.force || { x: 0, y: 0 };
+      const len = Math.hypot(force.x, force.y) || 1;
+      const dx = force.x / len;
+      const dy = force.y / len;
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(x, y, w, hh);
+      ctx.clip();
+      ctx.fillStyle = 'rgba(253, 230, 138, 0.12)'; // Amber-200
+      ctx.fillRect(x, y, w, hh);
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)';
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      const travel = tick * len * 15;
+      const wrap = (v: number, size: number) => ((v % size) + size) % size;
+      for (let i = 0; i < (w * hh) / 6000 + 3; i++) {
+          // Fixed scatter per streak, drifting along the wind and wrapping around the zone
+          const sx = x + wrap(i * 97 + dx * travel, w);
+          const sy = y + wrap(i * 53 + dy * travel, hh);
+          ctx.moveTo(sx, sy);
+          ctx.lineTo(sx + dx * 30, sy + dy * 30);
+      }
+      ctx.stroke();
+      ctx.restore();
+  }
+};
+
+export const renderWorld = (
+  ctx: CanvasRenderingContext2D,
+  world: World,
+  spriteSheet: HTMLCanvasElement | null,
+  view: RenderView
+) => {
+  const { width, height, dpr, alpha } = view;
+
+  // Handle High DPI Scaling
+  ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+  const player = world.player;
+  const anim = world.anim;
+  const prev = view.prev;
+  const cam = {
+    x: lerp(prev.camera.x, view.camera.x, alpha),
+    y: lerp(prev.camera.y, view.camera.y, alpha)
+  };
+
+  // Clear logical area
+  ctx.clearRect(0, 0, width, height);
+
+  // --- Background ---
+  ctx.fillStyle = COLORS.sky;
+  ctx.fillRect(0, 0, width, height);
+  
+  // Parallax Clouds (Simple)
+  ctx.fillStyle = 'rgba(255,255,255,0.6)';
+  const t = Date.now() / 10000;
+  for(let i=0; i<5; i++) {
+      const cx = ((i * 400) + t * 50) % (world.bounds.width + width) - cam.x * 0.5;
+      const cy = 100 + i * 50 - cam.y * 0.1;
+      ctx.beginPath();
+      ctx.arc(cx, cy, 40, 0, Math.PI*2);
+      ctx.arc(cx+50, cy+10, 50, 0, Math.PI*2);
+      ctx.arc(cx-50, cy+10, 50, 0, Math.PI*2);
+      ctx.fill();
+  }
+
+  // Apply Camera Transform & Shake
+  ctx.save();
+  
+  // Screen Shake
+  let shakeX = 0, shakeY = 0;
+  if (world.shakeTimer > 0) {
+      shakeX = (Math.random() - 0.5) * world.shakeStrength;
+      shakeY = (Math.random() - 0.5) * world.shakeStrength;
+  }
+
+  ctx.translate(-cam.x + shakeX, -cam.y + shakeY);
+
+  // --- World Rendering ---
+
+  // Goal
+  if (world.goal) {
+      const g = world.goal;
+      ctx.fillStyle = COLORS.goal;
+      // Burrow hole
+      ctx.beginPath();
+      ctx.ellipse(g.position.x + 30, g.position.y + 60, 30, 10, 0, 0, Math.PI*2);
+      ctx.fill();
+      // Flag/Sign
+      ctx.fillStyle = '#5D4037';
+      ctx.fillRect(g.position.x + 25, g.position.y, 10, 60);
+      ctx.fillStyle = COLORS.goal;
+      ctx.beginPath();
+      ctx.moveTo(g.position.x + 35, g.position.y);
+      ctx.lineTo(g.position.x + 80, g.position.y + 20);
+      ctx.lineTo(g.position.x + 35, g.position.y + 40);
+      ctx.fill();
+  }
+
+  // Checkpoint burrows: a dull marker until touched, then the goal's flag
+  world.checkpoints.forEach(cp => {
+      const { x, y } = cp.position;
+      const color = cp.activated ? COLORS.goal : '#9CA3AF';
+      ctx.fillStyle = '#3E2723';
+      ctx.beginPath();
+      ctx.ellipse(x + 30, y + 70, 24, 8, 0, 0, Math.PI*2);
+      ctx.fill();
+      ctx.fillStyle = '#5D4037';
+      ctx.fillRect(x + 27, y + 20, 6, 50);
+      ctx.fillStyle = color;
+      ctx.beginPath();
+      ctx.moveTo(x + 33, y + 20);
+      ctx.lineTo(x + 60, y + 32);
+      ctx.lineTo(x + 33, y + 44);
+      ctx.fill();
+  });
+
+  // Platforms
+  world.platforms.forEach(p => {
+      if (p.isBroken) return;
+
+      // Moving platforms are interpolated like enemies, so riders don't jitter against them
+      const prevPos = p.motion ? prev.platforms.get(p.id) || p.position : p.position;
+      const x = lerp(prevPos.x, p.position.x, alpha);
+      const y = lerp(prevPos.y, p.position.y, alpha);
+      const { width: w, height: h } = p.size;
+
+      if (p.subtype === 'bouncy') {
+          // Bouncy style
+          ctx.fillStyle = '#F472B6'; // Pink-400
+          ctx.fillRect(x, y, w, h);
+          // Spring pattern
+          ctx.strokeStyle = '#EC4899';
+          ctx.lineWidth = 3;
+          ctx.beginPath();
+          ctx.moveTo(x, y + 5);
+          for(let sx = 10; sx < w; sx+=20) {
+              ctx.lineTo(x + sx, y + 15);
+              ctx.lineTo(x + sx + 10, y + 5);
+          }
+          ctx.stroke();
+      } else if (p.subtype === 'oneway') {
+          // Thin wooden plank: only the top edge is solid
+          ctx.fillStyle = '#A16207'; // Yellow-700
+          ctx.fillRect(x, y, w, Math.min(h, 10));
+          ctx.strokeStyle = 'rgba(161,98,7,0.5)';
+          ctx.lineWidth = 2;
+          ctx.setLineDash([6, 6]);
+          ctx.strokeRect(x, y, w, h);
+          ctx.setLineDash([]);
+      } else if (p.subtype === 'conveyor') {
+          // Dark belt with chevrons scrolling the way it pushes
+          const speed = p.conveyorSpeed || 0;
+          const dir = Math.sign(speed) || 1;
+          ctx.fillStyle = '#3F3F46'; // Zinc-700
+          ctx.fillRect(x, y, w, h);
+          ctx.save();
+          ctx.beginPath();
+          ctx.rect(x, y, w, h);
+          ctx.clip();
+          ctx.strokeStyle = '#FACC15'; // Yellow-400
+          ctx.lineWidth = 3;
+          const scroll = ((world.tick * Math.abs(speed)) % 30) * dir;
+          ctx.beginPath();
+          for (let sx = -30; sx < w + 30; sx += 30) {
+              const cx = x + sx + scroll;
+              ctx.moveTo(cx - 5 * dir, y + 3);
+              ctx.lineTo(cx + 5 * dir, y + Math.min(h, 20) / 2);
+              ctx.lineTo(cx - 5 * dir, y + Math.min(h, 20) - 3);
+          }
+          ctx.stroke();
+          ctx.restore();
+      } else {
+          // Texture pattern
+          ctx.fillStyle = p.subtype === 'crumble' ? '#D4D4D8' : COLORS.ground;
+          ctx.fillRect(x, y, w, h);
+          
+          // Grass top
+          if (p.subtype !== 'crumble') {
+              ctx.fillStyle = '#65A30D';
+              ctx.fillRect(x, y, w, 10);
+          } else {
+              // Cracks if crumbling
+              if ((p.timer || 0) < CRUMBLE_TIME) {
+                  ctx.strokeStyle = 'black';
+                  ctx.lineWidth = 2;
+                  ctx.beginPath();
+                  ctx.moveTo(x + 10, y);
+                  ctx.lineTo(x + 20, y + 20);
+                  ctx.lineTo(x + 30, y + 5);
+                  ctx.stroke();
+              }
+          }
+      }
+
+      // Bolts mark platforms that move
+      if (p.motion) {
+          ctx.fillStyle = '#52525B'; // Zinc-600
+          [x + 6, x + w - 6].forEach(bx => {
+              ctx.beginPath();
+              ctx.arc(bx, y + h / 2, 3, 0, Math.PI * 2);
+              ctx.fill();
+          });
+      }
+  });
+
+  world.hazards.forEach(h => {
+      if (h.subtype === 'spikes' || h.subtype === 'wind') drawHazard(ctx, h, world.tick);
+  });
+
+  // Obstacles
+  world.obstacles.forEach(o => {
+      if (o.isBroken) return;
+      // Crate look
+      ctx.fillStyle = '#B45309';
+      ctx.fillRect(o.position.x, o.position.y, o.size.width, o.size.height);
+      // X Pattern
+      ctx.strokeStyle = '#78350F';
+      ctx.lineWidth = 4;
+      ctx.strokeRect(o.position.x, o.position.y, o.size.width, o.size.height);
+      ctx.beginPath();
+      ctx.moveTo(o.position.x, o.position.y);
+      ctx.lineTo(o.position.x + o.size.width, o.position.y + o.size.height);
+      ctx.moveTo(o.position.x + o.size.width, o.position.y);
+      ctx.lineTo(o.position.x, o.position.y + o.size.height);
+      ctx.stroke();
+  });
+
+  // Collectibles
+  world.collectibles.forEach(c => {
+      if (c.isBroken) return;
+      const cx = c.position.x + c.size.width / 2;
+      const cy = c.position.y + c.size.height / 2;
+      const t = Date.now() / 200;
+      
+      ctx.save();
+      ctx.translate(cx, cy);
+      
+      if (c.subtype === 'shield') {
+           // Pulsing Shield
+           const s = 1 + Math.sin(t) * 0.1;
+           ctx.scale(s, s);
+           ctx.font = "48px serif"; // Increased scale
+           ctx.textAlign = "center";
+           ctx.textBaseline = "middle";
+           // Aura
+           ctx.shadowColor = "cyan";
+           ctx.shadowBlur = 20;
+           ctx.fillText("🛡️", 0, 0);
+      } else {
+           // Bobbing Seed
+           const bob = Math.sin(t + cx) * 5;
+           ctx.translate(0, bob);
+           // Rotation
+           ctx.rotate(Math.sin(t/2) * 0.2);
+           
+           ctx.font = "36px serif"; // Increased scale
+           ctx.textAlign = "center";
+           ctx.textBaseline = "middle";
+           ctx.shadowColor = "gold";
+           ctx.shadowBlur = 10 + Math.sin(t)*5;
+           ctx.fillText("🌰", 0, 0);
+      }
+      ctx.restore();
+  });
+
+  // Enemies
+  world.enemies.forEach(e => {
+      if (e.isBroken) return;
+      const prevPos = prev.enemies.get(e.id) || e.position;
+      const ex = lerp(prevPos.x, e.position.x, alpha) + e.size.width / 2;
+      const ey = lerp(prevPos.y, e.position.y, alpha) + e.size.height / 2;
+      
+      ctx.save();
+      ctx.translate(ex, ey);
+
+      // Everything about the look comes from the enemy's definition and current state
+      const def = getEnemyDefinition(e);
+      const state = getEnemyState(e);
+      const { pose } = state;
+
+      // Face the way it's moving, or the player while standing still
+      const dir = e.velocity!.x || (player.position.x < e.position.x ? -1 : 1);
+      if (dir > 0) ctx.scale(-1, 1);
+
+      // Dirt thrown up where it breaks the surface
+      if (pose === 'mound' || pose === 'rise' || pose === 'sink' || pose === 'surfaced') {
+          ctx.fillStyle = COLORS.dirt;
+          ctx.beginPath();
+          if (pose === 'mound') ctx.arc(0, 15, 10, 0, Math.PI * 2);
+          else ctx.ellipse(0, 20, 20, 8, 0, 0, Math.PI * 2);
+          ctx.fill();
+      }
+
+      if (!state.hidden) {
+          const span = state.duration ? state.duration[0] : 1;
+          const left = Math.max(0, e.timer || 0);
+          if (pose === 'rise') ctx.translate(0, (left / span) * 40); // Starts underground and comes up
+          else if (pose === 'sink') ctx.translate(0, ((span - left) / span) * 40);
+          else if (pose === 'sleep') ctx.scale(1, -1); // Hangs upside down
+          else if (pose === 'tilt') ctx.rotate(Math.PI / 4);
+          else if (pose === 'bank') ctx.rotate(Math.sin(Date.now() / 100) * 0.2);
+
+          ctx.font = "48px serif"; // Increased scale
+          ctx.textAlign = "center";
+          ctx.textBaseline = "middle";
+          if (def.tint) ctx.filter = def.tint;
+          ctx.fillText(def.emoji, 0, 0);
+          ctx.filter = 'none';
+
+          if (state.emote) {
+              ctx.font = "24px serif";
+              ctx.fillText(state.emote, 0, -25);
+          }
+      }
+
+      ctx.restore();
+  });
+
+  // Boss and, while the fight is on, the arena walls
+  if (world.boss && !world.boss.isBroken) {
+      const prevPos = prev.enemies.get(world.boss.id) || world.boss.position;
+      drawBoss(ctx, world.boss, {
+          x: lerp(prevPos.x, world.boss.position.x, alpha),
+          y: lerp(prevPos.y, world.boss.position.y, alpha)
+      }, world.tick);
+  }
+  if (world.arenaLocked) {
+      const arena = world.level.boss!.arena;
+      ctx.fillStyle = 'rgba(120, 53, 15, 0.8)';
+      [arena.x - 12, arena.x + arena.w].forEach(x => {
+          for (let y = cam.y - 40; y < cam.y + height; y += 60) ctx.fillRect(x, y, 12, 44); // Fence posts
+      });
+  }
+
+  // Projectiles
+  world.projectiles.forEach(p => {
+      ctx.save();
+      ctx.translate(p.x, p.y);
+      // Rotate along velocity
+      const angle = Math.atan2(p.vy, p.vx);
+      ctx.rotate(angle);
+      
+      ctx.fillStyle = p.color;
+      ctx.beginPath();
+      // Teardrop shape (Scaled up 1.5x)
+      const visualSize = p.size * 1.5;
+      ctx.arc(0, 0, visualSize, Math.PI/2, -Math.PI/2);
+      ctx.lineTo(-visualSize*2, 0);
+      ctx.fill();
+      
+      ctx.restore();
+  });
+
+  // Particles
+  world.particles.forEach(p => {
+      ctx.fillStyle = p.color;
+      ctx.beginPath();
+      ctx.rect(p.x, p.y, p.size, p.size);
+      ctx.fill();
+  });
+
+  // --- Ghost (personal best) ---
+  if (view.ghost) {
+      const g = view.ghost;
+      ctx.save();
+      ctx.translate(
+          lerp(g.prev.x, g.current.x, alpha) + PLAYER_WIDTH / 2,
+          lerp(g.prev.y, g.current.y, alpha) + PLAYER_HEIGHT / 2
+      );
+      if (!g.current.facingRight) ctx.scale(-1, 1);
+      ctx.globalAlpha = 0.35;
+      drawPlayerSprite(ctx, spriteSheet, g.current.state, g.current.frame);
+      ctx.restore();
+  }
+
+  // --- Player ---
+  if (!player.isDead && !world.isGameOver) {
+      ctx.save();
+      const px = lerp(prev.player.x, player.position.x, alpha);
+      const py = lerp(prev.player.y, player.position.y, alpha);
+      ctx.translate(px + player.size.width / 2, py + player.size.height / 2);
+      
+      // Spin Animation (Double Jump)
+      if (anim.spin > 0) {
+          const rot = (360 - anim.spin) * (Math.PI / 180);
+          ctx.rotate(player.facingRight ? rot : -rot);
+      }
+
+      // Dash Distortion
+      if (player.isDashing) {
+          ctx.scale(1.4, 0.7); // Stretch horizontally
+      }
+
+      // Facing
+      if (!player.facingRight) {
+         ctx.scale(-1, 1);
+      }
+
+      // Invincibility Flash
+      if (world.invincibility > 0 && Math.floor(Date.now() / 50) % 2 === 0) {
+          ctx.globalAlpha = 0.5;
+      }
+
+      // Shield Aura
+      if (world.shieldTimer > 0) {
+          const t = Date.now() / 100;
+          ctx.strokeStyle = `rgba(0, 255, 255, ${0.5 + Math.sin(t)*0.2})`;
+          ctx.lineWidth = 3;
+          ctx.beginPath();
+          ctx.arc(0, 0, 40, 0, Math.PI*2);
+          ctx.stroke();
+          
+          // Rotating dashed ring
+          ctx.save();
+          ctx.rotate(t * 0.5);
+          ctx.setLineDash([10, 10]);
+          ctx.strokeStyle = "cyan";
+          ctx.beginPath();
+          ctx.arc(0, 0, 45, 0, Math.PI*2);
+          ctx.stroke();
+          ctx.restore();
+      }
+
+      // Render Sprite
+      drawPlayerSprite(ctx, spriteSheet, anim.state, anim.frame);
+
+      ctx.restore();
+
+      // Combo multiplier floats over the player until they touch the ground
+      if (world.combo > 1) {
+          const combo = Math.min(world.combo, MAX_COMBO);
+          ctx.font = "bold 22px monospace";
+          ctx.textAlign = "center";
+          ctx.textBaseline = "bottom";
+          ctx.lineWidth = 4;
+          ctx.strokeStyle = 'rgba(0, 0, 0, 0.6)';
+          ctx.fillStyle = combo >= MAX_COMBO ? '#F472B6' : '#FCD34D';
+          ctx.strokeText(`x${combo}`, px + player.size.width / 2, py - 8);
+          ctx.fillText(`x${combo}`, px + player.size.width / 2, py - 8);
+      }
+  }
+
+  // Water and quicksand close over the player
+  world.hazards.forEach(h => {
+      if (h.subtype === 'water' || h.subtype === 'quicksand') drawHazard(ctx, h, world.tick);
+  });
+
+  // Climbs: a dusty haze marks the rising death plane
+  if (world.level.archetype === 'climb') {
+      const haze = ctx.createLinearGradient(0, world.killY - 80, 0, world.killY);
+      haze.addColorStop(0, 'rgba(120, 53, 15, 0)');
+      haze.addColorStop(1, 'rgba(120, 53, 15, 0.6)');
+      ctx.fillStyle = haze;
+      ctx.fillRect(cam.x - 50, world.killY - 80, width + 100, 80);
+  }
+
+  // Game Over Overlay in World Space (if running logic there)
+  ctx.restore();
+
+  // --- HUD / Overlays ---
+  // Lives, shield and dash are shown by the React HUD (components/PlayerHud.tsx)
+
+  // Boss health bar
+  if (world.arenaLocked && world.boss) {
+      const boss = world.boss;
+      const barW = Math.min(360, width - 40);
+      const x = (width - barW) / 2;
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+      ctx.fillRect(x - 4, 16, barW + 8, 40);
+      ctx.font = "bold 14px monospace";
+      ctx.textAlign = "center";
+      ctx.textBaseline = "top";
+      ctx.fillStyle = 'white';
+      ctx.fillText(getBossName(boss.subtype as BossType).toUpperCase(), width / 2, 20);
+      ctx.fillStyle = '#7F1D1D';
+      ctx.fillRect(x, 38, barW, 12);
+      ctx.fillStyle = getBossPhase(boss) === 2 ? '#F97316' : '#EF4444';
+      ctx.fillRect(x, 38, barW * Math.max(0, boss.health!) / boss.maxHealth!, 12);
+  }
+
+  // Ghost split time
+  if (view.ghost && view.ghost.splitDelta !== null && !world.isGameOver) {
+      const delta = view.ghost.splitDelta;
+      ctx.font = "bold 20px monospace";
+      ctx.textAlign = "center";
+      ctx.textBaseline = "top";
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+      ctx.fillRect(width / 2 - 80, 70, 160, 30);
+      ctx.fillStyle = delta <= 0 ? '#34D399' : '#F87171'; // Green when ahead of the ghost
+      ctx.fillText(`👻 ${delta <= 0 ? '-' : '+'}${Math.abs(delta).toFixed(1)}s`, width / 2, 75);
+  }
+  
+  // Game Over Screen specific rendering (Internal fade)
+  if (world.isGameOver) {
+      ctx.fillStyle = `rgba(0, 0, 0, ${Math.min(1.0, world.gameOverTimer / 60)})`;
+      ctx.fillRect(0, 0, width, height);
+      
+      const skullSize = Math.min(width, height) / 4;
+      ctx.font = `${skullSize}px serif`;
+      ctx.textAlign = "center";
+      ctx.textBaseline = "middle";
+      ctx.fillText("💀", width/2, height/2);
+  }
+
+};
@@ -1,3 +1,10 @@
+import { LevelBounds, LevelArchetype } from './types';
+
+
+// Simulation runs at a fixed 60 ticks per second; every duration below is counted in ticks
+export const SIMULATION_HZ = 60;
+export const FIXED_TIMESTEP_MS = 1000 / SIMULATION_HZ;
+export const MAX_FRAME_MS = 250; // Longest wall-clock frame we try to catch up on
 
 export const GRAVITY = 1.2; // Heavier gravity for less floaty feel
 export const FRICTION = 0.88;
@@ -8,17 +15,62 @@ export const AIR_CONTROL = 0.5; // Air acceleration multiplier
 export const MAX_SPEED = 5.6; // Increased 25%
 export const TERMINAL_VELOCITY = 20;
 export const DASH_SPEED = 19; // Scaled up 25%
-export const DASH_DURATION = 12; // frames
-export const DASH_COOLDOWN = 50; // frames
+export const DASH_DURATION = 12; // ticks
+export const DASH_COOLDOWN = 50; // ticks
 
 export const PLAYER_WIDTH = 40;
 export const PLAYER_HEIGHT = 40;
 
-export const SHIELD_DURATION = 600; // 10 seconds at 60fps
+export const SHIELD_DURATION = 600; // 10 seconds at 60 ticks/s
+export const SHIELD_WARNING = 120; // Ticks left when the shield starts blinking out
+
+export const COYOTE_FRAMES = 8; // Grace period ticks for jumping after leaving a platform
+export const MAX_LIVES = 3;
+export const INVINCIBILITY_DURATION = 120; // Ticks (2 seconds)
+export const CRUMBLE_TIME = 30; // Ticks before a crumble platform breaks
+export const CONVEYOR_SPEED = 3; // Default belt push, px per tick
+
+// Hazards
+export const WATER_GRAVITY = 0.25; // Sinking in water instead of falling
+export const WATER_DRAG = 0.9; // Per-tick damping of all movement underwater
+export const WATER_MAX_SPEED = 3.5;
+export const SWIM_FORCE = -7; // Upward stroke on each jump press underwater (a full jump once the head is out)
+export const QUICKSAND_SINK = 0.6; // px per tick
+export const QUICKSAND_MAX_SPEED = 1.5;
+export const QUICKSAND_JUMP = JUMP_FORCE * 0.6; // Struggling free takes a few hops
+export const WIND_FORCE = 0.4; // Default wind push, px per tick per tick
+
+// Stomping & Scoring
+export const STOMP_TOLERANCE = 16; // How far below an enemy's top the player's feet may already be last step
+export const STOMP_BOUNCE = JUMP_FORCE * 0.6; // Hold jump to bounce off at full jump height
+export const SEED_POINTS = 100;
+export const STOMP_POINTS = 200;
+export const CRATE_POINTS = 50;
+export const MAX_COMBO = 8; // Highest multiplier an airborne chain can reach
+
+// Bosses
+export const BOSS_ARENA_WIDTH = 1000;
+export const BOSS_HIT_COOLDOWN = 60; // Ticks after a stomp before the boss can be hurt again
+export const BOSS_HIT_POINTS = 500;
+export const BOSS_DEFEAT_POINTS = 5000;
 
 export const CANVAS_WIDTH = 1024;
 export const CANVAS_HEIGHT = 600;
 
+// World size asked of level generators: a classic 3000px run along ground at y~500
+export const DEFAULT_LEVEL_BOUNDS: LevelBounds = { width: 3000, height: 1500, killY: 900 };
+// Climbs are a narrow shaft rising ~2600px above the starting floor at y=500
+export const DEFAULT_CLIMB_BOUNDS: LevelBounds = { width: 800, height: 3500, killY: 900 };
+export const ARCHETYPE_BOUNDS: Record<LevelArchetype, LevelBounds> = { run: DEFAULT_LEVEL_BOUNDS, climb: DEFAULT_CLIMB_BOUNDS };
+
+// In a climb the death plane rises behind the player: it sits CLIMB_KILL_MARGIN under the lowest
+// solid ledge within CLIMB_FALL_ROOM of the last safe one, so a slip costs a few ledges, not the climb
+export const CLIMB_FALL_ROOM = 400;
+export const CLIMB_KILL_MARGIN = 200;
+
+// Distance along a level (rightwards, or upwards in a climb) between checkpoint burrows, by difficulty 1-3+
+export const CHECKPOINT_SPACING: Record<1 | 2 | 3, number> = { 1: 1000, 2: 1250, 3: 1500 };
+
 export const GENERATION_MODEL = 'gemini-2.5-flash';
 export const MAX_LEADERBOARD_ENTRIES = 5;
 
@@ -28,6 +80,10 @@ export const TIME_LIMITS = {
   3: 120  // Hard
 };
 
+// Continuing after a game over replays the level: the first continues of a run are free, later ones cost score
+export const CONTINUE_TOKENS = 1;
+export const CONTINUE_COST = 500;
+
 // Colors for fallback rendering
 export const COLORS = {
   sky: '#BAE6FD', // sky-200
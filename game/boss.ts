@@ -0,0 +1,221 @@
+import { BossType, GameEvent, GameObject, LevelBoss, Vector2 } from '../types';
+import { World } from './world';
+import { nextRandom } from './random';
+
+// Boss fights: one multi-phase enemy guarding the arena at the end of a boss level.
+// This module moves bosses and fires their attacks; stomps and damage are resolved in stepWorld.
+//
+// Every attack is telegraphed: the badger crouches before charging and leaves a moving mound when it
+// burrows, the eagle marks the spot it will swoop on. Below half health the boss enters phase 2,
+// attacking faster and mixing in a second pattern.
+
+const BOSSES: Record<BossType, { health: number; width: number; height: number; name: string }> = {
+  badger: { health: 6, width: 120, height: 80, name: 'Giant Badger' },
+  eagle: { health: 5, width: 110, height: 70, name: 'Golden Eagle' }
+};
+
+const EAGLE_HOVER = 320; // How far above the arena floor the eagle circles
+
+export const getBossName = (type: BossType) => BOSSES[type].name;
+
+// Where a boss waits in an arena whose floor is at floorY
+export const getBossSpawn = (type: BossType, arena: LevelBoss['arena'], floorY: number): Vector2 => type === 'eagle'
+  ? { x: arena.x + arena.w / 2 - BOSSES.eagle.width / 2, y: floorY - EAGLE_HOVER }
+  : { x: arena.x + arena.w - 200, y: floorY - BOSSES.badger.height };
+
+export const createBoss = (boss: LevelBoss): GameObject => {
+  const stats = BOSSES[boss.type];
+  return {
+    id: 'boss',
+    position: { x: boss.x, y: boss.y },
+    size: { width: stats.width, height: stats.height },
+    type: 'boss',
+    subtype: boss.type,
+    velocity: { x: -1, y: 0 }, // x doubles as the facing direction
+    initialPosition: { x: boss.x, y: boss.y },
+    aiState: 'waiting', // Until the player walks into the arena
+    timer: 0,
+    health: stats.health,
+    maxHealth: stats.health,
+    invulnerable: 0
+  };
+};
+
+export const getBossPhase = (boss: GameObject) => (boss.health! <= boss.maxHealth! / 2 ? 2 : 1);
+
+// A burrowed badger is out of reach entirely
+export const isBossTouchable = (boss: GameObject) => boss.aiState !== 'burrow' && boss.aiState !== 'tunnel';
+
+// Landing on the boss hurts it only while it's open: the eagle after a swoop, the badger unless it's erupting
+export const isBossStompable = (boss: GameObject) => boss.subtype === 'eagle'
+  ? boss.aiState === 'grounded'
+  : boss.aiState !== 'erupt' && boss.aiState !== 'waiting';
+
+const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v));
+
+const updateBadger = (world: World, boss: GameObject, events: GameEvent[]) => {
+  const arena = world.level.boss!.arena;
+  const player = world.player;
+  const phase = getBossPhase(boss);
+  const floorY = boss.initialPosition!.y; // Top of the badger when standing on the arena floor
+  const playerCenter = player.position.x + player.size.width / 2;
+  const center = boss.position.x + boss.size.width / 2;
+  const dir = playerCenter > center ? 1 : -1;
+  boss.timer = (boss.timer || 0) - 1;
+
+  switch (boss.aiState) {
+    case 'idle':
+      boss.velocity!.x = dir;
+      if (boss.timer <= 0) {
+        const burrow = phase === 2 && nextRandom(world.rng) < 0.5;
+        boss.aiState = burrow ? 'burrow' : 'windup';
+        boss.timer = burrow ? 40 : phase === 2 ? 30 : 45;
+        events.push({ type: 'boss_telegraph' });
+      }
+      break;
+    case 'windup': // Crouches and scrapes, facing the player
+      boss.velocity!.x = dir;
+      if (boss.timer <= 0) {
+        boss.aiState = 'charge';
+        boss.velocity!.x = dir * (phase === 2 ? 10 : 7);
+      }
+      break;
+    case 'charge': {
+      boss.position.x += boss.velocity!.x;
+      const left = arena.x;
+      const right = arena.x + arena.w - boss.size.width;
+      if (boss.position.x <= left || boss.position.x >= right) {
+        boss.position.x = clamp(boss.position.x, left, right);
+        boss.aiState = 'stunned'; // Dazed after hitting the arena wall
+        boss.timer = phase === 2 ? 60 : 90;
+        world.shakeTimer = 15;
+        world.shakeStrength = 8;
+      }
+      break;
+    }
+    case 'stunned':
+      if (boss.timer <= 0) {
+        boss.aiState = 'idle';
+        boss.timer = phase === 2 ? 40 : 70;
+      }
+      break;
+    case 'burrow': // Sinks into the floor
+      boss.position.y = floorY + (1 - Math.max(0, boss.timer) / 40) * boss.size.height;
+      if (boss.timer <= 0) {
+        boss.aiState = 'tunnel';
+        boss.timer = 70;
+      }
+      break;
+    case 'tunnel': // Hidden; only the mound above it chases the player
+      boss.position.x = clamp(boss.position.x + clamp(playerCenter - center, -4, 4), arena.x, arena.x + arena.w - boss.size.width);
+      if (boss.timer <= 0) {
+        boss.aiState = 'erupt';
+        boss.velocity!.y = -16;
+      }
+      break;
+    case 'erupt':
+      boss.position.y += boss.velocity!.y;
+      boss.velocity!.y += 1.2;
+      if (boss.velocity!.y > 0 && boss.position.y >= floorY) {
+        boss.position.y = floorY;
+        boss.velocity!.y = 0;
+        boss.aiState = 'idle';
+        boss.timer = 50;
+        world.shakeTimer = 10;
+        world.shakeStrength = 6;
+      }
+      break;
+  }
+};
+
+const updateEagle = (world: World, boss: GameObject, events: GameEvent[]) => {
+  const arena = world.level.boss!.arena;
+  const player = world.player;
+  const phase = getBossPhase(boss);
+  const hoverY = boss.initialPosition!.y;
+  const groundY = hoverY + EAGLE_HOVER - boss.size.height;
+  const playerCenter = player.position.x + player.size.width / 2;
+  const center = boss.position.x + boss.size.width / 2;
+  boss.timer = (boss.timer || 0) - 1;
+
+  switch (boss.aiState) {
+    case 'idle': // Circles above the player
+      boss.velocity!.x = playerCenter > center ? 1 : -1;
+      boss.position.x = clamp(boss.position.x + clamp((playerCenter - center) * 0.02, -3, 3), arena.x, arena.x + arena.w - boss.size.width);
+      boss.position.y = hoverY + Math.sin(world.tick / 20) * 15;
+      if (boss.timer <= 0) {
+        const volley = phase === 2 && nextRandom(world.rng) < 0.5;
+        boss.aiState = volley ? 'volley' : 'telegraph';
+        boss.timer = phase === 2 ? 30 : 45;
+        boss.target = { x: clamp(playerCenter - boss.size.width / 2, arena.x, arena.x + arena.w - boss.size.width), y: groundY };
+        events.push({ type: 'boss_telegraph' });
+      }
+      break;
+    case 'telegraph': // The landing spot is marked on the floor
+      if (boss.timer <= 0) boss.aiState = 'swoop';
+      break;
+    case 'swoop': {
+      const speed = phase === 2 ? 12 : 9;
+      const dx = boss.target!.x - boss.position.x;
+      const dy = boss.target!.y - boss.position.y;
+      const dist = Math.hypot(dx, dy);
+      if (dist <= speed) {
+        boss.position = { ...boss.target! };
+        boss.aiState = 'grounded'; // Stuck in the dirt: the opening to stomp it
+        boss.timer = phase === 2 ? 60 : 90;
+        world.shakeTimer = 10;
+        world.shakeStrength = 6;
+      } else {
+        boss.position.x += (dx / dist) * speed;
+        boss.position.y += (dy / dist) * speed;
+      }
+      break;
+    }
+    case 'grounded':
+      if (boss.timer <= 0) boss.aiState = 'rise';
+      break;
+    case 'rise':
+      boss.position.y -= 4;
+      if (boss.position.y <= hoverY) {
+        boss.position.y = hoverY;
+        boss.aiState = 'idle';
+        boss.timer = phase === 2 ? 60 : 100;
+      }
+      break;
+    case 'volley': // Screeches, then fans feathers at the player
+      if (boss.timer <= 0) {
+        const dx = playerCenter - center;
+        const dy = player.position.y + player.size.height / 2 - (boss.position.y + boss.size.height / 2);
+        const aim = Math.atan2(dy, dx);
+        for (let i = -2; i <= 2; i++) {
+          const angle = aim + i * 0.25;
+          world.projectiles.push({
+            x: center,
+            y: boss.position.y + boss.size.height,
+            vx: Math.cos(angle) * 6,
+            vy: Math.sin(angle) * 6,
+            size: 7,
+            color: '#92400E',
+            damage: 1
+          });
+        }
+        boss.aiState = 'idle';
+        boss.timer = 80;
+      }
+      break;
+  }
+};
+
+// Advance the boss one step; it waits until the player is locked into its arena
+export const updateBoss = (world: World, boss: GameObject, events: GameEvent[]) => {
+  if (boss.invulnerable! > 0) boss.invulnerable!--;
+  if (boss.aiState === 'waiting') {
+    if (!world.arenaLocked) return;
+    boss.aiState = 'idle';
+    boss.timer = 60;
+    events.push({ type: 'boss_telegraph' }); // Announces itself
+    return;
+  }
+  if (boss.subtype === 'eagle') updateEagle(world, boss, events);
+  else updateBadger(world, boss, events);
+};
@@ -0,0 +1,53 @@
+import { Vector2 } from '../types';
+
+type Box = { position: Vector2, size: { width: number, height: number } };
+
+// Collision Helpers
+export const getBounds = (obj: Box) => {
+    return {
+        x: obj.position.x,
+        y: obj.position.y,
+        w: obj.size.width,
+        h: obj.size.height
+    };
+};
+
+// HurtBox is slightly larger/more forgiving than physics box for collecting/damage
+export const getHurtBounds = (obj: Box) => {
+    const padding = 10;
+    return {
+        x: obj.position.x - padding / 2,
+        y: obj.position.y - padding / 2,
+        w: obj.size.width + padding,
+        h: obj.size.height + padding
+    };
+};
+
+export const checkRectCollision = (rect1: Box, rect2: Box, useHurtBox: boolean = false) => {
+    const b1 = useHurtBox ? getHurtBounds(rect1) : getBounds(rect1);
+    const b2 = useHurtBox ? getHurtBounds(rect2) : getBounds(rect2);
+
+    return (
+        b1.x < b2.x + b2.w &&
+        b1.x + b1.w > b2.x &&
+        b1.y < b2.y + b2.h &&
+        b1.y + b1.h > b2.y
+    );
+};
+
+export const checkCircleRectCollision = (
+    circle: { x: number, y: number, size: number },
+    rect: Box,
+    useHurtBox: boolean = false
+) => {
+    const b = useHurtBox ? getHurtBounds(rect) : getBounds(rect);
+
+    // Find closest point on rect to circle center
+    const closestX = Math.max(b.x, Math.min(circle.x, b.x + b.w));
+    const closestY = Math.max(b.y, Math.min(circle.y, b.y + b.h));
+
+    const dx = circle.x - closestX;
+    const dy = circle.y - closestY;
+
+    return (dx * dx + dy * dy) < (circle.size * circle.size);
+};
@@ -0,0 +1,17 @@
+import { World } from './world';
+import { nextRandom } from './random';
+
+// Helper to spawn particles
+export const spawnDebris = (world: World, x: number, y: number, color: string, count: number = 5) => {
+    for(let i=0; i<count; i++) {
+        world.particles.push({
+            x: x + nextRandom(world.fxRng) * 40,
+            y: y + nextRandom(world.fxRng) * 40,
+            vx: (nextRandom(world.fxRng) - 0.5) * 10,
+            vy: (nextRandom(world.fxRng) - 0.5) * 10,
+            life: 30 + nextRandom(world.fxRng) * 20,
+            color: color,
+            size: 4 + nextRandom(world.fxRng) * 4
+        });
+    }
+};
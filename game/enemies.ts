@@ -0,0 +1,284 @@
+import { EnemyAttack, EnemyMovement, EnemyState, EnemyTrigger, EnemyType, GameObject, LevelConfig } from '../types';
+import { COLORS } from '../constants';
+import { World } from './world';
+import { Rng, nextRandom } from './random';
+import { checkRectCollision } from './collision';
+import { spawnDebris } from './effects';
+import { ENEMY_DEFINITIONS } from './enemyDefinitions';
+
+// Runs the enemy state machines defined in enemyDefinitions.ts.
+
+const ENEMY_SIZE = 40;
+const ENEMY_GRAVITY = 0.5;
+const SNAP_DISTANCE = 50; // How far above or below a platform a ground enemy may be placed and still stand on it
+const ALT_CHANCE = 0.4;
+const LEAP_REACH = 250; // Furthest gap a chasing enemy will try to leap
+
+type Signals = { edge: boolean; arrived: boolean };
+
+export const getEnemyDefinition = (enemy: GameObject) => ENEMY_DEFINITIONS[enemy.subtype as EnemyType];
+
+export const getEnemyState = (enemy: GameObject): EnemyState => {
+    const def = getEnemyDefinition(enemy);
+    const alt = enemy.variant === 'alt' ? def.alt?.states?.[enemy.aiState!] : undefined;
+    return alt || def.states[enemy.aiState!];
+};
+
+// Underground enemies can't hurt or be hurt
+export const isEnemyHidden = (enemy: GameObject) => !!getEnemyState(enemy).hidden;
+
+export const isEnemyStompable = (enemy: GameObject) => getEnemyState(enemy).stompable ?? getEnemyDefinition(enemy).stompable;
+
+const pickState = (rng: Rng, start: string | string[]) =>
+    Array.isArray(start) ? start[Math.floor(nextRandom(rng) * start.length)] : start;
+
+const beginState = (enemy: GameObject, name: string, rng: Rng) => {
+    enemy.aiState = name;
+    const { duration } = getEnemyState(enemy);
+    enemy.timer = duration ? duration[0] + nextRandom(rng) * (duration[1] - duration[0]) : 0;
+};
+
+export const createEnemy = (e: LevelConfig['enemies'][number], i: number, level: LevelConfig, rng: Rng): GameObject => {
+    const def = ENEMY_DEFINITIONS[e.type];
+    let patrolRange = { min: e.x - 100, max: e.x + 100 };
+    let y = e.y;
+    let anchored = false;
+
+    // Ground enemies stand on the platform below them and patrol its length
+    if (def.ground) {
+        const platform = level.platforms.find(p =>
+            !p.motion && e.x >= p.x && e.x <= p.x + p.w && Math.abs(p.y - e.y) < SNAP_DISTANCE
+        );
+        if (platform) {
+            patrolRange = { min: platform.x, max: platform.x + platform.w - ENEMY_SIZE };
+            y = platform.y - ENEMY_SIZE;
+        } else {
+            anchored = true;
+        }
+    }
+
+    const variant = nextRandom(rng) < ALT_CHANCE ? 'alt' : 'default';
+    const enemy: GameObject = {
+        id: `enemy-${i}`,
+        position: { x: e.x, y },
+        size: { width: ENEMY_SIZE, height: ENEMY_SIZE },
+        type: 'enemy',
+        subtype: e.type,
+        velocity: { x: 0, y: 0 },
+        initialPosition: { x: e.x, y },
+        patrolRange,
+        variant,
+        phase: nextRandom(rng) * 100,
+        anchored
+    };
+    beginState(enemy, pickState(rng, (variant === 'alt' && def.alt?.start) || def.start), rng);
+    return enemy;
+};
+
+const towardsPlayer = (world: World, enemy: GameObject) => (world.player.position.x > enemy.position.x ? 1 : -1);
+
+const attack = (world: World, enemy: GameObject, action: EnemyAttack) => {
+    const player = world.player;
+    switch (action.type) {
+        case 'spit': {
+            const dx = (player.position.x + player.size.width / 2) - enemy.position.x;
+            const dy = (player.position.y + player.size.height / 2) - enemy.position.y;
+            const mag = Math.hypot(dx, dy) || 1;
+            world.projectiles.push({
+                x: enemy.position.x,
+                y: enemy.position.y - 20,
+                vx: (dx / mag) * action.speed,
+                vy: (dy / mag) * action.speed - action.lift, // Slight arc up
+                size: 6,
+                color: action.color,
+                damage: 1
+            });
+            break;
+        }
+        case 'hop':
+            if (enemy.velocity!.y === 0 && !enemy.anchored) enemy.velocity!.y = -action.force; // Only from the ground
+            break;
+    }
+};
+
+const enterState = (world: World, enemy: GameObject, name: string) => {
+    beginState(enemy, name, world.rng);
+    const state = getEnemyState(enemy);
+    if (state.move.type === 'charge') enemy.velocity!.x = towardsPlayer(world, enemy) * state.move.speed;
+    if (state.enter) attack(world, enemy, state.enter);
+};
+
+// The next static platform a chasing enemy could leap to, in direction dir from the end of its own
+const findLanding = (world: World, enemy: GameObject, dir: number) => {
+    const range = enemy.patrolRange!;
+    const edge = dir > 0 ? range.max + enemy.size.width : range.min;
+    const floor = enemy.position.y + enemy.size.height;
+    return world.platforms.find(p => {
+        if (p.isBroken || p.motion || p.position.y < floor - 150 || p.position.y > floor + 200) return false;
+        const gap = dir > 0 ? p.position.x - edge : edge - (p.position.x + p.size.width);
+        return gap > 0 && gap < LEAP_REACH;
+    });
+};
+
+const move = (world: World, enemy: GameObject, m: EnemyMovement): Signals => {
+    const player = world.player;
+    const pos = enemy.position;
+    const v = enemy.velocity!;
+    const home = enemy.initialPosition!;
+    const range = enemy.patrolRange!;
+    const signals: Signals = { edge: false, arrived: false };
+    const t = world.tick;
+
+    switch (m.type) {
+        case 'still':
+            v.x = 0;
+            break;
+        case 'patrol':
+            v.x = (Math.sign(v.x) || 1) * m.speed;
+            pos.x += v.x;
+            if (pos.x <= range.min) {
+                pos.x = range.min;
+                v.x = m.speed;
+            } else if (pos.x >= range.max) {
+                pos.x = range.max;
+                v.x = -m.speed;
+            } else if (m.turnChance && nextRandom(world.rng) < m.turnChance) {
+                v.x *= -1; // Random turn
+            }
+            break;
+        case 'charge':
+            pos.x += v.x;
+            if (pos.x <= range.min || pos.x >= range.max) {
+                pos.x = Math.max(range.min, Math.min(range.max, pos.x));
+                signals.edge = true;
+            }
+            break;
+        case 'chase': {
+            const dx = player.position.x - pos.x;
+            const onGround = v.y === 0;
+            if (onGround) v.x = Math.abs(dx) < 10 ? 0 : Math.sign(dx) * m.speed;
+            const ahead = pos.x + v.x;
+            if (onGround && !enemy.anchored && (ahead < range.min || ahead > range.max)) {
+                // Out of platform: leap if there is somewhere to land, otherwise wait at the edge
+                if (findLanding(world, enemy, Math.sign(v.x))) v.y = -m.leap;
+                else v.x = 0;
+            }
+            pos.x += v.x;
+            break;
+        }
+        case 'hover':
+            pos.y = home.y + Math.sin((t / m.period) * Math.PI * 2) * m.bob;
+            pos.x += (player.position.x - pos.x) * m.drift; // Stalk the player
+            break;
+        case 'dive':
+            pos.x += (player.position.x - pos.x) * m.steer;
+            pos.y += m.speed;
+            signals.arrived = pos.y >= player.position.y + 50 || pos.y > home.y + m.depth;
+            break;
+        case 'return':
+            pos.x += (home.x - pos.x) * m.ease * 0.4;
+            pos.y += (home.y - pos.y) * m.ease;
+            signals.arrived = Math.abs(home.y - pos.y) < 10;
+            break;
+        case 'figure8': {
+            const a = (t / m.period) * Math.PI * 2;
+            pos.x = home.x + Math.sin(a) * m.width;
+            pos.y = home.y + Math.sin(a * 2) * m.height;
+            if (m.swoop && Math.abs(player.position.x - pos.x) < 200 && player.position.y > pos.y) pos.y += m.swoop;
+            break;
+        }
+        case 'orbit': {
+            const a = (t / m.period) * Math.PI * 2;
+            if (m.follow && Math.abs(player.position.x - home.x) < 400) home.x += (player.position.x - home.x) * m.follow;
+            const radius = m.radius + (m.pulse ? Math.sin(a / 2) * m.pulse : 0);
+            pos.x = home.x + Math.cos(a + (enemy.phase || 0)) * radius;
+            pos.y = home.y + Math.sin(a + (enemy.phase || 0)) * radius;
+            break;
+        }
+        case 'burrow': {
+            const dx = player.position.x - pos.x;
+            if (Math.abs(dx) < m.range) {
+                pos.x = Math.max(range.min, Math.min(range.max, pos.x + Math.sign(dx) * Math.min(m.speed, Math.abs(dx))));
+                if (nextRandom(world.fxRng) > 0.8) spawnDebris(world, pos.x, pos.y + enemy.size.height, COLORS.dirt, 1);
+            }
+            break;
+        }
+    }
+    return signals;
+};
+
+// Ground enemies fall until they land on a static platform; returns true on the step they land
+const applyGravity = (world: World, enemy: GameObject): boolean => {
+    const v = enemy.velocity!;
+    const bottom = enemy.position.y + enemy.size.height;
+    const center = enemy.position.x + enemy.size.width / 2;
+    v.y += ENEMY_GRAVITY;
+
+    const support = v.y > 0 && world.platforms.find(p =>
+        !p.isBroken && !p.motion &&
+        center >= p.position.x && center <= p.position.x + p.size.width &&
+        p.position.y >= bottom - 1 && p.position.y <= bottom + v.y
+    );
+    if (support) {
+        const landed = v.y > ENEMY_GRAVITY; // Falling, not just standing
+        enemy.position.y = support.position.y - enemy.size.height;
+        v.y = 0;
+        if (landed) enemy.patrolRange = { min: support.position.x, max: support.position.x + support.size.width - enemy.size.width };
+        return landed;
+    }
+    enemy.position.y += v.y;
+    if (enemy.position.y > world.killY) enemy.isBroken = true; // Fell out of the level
+    return false;
+};
+
+const isLineOfSightClear = (world: World, enemy: GameObject) => {
+    const player = world.player;
+    const ax = enemy.position.x + enemy.size.width / 2;
+    const ay = enemy.position.y + enemy.size.height / 2;
+    const bx = player.position.x + player.size.width / 2;
+    const by = player.position.y + player.size.height / 2;
+    const steps = Math.ceil(Math.hypot(bx - ax, by - ay) / 20);
+    for (let i = 1; i < steps; i++) {
+        const probe = { position: { x: ax + (bx - ax) * i / steps, y: ay + (by - ay) * i / steps }, size: { width: 1, height: 1 } };
+        if (world.platforms.some(p => !p.isBroken && checkRectCollision(probe, p))) return false;
+    }
+    return true;
+};
+
+const isTriggered = (world: World, enemy: GameObject, trigger: EnemyTrigger, signals: Signals) => {
+    const dx = world.player.position.x - enemy.position.x;
+    const dy = world.player.position.y - enemy.position.y;
+    switch (trigger.when) {
+        case 'timer': return (enemy.timer || 0) <= 0;
+        case 'near': return trigger.dy !== undefined
+            ? Math.abs(dx) < trigger.range && Math.abs(dy) < trigger.dy
+            : Math.hypot(dx, dy) < trigger.range;
+        case 'far': return Math.hypot(dx, dy) > trigger.range;
+        case 'sight': return Math.hypot(dx, dy) < trigger.range && isLineOfSightClear(world, enemy);
+        case 'below': return Math.abs(dx) < trigger.dx && dy > 0;
+        case 'above': return Math.abs(dx) < trigger.dx && dy < -trigger.dy;
+        case 'edge': return signals.edge;
+        case 'arrived': return signals.arrived;
+    }
+};
+
+// Advance one enemy by a step: move, fall, smash, then take the first transition that fires
+export const updateEnemy = (world: World, enemy: GameObject) => {
+    const def = getEnemyDefinition(enemy);
+    const state = getEnemyState(enemy);
+    enemy.timer = (enemy.timer || 0) - 1;
+
+    const signals = move(world, enemy, state.move);
+    if (def.ground && !enemy.anchored && applyGravity(world, enemy)) signals.arrived = true;
+
+    if (def.breaksCrates) {
+        world.obstacles.forEach(o => {
+            if (o.isBroken || !checkRectCollision(enemy, o)) return;
+            o.isBroken = true;
+            spawnDebris(world, o.position.x + o.size.width / 2, o.position.y, '#8B4513', 8);
+        });
+    }
+
+    const next = state.transitions.find(t => isTriggered(world, enemy, t.trigger, signals));
+    if (next) enterState(world, enemy, next.to);
+};
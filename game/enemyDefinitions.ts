@@ -0,0 +1,273 @@
+import { EnemyDefinition, EnemyType } from '../types';
+import { COLORS } from '../constants';
+
+// Every enemy type as a state machine; game/enemies.ts runs them.
+// A new critter is a new entry here (plus its name in EnemyType), not new game-loop code.
+// Durations and periods are in ticks, speeds in px per tick.
+
+export const ENEMY_DEFINITIONS: Record<EnemyType, EnemyDefinition> = {
+  // Patrols its platform and charges along it when the player comes level with it
+  snake: {
+    emoji: '🐍',
+    ground: true,
+    stompable: true,
+    start: 'patrol',
+    states: {
+      patrol: {
+        move: { type: 'patrol', speed: 2, turnChance: 0.005 },
+        transitions: [{ to: 'angry', trigger: { when: 'near', range: 250, dy: 50 } }]
+      },
+      angry: {
+        move: { type: 'charge', speed: 6 },
+        emote: '💢',
+        transitions: [{ to: 'patrol', trigger: { when: 'edge' } }]
+      }
+    },
+    // Jumper: also leaps at a player jumping over it mid-charge
+    alt: {
+      states: {
+        angry: {
+          move: { type: 'charge', speed: 6 },
+          emote: '💢',
+          transitions: [
+            { to: 'patrol', trigger: { when: 'edge' } },
+            { to: 'leap', trigger: { when: 'above', dx: 50, dy: 50 } }
+          ]
+        },
+        leap: {
+          move: { type: 'charge', speed: 6 },
+          enter: { type: 'hop', force: 10 },
+          emote: '💢',
+          transitions: [
+            { to: 'angry', trigger: { when: 'arrived' } },
+            { to: 'patrol', trigger: { when: 'edge' } }
+          ]
+        }
+      }
+    }
+  },
+
+  // Stalks from the sky and dive-bombs; too quick to stomp
+  hawk: {
+    emoji: '🦅',
+    ground: false,
+    stompable: false,
+    start: 'hover',
+    states: {
+      hover: {
+        move: { type: 'hover', bob: 20, period: 188, drift: 0.005 },
+        transitions: [{ to: 'preparing', trigger: { when: 'below', dx: 150 } }]
+      },
+      preparing: {
+        move: { type: 'still' },
+        duration: [30, 60],
+        transitions: [{ to: 'dive', trigger: { when: 'timer' } }]
+      },
+      dive: {
+        move: { type: 'dive', speed: 6, steer: 0.05, depth: 300 },
+        pose: 'tilt',
+        transitions: [{ to: 'return', trigger: { when: 'arrived' } }]
+      },
+      return: {
+        move: { type: 'return', ease: 0.05 },
+        transitions: [{ to: 'hover', trigger: { when: 'arrived' } }]
+      }
+    }
+  },
+
+  // Roosts until the player comes close, then flutters in a figure of eight
+  bat: {
+    emoji: '🦇',
+    ground: false,
+    stompable: true,
+    start: ['sleeping', 'flutter'],
+    states: {
+      sleeping: {
+        move: { type: 'still' },
+        pose: 'sleep',
+        transitions: [{ to: 'flutter', trigger: { when: 'near', range: 250 } }]
+      },
+      flutter: {
+        move: { type: 'figure8', width: 100, height: 50, period: 113 },
+        pose: 'bank',
+        transitions: []
+      }
+    },
+    // Seeker: never sleeps and swoops at a player below it
+    alt: {
+      start: 'flutter',
+      states: {
+        flutter: {
+          move: { type: 'figure8', width: 100, height: 50, period: 113, swoop: 3 },
+          pose: 'bank',
+          transitions: []
+        }
+      }
+    }
+  },
+
+  // Circles its spot in a swarm
+  bug: {
+    emoji: '🐝',
+    ground: false,
+    stompable: true,
+    start: 'swarm',
+    states: {
+      swarm: {
+        move: { type: 'orbit', radius: 60, period: 75 },
+        transitions: []
+      }
+    },
+    // Pulsing swarm that slowly follows the player
+    alt: {
+      states: {
+        swarm: {
+          move: { type: 'orbit', radius: 60, period: 75, pulse: 30, follow: 0.002 },
+          transitions: []
+        }
+      }
+    }
+  },
+
+  // Pops out of the ground, spits a dirt clod and ducks back down; only stompable once fully up
+  mole: {
+    emoji: '🥔',
+    ground: true,
+    stompable: true,
+    start: 'hidden',
+    states: {
+      hidden: {
+        move: { type: 'still' },
+        duration: [100, 200],
+        hidden: true,
+        transitions: [{ to: 'rising', trigger: { when: 'timer' } }]
+      },
+      rising: {
+        move: { type: 'still' },
+        duration: [30, 30],
+        pose: 'rise',
+        stompable: false,
+        transitions: [{ to: 'active', trigger: { when: 'timer' } }]
+      },
+      active: {
+        move: { type: 'still' },
+        duration: [120, 180],
+        enter: { type: 'spit', speed: 5, lift: 3, color: COLORS.dirt },
+        pose: 'surfaced',
+        transitions: [{ to: 'lowering', trigger: { when: 'timer' } }]
+      },
+      lowering: {
+        move: { type: 'still' },
+        duration: [30, 30],
+        pose: 'sink',
+        stompable: false,
+        transitions: [{ to: 'hidden', trigger: { when: 'timer' } }]
+      }
+    },
+    // Tracker: tunnels towards the player while hidden
+    alt: {
+      states: {
+        hidden: {
+          move: { type: 'burrow', speed: 0.5, range: 200 },
+          duration: [100, 200],
+          hidden: true,
+          pose: 'mound',
+          transitions: [{ to: 'rising', trigger: { when: 'timer' } }]
+        }
+      }
+    }
+  },
+
+  // Prowls until it spots the player, then chases them across platforms, leaping the gaps
+  coyote: {
+    emoji: '🐺',
+    ground: true,
+    stompable: true,
+    start: 'prowl',
+    states: {
+      prowl: {
+        move: { type: 'patrol', speed: 1.5, turnChance: 0.01 },
+        transitions: [{ to: 'howl', trigger: { when: 'sight', range: 350 } }]
+      },
+      howl: {
+        move: { type: 'still' },
+        duration: [20, 20],
+        emote: '❗',
+        transitions: [{ to: 'chase', trigger: { when: 'timer' } }]
+      },
+      chase: {
+        move: { type: 'chase', speed: 4.5, leap: 13 },
+        transitions: [{ to: 'prowl', trigger: { when: 'far', range: 600 } }]
+      }
+    }
+  },
+
+  // Snarls, burrows towards the player and bursts up underneath them; smashes any crate in its way
+  badger: {
+    emoji: '🦡',
+    ground: true,
+    stompable: true,
+    breaksCrates: true,
+    start: 'prowl',
+    states: {
+      prowl: {
+        move: { type: 'patrol', speed: 1 },
+        transitions: [{ to: 'snarl', trigger: { when: 'sight', range: 300 } }]
+      },
+      snarl: {
+        move: { type: 'still' },
+        duration: [30, 30],
+        emote: '💢',
+        transitions: [{ to: 'dig', trigger: { when: 'timer' } }]
+      },
+      dig: {
+        move: { type: 'burrow', speed: 3, range: 400 },
+        duration: [90, 90],
+        hidden: true,
+        pose: 'mound',
+        transitions: [{ to: 'emerge', trigger: { when: 'timer' } }]
+      },
+      emerge: {
+        move: { type: 'still' },
+        duration: [45, 45],
+        pose: 'surfaced',
+        transitions: [{ to: 'prowl', trigger: { when: 'timer' } }]
+      }
+    }
+  },
+
+  // Lies coiled, rattles a warning when the player gets close, then lunges
+  rattlesnake: {
+    emoji: '🐍',
+    tint: 'sepia(0.9) saturate(1.6)',
+    ground: true,
+    stompable: true,
+    start: 'coiled',
+    states: {
+      coiled: {
+        move: { type: 'still' },
+        transitions: [{ to: 'rattle', trigger: { when: 'near', range: 220, dy: 60 } }]
+      },
+      rattle: {
+        move: { type: 'still' },
+        duration: [40, 40],
+        emote: '〰️',
+        transitions: [{ to: 'lunge', trigger: { when: 'timer' } }]
+      },
+      lunge: {
+        move: { type: 'charge', speed: 9 },
+        duration: [18, 18],
+        stompable: false,
+        transitions: [
+          { to: 'recover', trigger: { when: 'timer' } },
+          { to: 'recover', trigger: { when: 'edge' } }
+        ]
+      },
+      recover: {
+        move: { type: 'still' },
+        duration: [60, 60],
+        transitions: [{ to: 'coiled', trigger: { when: 'timer' } }]
+      }
+    }
+  }
+};
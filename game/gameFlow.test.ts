@@ -0,0 +1,126 @@
+import { describe, it, expect, vi } from 'vitest';
+import { GameStatus } from '../types';
+import { GameAction, TRANSITIONS, createGameFlow, getNextStatus } from './gameFlow';
+
+const STATUSES = Object.values(GameStatus);
+const ACTIONS: GameAction[] = [
+  'START_RUN', 'NEXT_LEVEL', 'LEVEL_READY', 'PLAY_LEVEL', 'RESUME_RUN', 'PAUSE', 'RESUME', 'RESTART_LEVEL', 'CONTINUE',
+  'WIN', 'LOSE', 'ENTER_NAME', 'SUBMIT_NAME', 'OPEN_LIBRARY', 'OPEN_EDITOR', 'OPEN_REPLAY', 'OPEN_STATS',
+  'PLAY_TEST', 'END_PLAY_TEST', 'QUIT'
+];
+
+// A flow with a spy for every entry and exit action, plus onChange
+const createSpiedFlow = (initial: GameStatus) => {
+  const onEnter = Object.fromEntries(STATUSES.map(s => [s, vi.fn()])) as Record<GameStatus, ReturnType<typeof vi.fn>>;
+  const onExit = Object.fromEntries(STATUSES.map(s => [s, vi.fn()])) as Record<GameStatus, ReturnType<typeof vi.fn>>;
+  const onChange = vi.fn();
+  const flow = createGameFlow(initial, { onEnter, onExit, onChange });
+  const calls = () => STATUSES.reduce((sum, s) => sum + onEnter[s].mock.calls.length + onExit[s].mock.calls.length, 0);
+  return { flow, onEnter, onExit, onChange, calls };
+};
+
+const allowed = STATUSES.flatMap(from =>
+  (Object.entries(TRANSITIONS[from]) as [GameAction, GameStatus][]).map(([action, to]) => ({ from, action, to }))
+);
+
+const refused = STATUSES.flatMap(from =>
+  ACTIONS.filter(action => !(action in TRANSITIONS[from])).map(action => ({ from, action }))
+);
+
+describe('gameFlow', () => {
+  it('has a transition table entry for every status', () => {
+    STATUSES.forEach(status => expect(TRANSITIONS[status]).toBeDefined());
+  });
+
+  it.each(allowed)('$from --$action--> $to runs exit and entry actions once', ({ from, action, to }) => {
+    const { flow, onEnter, onExit, onChange, calls } = createSpiedFlow(from);
+
+    expect(flow.can(action)).toBe(true);
+    expect(flow.send(action)).toBe(true);
+    expect(flow.getStatus()).toBe(to);
+
+    expect(onExit[from]).toHaveBeenCalledTimes(1);
+    expect(onExit[from]).toHaveBeenCalledWith(from, to, action);
+    expect(onEnter[to]).toHaveBeenCalledTimes(1);
+    expect(onEnter[to]).toHaveBeenCalledWith(from, to, action);
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onChange).toHaveBeenCalledWith(to);
+    expect(calls()).toBe(2);
+  });
+
+  it.each(refused)('$from refuses $action without running any action', ({ from, action }) => {
+    const { flow, onChange, calls } = createSpiedFlow(from);
+
+    expect(getNextStatus(from, action)).toBeNull();
+    expect(flow.can(action)).toBe(false);
+    expect(flow.send(action)).toBe(false);
+    expect(flow.getStatus()).toBe(from);
+    expect(onChange).not.toHaveBeenCalled();
+    expect(calls()).toBe(0);
+  });
+
+  it('ends a level only once when it is lost twice', () => {
+    const { flow, onEnter } = createSpiedFlow(GameStatus.PLAYING);
+
+    expect(flow.send('LOSE')).toBe(true);
+    expect(flow.send('LOSE')).toBe(false);
+    expect(flow.send('WIN')).toBe(false);
+    expect(flow.getStatus()).toBe(GameStatus.GAME_OVER);
+    expect(onEnter[GameStatus.GAME_OVER]).toHaveBeenCalledTimes(1);
+    expect(onEnter[GameStatus.VICTORY]).not.toHaveBeenCalled();
+  });
+
+  it('ignores the time limit running out after the loop already reported the result', () => {
+    const { flow, onEnter } = createSpiedFlow(GameStatus.PLAYING);
+
+    expect(flow.send('WIN')).toBe(true); // GameCanvas onGameOver(true)
+    expect(flow.send('LOSE')).toBe(false); // Timer effect on the same frame
+    expect(flow.getStatus()).toBe(GameStatus.VICTORY);
+    expect(onEnter[GameStatus.GAME_OVER]).not.toHaveBeenCalled();
+  });
+
+  it('does not quit straight out of play', () => {
+    const flow = createGameFlow(GameStatus.PLAYING);
+
+    expect(flow.send('QUIT')).toBe(false);
+    expect(flow.getStatus()).toBe(GameStatus.PLAYING);
+    expect(flow.send('PAUSE')).toBe(true);
+    expect(flow.send('QUIT')).toBe(true);
+    expect(flow.getStatus()).toBe(GameStatus.MENU);
+  });
+
+  it('restarts the same level without loading, while a new run loads one', () => {
+    const restart = createSpiedFlow(GameStatus.PAUSED);
+    expect(restart.flow.send('RESTART_LEVEL')).toBe(true);
+    expect(restart.flow.getStatus()).toBe(GameStatus.PLAYING);
+    expect(restart.onEnter[GameStatus.LOADING_LEVEL]).not.toHaveBeenCalled();
+
+    const newRun = createSpiedFlow(GameStatus.PAUSED);
+    expect(newRun.flow.send('START_RUN')).toBe(true);
+    expect(newRun.flow.getStatus()).toBe(GameStatus.LOADING_LEVEL);
+    expect(newRun.onEnter[GameStatus.PLAYING]).not.toHaveBeenCalled();
+  });
+
+  it('offers Continue rather than Restart after a game over', () => {
+    const flow = createGameFlow(GameStatus.GAME_OVER);
+
+    expect(flow.can('RESTART_LEVEL')).toBe(false);
+    expect(flow.send('CONTINUE')).toBe(true);
+    expect(flow.getStatus()).toBe(GameStatus.PLAYING);
+  });
+
+  it('runs each action once per step through a whole run', () => {
+    const { flow, onEnter, onExit, onChange } = createSpiedFlow(GameStatus.MENU);
+    const path: GameAction[] = ['START_RUN', 'LEVEL_READY', 'PAUSE', 'RESUME', 'WIN', 'NEXT_LEVEL', 'LEVEL_READY', 'LOSE', 'ENTER_NAME', 'SUBMIT_NAME'];
+
+    path.forEach(action => expect(flow.send(action)).toBe(true));
+
+    expect(flow.getStatus()).toBe(GameStatus.MENU);
+    expect(onChange).toHaveBeenCalledTimes(path.length);
+    expect(onEnter[GameStatus.PLAYING]).toHaveBeenCalledTimes(3); // Two levels and a resume
+    expect(onExit[GameStatus.PLAYING]).toHaveBeenCalledTimes(3);
+    expect(onEnter[GameStatus.LOADING_LEVEL]).toHaveBeenCalledTimes(2);
+    expect(onEnter[GameStatus.MENU]).toHaveBeenCalledTimes(1);
+    expect(onExit[GameStatus.MENU]).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,127 @@
+import { GameStatus } from '../types';
+
+// The screens the app moves between, as a state machine. Every status change goes through send(),
+// and anything not listed in TRANSITIONS is refused, so a late or repeated request (a second
+// game over, a resume while loading) is a no-op instead of a jump to the wrong screen.
+
+export type GameAction =
+  | 'START_RUN'      // Fresh run from level 1
+  | 'NEXT_LEVEL'     // Generate the next, harder level
+  | 'LEVEL_READY'    // The level being loaded has arrived
+  | 'PLAY_LEVEL'     // Play a level from the library or a share code
+  | 'RESUME_RUN'     // Pick up a saved run where it was left
+  | 'PAUSE'
+  | 'RESUME'
+  | 'RESTART_LEVEL'  // Play the current level again
+  | 'CONTINUE'       // Retry the level a run was lost on, for a token or score
+  | 'WIN'
+  | 'LOSE'           // Out of lives or out of time
+  | 'ENTER_NAME'     // Score made the leaderboard
+  | 'SUBMIT_NAME'
+  | 'OPEN_LIBRARY'
+  | 'OPEN_EDITOR'
+  | 'OPEN_REPLAY'
+  | 'OPEN_STATS'
+  | 'PLAY_TEST'      // Play the level in the editor
+  | 'END_PLAY_TEST'
+  | 'QUIT';          // Back to the main menu
+
+export const TRANSITIONS: Record<GameStatus, Partial<Record<GameAction, GameStatus>>> = {
+  [GameStatus.MENU]: {
+    START_RUN: GameStatus.LOADING_LEVEL,
+    NEXT_LEVEL: GameStatus.LOADING_LEVEL, // Resuming a run saved after a win
+    RESUME_RUN: GameStatus.PLAYING,
+    PLAY_LEVEL: GameStatus.PLAYING,
+    OPEN_LIBRARY: GameStatus.LIBRARY,
+    OPEN_EDITOR: GameStatus.EDITOR,
+    OPEN_REPLAY: GameStatus.REPLAY,
+    OPEN_STATS: GameStatus.STATS
+  },
+  [GameStatus.LOADING_LEVEL]: {
+    LEVEL_READY: GameStatus.PLAYING,
+    QUIT: GameStatus.MENU
+  },
+  [GameStatus.PLAYING]: {
+    PAUSE: GameStatus.PAUSED,
+    WIN: GameStatus.VICTORY,
+    LOSE: GameStatus.GAME_OVER,
+    END_PLAY_TEST: GameStatus.EDITOR
+  },
+  [GameStatus.PAUSED]: {
+    RESUME: GameStatus.PLAYING,
+    RESTART_LEVEL: GameStatus.PLAYING,
+    START_RUN: GameStatus.LOADING_LEVEL,
+    END_PLAY_TEST: GameStatus.EDITOR,
+    QUIT: GameStatus.MENU
+  },
+  [GameStatus.VICTORY]: {
+    NEXT_LEVEL: GameStatus.LOADING_LEVEL,
+    RESTART_LEVEL: GameStatus.PLAYING,
+    ENTER_NAME: GameStatus.NAME_ENTRY,
+    QUIT: GameStatus.MENU
+  },
+  [GameStatus.GAME_OVER]: {
+    CONTINUE: GameStatus.PLAYING,
+    START_RUN: GameStatus.LOADING_LEVEL,
+    ENTER_NAME: GameStatus.NAME_ENTRY,
+    QUIT: GameStatus.MENU
+  },
+  [GameStatus.NAME_ENTRY]: {
+    SUBMIT_NAME: GameStatus.MENU
+  },
+  [GameStatus.REPLAY]: {
+    QUIT: GameStatus.MENU
+  },
+  [GameStatus.LIBRARY]: {
+    PLAY_LEVEL: GameStatus.PLAYING,
+    OPEN_EDITOR: GameStatus.EDITOR,
+    QUIT: GameStatus.MENU
+  },
+  [GameStatus.EDITOR]: {
+    PLAY_TEST: GameStatus.PLAYING,
+    QUIT: GameStatus.MENU
+  },
+  [GameStatus.STATS]: {
+    QUIT: GameStatus.MENU
+  }
+};
+
+// The status an action leads to, or null when it isn't allowed from here
+export const getNextStatus = (status: GameStatus, action: GameAction): GameStatus | null =>
+  TRANSITIONS[status][action] ?? null;
+
+type TransitionAction = (from: GameStatus, to: GameStatus, action: GameAction) => void;
+
+export interface GameFlowActions {
+  onExit?: Partial<Record<GameStatus, TransitionAction>>;
+  onEnter?: Partial<Record<GameStatus, TransitionAction>>;
+  onChange?: (status: GameStatus) => void;
+}
+
+export interface GameFlow {
+  getStatus: () => GameStatus;
+  can: (action: GameAction) => boolean;
+  send: (action: GameAction) => boolean;
+}
+
+// Runs the exit action of the old status, then the entry action of the new one, then onChange.
+// The status is updated synchronously, so a second send() in the same frame already sees it.
+export const createGameFlow = (initial: GameStatus, actions: GameFlowActions = {}): GameFlow => {
+  let status = initial;
+
+  const can = (action: GameAction) => getNextStatus(status, action) !== null;
+
+  const send = (action: GameAction) => {
+    const from = status;
+    const to = getNextStatus(from, action);
+    if (to === null) return false;
+
+    actions.onExit?.[from]?.(from, to, action);
+    status = to;
+    actions.onEnter?.[to]?.(from, to, action);
+    actions.onChange?.(to);
+    return true;
+  };
+
+  return { getStatus: () => status, can, send };
+};
@@ -0,0 +1,83 @@
+import { AnimationState, LevelConfig } from '../types';
+import { SIMULATION_HZ } from '../constants';
+import { World } from './world';
+import { seedFromString } from './random';
+
+// A ghost is the player's position and animation for every tick of a winning run.
+// Frames are stored flat as [x, y, packed] to keep the saved JSON small.
+
+export const GHOST_VERSION = 1;
+const FRAME_STRIDE = 3;
+const SPLIT_BUCKET = 50; // Split times are compared every 50px of horizontal progress
+
+const ANIMATION_STATES: AnimationState[] = ['idle', 'walk', 'run', 'jump'];
+
+export interface Ghost {
+  version: number;
+  levelKey: string;
+  ticks: number;
+  frames: number[];
+  recordedAt: string;
+}
+
+export interface GhostFrame {
+  x: number;
+  y: number;
+  state: AnimationState;
+  frame: number;
+  facingRight: boolean;
+}
+
+// Stable identity for a level layout, so a ghost is only shown on the level it was recorded on
+export const getLevelKey = (level: LevelConfig): string => {
+  const { platforms, obstacles, enemies, collectibles, goal, seed, bounds, archetype, hazards, boss, checkpoints } = level;
+  // Fields older levels lack are left out of the JSON, so adding them never changes an existing key
+  return seedFromString(JSON.stringify({ platforms, obstacles, enemies, collectibles, goal, seed, bounds, archetype, hazards, boss, checkpoints })).toString(16);
+};
+
+export const createGhost = (level: LevelConfig): Ghost => ({
+  version: GHOST_VERSION,
+  levelKey: getLevelKey(level),
+  ticks: 0,
+  frames: [],
+  recordedAt: new Date().toISOString()
+});
+
+// Append the player's state after a simulation step
+export const recordGhostFrame = (ghost: Ghost, world: World) => {
+  const { player, anim } = world;
+  const packed = ANIMATION_STATES.indexOf(anim.state) | (anim.frame << 2) | ((player.facingRight ? 1 : 0) << 4);
+  ghost.frames.push(Math.round(player.position.x), Math.round(player.position.y), packed);
+  ghost.ticks++;
+};
+
+// Frame for a tick (1-based, matching World.tick); the ghost waits at its final position once it has finished
+export const getGhostFrame = (ghost: Ghost, tick: number): GhostFrame | null => {
+  if (ghost.ticks === 0) return null;
+  const i = (Math.max(1, Math.min(tick, ghost.ticks)) - 1) * FRAME_STRIDE;
+  const packed = ghost.frames[i + 2];
+  return {
+    x: ghost.frames[i],
+    y: ghost.frames[i + 1],
+    state: ANIMATION_STATES[packed & 3],
+    frame: (packed >> 2) & 3,
+    facingRight: ((packed >> 4) & 1) === 1
+  };
+};
+
+// First tick at which the ghost reached each SPLIT_BUCKET of horizontal progress
+export const buildSplitTable = (ghost: Ghost): number[] => {
+  const table: number[] = [];
+  for (let tick = 1; tick <= ghost.ticks; tick++) {
+    const bucket = Math.floor(ghost.frames[(tick - 1) * FRAME_STRIDE] / SPLIT_BUCKET);
+    for (let b = table.length; b <= bucket; b++) table[b] = tick;
+  }
+  return table;
+};
+
+// Seconds the player is behind (positive) or ahead (negative) of the ghost at the same progress
+export const getSplitDelta = (table: number[], furthestX: number, tick: number): number | null => {
+  const ghostTick = table[Math.floor(furthestX / SPLIT_BUCKET)];
+  if (ghostTick === undefined) return null;
+  return (tick - ghostTick) / SIMULATION_HZ;
+};
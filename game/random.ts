@@ -0,0 +1,29 @@
+// Seeded PRNG (mulberry32) for everything that affects gameplay.
+// The state is a plain object so it can be copied, saved and restored along with the rest of the world.
+
+export interface Rng {
+  state: number;
+}
+
+export const createRng = (seed: number): Rng => ({ state: seed >>> 0 });
+
+// Returns a float in [0, 1) and advances the generator
+export const nextRandom = (rng: Rng): number => {
+  rng.state = (rng.state + 0x6D2B79F5) >>> 0;
+  let t = rng.state;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Fresh seed for a new run (the only place we still want true randomness)
+export const randomSeed = (): number => Math.floor(Math.random() * 4294967296) >>> 0;
+
+// Stable seed from a string, e.g. a date for daily challenges
+export const seedFromString = (text: string): number => {
+  let h = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    h = Math.imul(h ^ text.charCodeAt(i), 16777619);
+  }
+  return h >>> 0;
+};
@@ -0,0 +1,289 @@
+import { LevelConfig, LevelPlatform, PlatformSubtype, Vector2, Size } from '../types';
+import {
+  GRAVITY, JUMP_FORCE, MAX_SPEED, TERMINAL_VELOCITY, DASH_SPEED, DASH_DURATION,
+  PLAYER_WIDTH, PLAYER_HEIGHT, QUICKSAND_JUMP
+} from '../constants';
+import { PLAYER_SPAWN, getLevelBounds, getMotionOffset } from './world';
+import { checkRectCollision } from './collision';
+
+// Reachability validation for level layouts.
+// Instead of guessing with gap sizes, we fly the player's real movement envelope (jump, double jump,
+// dash, bouncy launch) through the level with the same constants and collision rules as the simulation,
+// and search the graph of surfaces the player can land on starting from spawn.
+// Arcs through spikes count as failed; water and quicksand are surfaces to leap (or struggle) out of.
+// Wind is ignored, so a level that relies on a tailwind to cross a gap is reported unreachable.
+
+export interface ReachabilityReport {
+  goalReachable: boolean;
+  unreachableCollectibles: { index: number; x: number; y: number; type: 'seed' | 'shield' }[];
+  unreachablePlatforms: number[]; // Indices into level.platforms
+  reachableSurfaces: number;
+}
+
+interface Solid {
+  position: Vector2;
+  size: Size;
+  kind: PlatformSubtype | 'crate' | 'water' | 'quicksand';
+  platform: number; // Index into level.platforms, -1 for crates and hazards
+  landOnly: boolean; // One-way ledges and moving platforms catch a falling player but never block one
+}
+
+// Movement plans tried from every takeoff point
+type Plan = 'jump' | 'jump_double' | 'jump_double_dash' | 'jump_dash_double' | 'fall' | 'fall_dash';
+const PLANS: Plan[] = ['jump', 'jump_double', 'jump_double_dash', 'jump_dash_double', 'fall', 'fall_dash'];
+
+const MAX_ARC_TICKS = 240;
+const TAKEOFF_SPACING = 100; // Interior takeoff samples along a surface
+const BOUNCE_FORCE = JUMP_FORCE * 1.4;
+const DOUBLE_JUMP_FORCE = JUMP_FORCE * 0.9;
+const MOTION_SAMPLES = 8; // Points along a moving platform's path; the player can wait for any of them
+
+const box = (x: number, y: number, w: number, h: number) => ({ position: { x, y }, size: { width: w, height: h } });
+
+export const validateReachability = (level: LevelConfig): ReachabilityReport => {
+  const solids: Solid[] = [];
+  level.platforms.forEach((p, platform) => {
+    const kind = p.subtype || 'normal';
+    if (!p.motion) {
+      solids.push({ ...box(p.x, p.y, p.w, p.h), kind, platform, landOnly: kind === 'oneway' });
+      return;
+    }
+    for (let k = 0; k < MOTION_SAMPLES; k++) {
+      const offset = getMotionOffset(p.motion, (p.motion.period * k) / MOTION_SAMPLES);
+      solids.push({ ...box(p.x + offset.x, p.y + offset.y, p.w, p.h), kind, platform, landOnly: true });
+    }
+  });
+  (level.obstacles || []).forEach(o => solids.push({ ...box(o.x, o.y, o.w, o.h), kind: 'crate', platform: -1, landOnly: false }));
+  const hazards = level.hazards || [];
+  hazards.forEach(h => {
+    if (h.type === 'water' || h.type === 'quicksand') solids.push({ ...box(h.x, h.y, h.w, h.h), kind: h.type, platform: -1, landOnly: true });
+  });
+  const spikes = hazards.filter(h => h.type === 'spikes').map(h => box(h.x, h.y, h.w, h.h));
+  const collectibles = level.collectibles.map(c => box(c.x, c.y, 30, 30));
+  const goal = box(level.goal.x, level.goal.y, 60, 80);
+
+  const deathY = getLevelBounds(level).killY;
+
+  const collected = new Set<number>();
+  let goalReached = false;
+  const player = box(0, 0, PLAYER_WIDTH, PLAYER_HEIGHT);
+
+  const touchPickups = () => {
+    collectibles.forEach((c, i) => {
+      if (!collected.has(i) && checkRectCollision(player, c, true)) collected.add(i);
+    });
+    if (!goalReached && checkRectCollision(player, goal, true)) goalReached = true;
+  };
+
+  // Fly one arc and return the index of the solid it lands on (-1 if none)
+  const simulateArc = (start: Vector2, dir: number, vy0: number, plan: Plan): number => {
+    player.position.x = start.x;
+    player.position.y = start.y;
+    let vx = dir * MAX_SPEED;
+    let vy = vy0;
+    let doubleUsed = !plan.includes('double');
+    let dashUsed = !plan.includes('dash');
+    let dashTicks = 0;
+
+    for (let tick = 0; tick < MAX_ARC_TICKS; tick++) {
+      // Airborne actions, triggered at the apex like a player would
+      if (!dashUsed && dashTicks === 0 && dir !== 0) {
+        const ready = plan === 'fall_dash' ? tick >= 1
+          : plan === 'jump_double_dash' ? doubleUsed && vy >= 0
+          : vy >= 0;
+        if (ready) {
+          dashUsed = true;
+          dashTicks = DASH_DURATION;
+        }
+      }
+
+      if (dashTicks > 0) {
+        dashTicks--;
+        vx = dir * DASH_SPEED;
+        vy = 0; // Gravity suspended while dashing
+        if (dashTicks === 0) vx = dir * MAX_SPEED;
+      } else {
+        if (!doubleUsed && vy >= 0 && (plan !== 'jump_dash_double' || dashUsed)) {
+          doubleUsed = true;
+          vy = DOUBLE_JUMP_FORCE;
+        }
+        vy = Math.min(vy + GRAVITY, TERMINAL_VELOCITY);
+      }
+
+      player.position.x += vx;
+      player.position.y += vy;
+
+      for (let i = 0; i < solids.length; i++) {
+        const s = solids[i];
+        if (!checkRectCollision(player, s)) continue;
+
+        const prevY = player.position.y - vy;
+        const prevX = player.position.x - vx;
+
+        if (prevY + PLAYER_HEIGHT <= s.position.y && vy >= 0) {
+          // Landing
+          player.position.y = s.position.y - PLAYER_HEIGHT;
+          touchPickups();
+          return i;
+        } else if (s.landOnly) {
+          continue;
+        } else if (prevY >= s.position.y + s.size.height && vy < 0) {
+          // Bonk (crates break, but the bump still stops upward motion)
+          player.position.y = s.position.y + s.size.height;
+          vy = 0;
+        } else if (s.kind === 'crate' && dashTicks > 0) {
+          // Dashing smashes straight through crates
+          continue;
+        } else if (prevX + PLAYER_WIDTH <= s.position.x) {
+          player.position.x = s.position.x - PLAYER_WIDTH;
+          vx = 0;
+        } else if (prevX >= s.position.x + s.size.width) {
+          player.position.x = s.position.x + s.size.width;
+          vx = 0;
+        }
+      }
+
+      touchPickups();
+      if (player.position.y > deathY) return -1;
+      if (spikes.some(sp => checkRectCollision(player, sp))) return -1;
+    }
+    return -1;
+  };
+
+  // Takeoff x positions for the player standing on a solid
+  const takeoffPoints = (s: Solid): number[] => {
+    const left = s.position.x - PLAYER_WIDTH / 2;
+    const right = s.position.x + s.size.width - PLAYER_WIDTH / 2;
+    const points = [left, right];
+    for (let x = left + TAKEOFF_SPACING; x < right; x += TAKEOFF_SPACING) points.push(x);
+    return points;
+  };
+
+  // Breadth-first search over landable solids, starting from wherever the spawn drop lands
+  const reached = new Set<number>();
+  const queue: number[] = [];
+  const visit = (index: number) => {
+    if (index < 0 || reached.has(index)) return;
+    reached.add(index);
+    queue.push(index);
+  };
+
+  visit(simulateArc(PLAYER_SPAWN, 0, 0, 'fall'));
+
+  while (queue.length > 0) {
+    const s = solids[queue.shift()!];
+    // Swimmers leap with their head at the surface; quicksand has them half sunk
+    const standY = s.kind === 'water' ? s.position.y : s.kind === 'quicksand' ? s.position.y - PLAYER_HEIGHT / 2 : s.position.y - PLAYER_HEIGHT;
+
+    if (s.kind === 'water') {
+      // Swimming reaches everything underwater
+      collectibles.forEach((c, i) => { if (checkRectCollision(c, s)) collected.add(i); });
+      if (checkRectCollision(goal, s)) goalReached = true;
+    } else if (s.kind !== 'bouncy') {
+      // Walking the length of the surface picks up anything resting on it
+      player.position.x = s.position.x - PLAYER_WIDTH + 1;
+      player.position.y = standY;
+      player.size.width = s.size.width + PLAYER_WIDTH * 2 - 2;
+      touchPickups();
+      player.size.width = PLAYER_WIDTH;
+    }
+
+    const launchForce = s.kind === 'bouncy' ? BOUNCE_FORCE : s.kind === 'quicksand' ? QUICKSAND_JUMP : JUMP_FORCE;
+    for (const x of takeoffPoints(s)) {
+      for (const dir of [-1, 0, 1]) {
+        for (const plan of PLANS) {
+          if (plan.startsWith('fall')) {
+            // Walking off an edge only makes sense at the edge we are walking towards
+            if (dir === 0 || s.kind === 'bouncy' || s.landOnly && s.platform < 0) continue;
+            const edgeX = dir > 0 ? s.position.x + s.size.width : s.position.x - PLAYER_WIDTH;
+            visit(simulateArc({ x: edgeX, y: standY }, dir, 0, plan));
+          } else {
+            visit(simulateArc({ x, y: standY }, dir, launchForce, plan));
+          }
+        }
+      }
+    }
+  }
+
+  const reachedPlatforms = new Set([...reached].map(i => solids[i].platform));
+  return {
+    goalReachable: goalReached,
+    unreachableCollectibles: level.collectibles
+      .map((c, index) => ({ index, x: c.x, y: c.y, type: c.type || 'seed' as const }))
+      .filter(c => !collected.has(c.index)),
+    unreachablePlatforms: level.platforms.map((_, i) => i).filter(i => !reachedPlatforms.has(i)),
+    reachableSurfaces: reached.size
+  };
+};
+
+// Ground bridge laid when there is no path to the goal
+const BRIDGE_GAP = 150;
+const BRIDGE_WIDTH = 200;
+
+// Ledge ladder laid up a climb instead
+const LADDER_RISE = 110;
+const LADDER_STEP = 160;
+const LADDER_WIDTH = 140;
+const LADDER_CLEARANCE = 40; // Vertical room kept around existing platforms (bouncy pads need their launch headroom)
+const BOUNCE_HEADROOM = 120;
+
+
+const layBridge = (level: LevelConfig, reachable: LevelPlatform[]) => {
+  const furthest = reachable.reduce((best, p) => (p.x + p.w > best.x + best.w ? p : best), reachable[0]);
+  let bridgeX = furthest ? furthest.x + furthest.w : 0;
+  while (bridgeX < level.goal.x - 100) {
+    bridgeX += BRIDGE_GAP;
+    level.platforms.push({ x: bridgeX, y: 500, w: BRIDGE_WIDTH, h: 40, subtype: 'normal' });
+    bridgeX += BRIDGE_WIDTH;
+  }
+};
+
+// Zig-zag ledges up from the highest reachable one, drifting towards the goal.
+// Rungs that would crowd an existing platform or bury a pickup are skipped; the platform there stands in for them.
+const layLadder = (level: LevelConfig, reachable: LevelPlatform[]) => {
+  const crowded = (x: number, y: number) =>
+    level.platforms.some(p => {
+      if (x >= p.x + p.w || x + LADDER_WIDTH <= p.x) return false;
+      const above = p.subtype === 'bouncy' ? BOUNCE_HEADROOM : LADDER_CLEARANCE;
+      return y + 20 > p.y - above && y < p.y + p.h + LADDER_CLEARANCE;
+    }) ||
+    level.collectibles.some(c => x < c.x + 30 && x + LADDER_WIDTH > c.x && y < c.y + 30 && y + 20 > c.y);
+
+  const highest = reachable.reduce((best, p) => (p.y < best.y ? p : best), reachable[0]);
+  const maxX = getLevelBounds(level).width - LADDER_WIDTH;
+  const targetX = level.goal.x + 30 - LADDER_WIDTH / 2;
+  let x = highest ? highest.x : 0;
+  let y = highest ? highest.y : PLAYER_SPAWN.y;
+  let dir = 1;
+  while (y - LADDER_RISE > level.goal.y + 80) {
+    const dx = targetX - x;
+    if (Math.abs(dx) > LADDER_STEP) x += Math.sign(dx) * LADDER_STEP;
+    else x += (dir = -dir) * LADDER_STEP;
+    x = Math.min(Math.max(x, 0), maxX);
+    y -= LADDER_RISE;
+    if (!crowded(x, y)) level.platforms.push({ x, y, w: LADDER_WIDTH, h: 20, subtype: 'normal' });
+  }
+};
+
+// Validate a level and fix what we can in place: bridge (or, in a climb, build a ladder) towards an
+// unreachable goal and drop collectibles nobody can get to. Returns the report for the repaired level.
+export const repairReachability = (level: LevelConfig): ReachabilityReport => {
+  let report = validateReachability(level);
+
+  if (!report.goalReachable) {
+    const reachable = level.platforms.filter((_, i) => !report.unreachablePlatforms.includes(i));
+    if (level.archetype === 'climb') layLadder(level, reachable);
+    else layBridge(level, reachable);
+    level.platforms.sort((a, b) => a.x - b.x);
+    report = validateReachability(level);
+  }
+
+  if (report.unreachableCollectibles.length > 0) {
+    // Pickups nobody can reach only make the level look harder than it is
+    const unreachable = new Set(report.unreachableCollectibles.map(c => c.index));
+    level.collectibles = level.collectibles.filter((_, i) => !unreachable.has(i));
+    report = { ...report, unreachableCollectibles: [] };
+  }
+
+  return report;
+};
@@ -0,0 +1,60 @@
+import { InputState, LevelConfig } from '../types';
+
+// Replays store the level, the RNG seed and one input snapshot per simulation tick.
+// Because the simulation is deterministic, that is enough to reproduce a run exactly.
+
+export const REPLAY_VERSION = 1;
+
+export interface Replay {
+  version: number;
+  level: LevelConfig;
+  seed: number;
+  // Run-length encoded input bitmasks: [mask, count, mask, count, ...]
+  inputs: number[];
+  ticks: number;
+  recordedAt: string;
+}
+
+const INPUT_BITS: (keyof InputState)[] = ['left', 'right', 'up', 'jumpPressed', 'dashPressed'];
+
+export const encodeInput = (input: InputState): number => {
+  return INPUT_BITS.reduce((mask, key, bit) => input[key] ? mask | (1 << bit) : mask, 0);
+};
+
+export const decodeInput = (mask: number): InputState => ({
+  left: (mask & 1) !== 0,
+  right: (mask & 2) !== 0,
+  up: (mask & 4) !== 0,
+  jumpPressed: (mask & 8) !== 0,
+  dashPressed: (mask & 16) !== 0
+});
+
+export const createReplay = (level: LevelConfig, seed: number): Replay => ({
+  version: REPLAY_VERSION,
+  level,
+  seed,
+  inputs: [],
+  ticks: 0,
+  recordedAt: new Date().toISOString()
+});
+
+// Append the input used for the next tick
+export const recordInput = (replay: Replay, input: InputState) => {
+  const mask = encodeInput(input);
+  const last = replay.inputs.length - 2;
+  if (last >= 0 && replay.inputs[last] === mask) {
+    replay.inputs[last + 1]++;
+  } else {
+    replay.inputs.push(mask, 1);
+  }
+  replay.ticks++;
+};
+
+// Expand the run-length encoding into one mask per tick for random access during playback
+export const expandInputs = (replay: Replay): number[] => {
+  const masks: number[] = [];
+  for (let i = 0; i < replay.inputs.length; i += 2) {
+    for (let n = 0; n < replay.inputs[i + 1]; n++) masks.push(replay.inputs[i]);
+  }
+  return masks;
+};
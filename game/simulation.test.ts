@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { GameEvent, InputState, LevelConfig } from '../types';
+import { SEED_POINTS } from '../constants';
+import { createWorld } from './world';
+import { stepWorld } from './simulation';
+
+const RUN_RIGHT: InputState = { left: false, right: true, up: false, jumpPressed: false, dashPressed: false };
+
+// A short ledge with seeds along it, then a pit; the goal is out of reach
+const PIT_LEVEL: LevelConfig = {
+  name: 'Pit',
+  description: 'Run off the edge',
+  platforms: [{ x: 0, y: 500, w: 400, h: 100 }, { x: 1200, y: 500, w: 400, h: 100 }],
+  obstacles: [],
+  enemies: [],
+  collectibles: [{ x: 150, y: 440 }, { x: 250, y: 440 }],
+  goal: { x: 1400, y: 450 },
+  bounds: { width: 1600, height: 1000, killY: 900 }
+};
+
+const stepUntil = (level: LevelConfig, done: (event: GameEvent) => boolean, maxTicks = 600) => {
+  const world = createWorld(level, 1);
+  const events: GameEvent[] = [];
+  for (let i = 0; i < maxTicks && !events.some(done); i++) events.push(...stepWorld(world, { ...RUN_RIGHT }));
+  return { world, events };
+};
+
+const pointsIn = (events: GameEvent[], source?: string) =>
+  events.reduce((sum, e) => (e.type === 'score' && (!source || e.source === source) ? sum + e.points : sum), 0);
+
+describe('simulation', () => {
+  it('takes back the points and seeds picked up since the checkpoint when the player falls', () => {
+    const { world, events } = stepUntil(PIT_LEVEL, e => e.type === 'rollback');
+
+    expect(events.filter(e => e.type === 'collect')).toHaveLength(2);
+    expect(pointsIn(events)).toBeGreaterThan(0);
+
+    expect(events).toContainEqual({ type: 'rollback', score: 0, seeds: 0, seedPoints: 0 });
+    expect(world.score).toBe(0);
+    expect(world.seeds).toBe(0);
+    expect(world.seedPoints).toBe(0);
+    expect(world.collectibles.every(c => !c.isBroken)).toBe(true);
+  });
+
+  it('keeps what was picked up before the checkpoint', () => {
+    const level: LevelConfig = { ...PIT_LEVEL, checkpoints: [{ x: 320, y: 420 }] };
+    const { world, events } = stepUntil(level, e => e.type === 'rollback');
+
+    expect(events).toContainEqual({ type: 'rollback', score: pointsIn(events), seeds: 2, seedPoints: pointsIn(events, 'seed') });
+    expect(world.seeds).toBe(2);
+    expect(world.collectibles.every(c => c.isBroken)).toBe(true);
+  });
+
+  it('reports seed points with the combo already applied', () => {
+    // A column of seeds down the pit, picked up in one fall
+    const collectibles = [0, 1, 2, 3, 4, 5].flatMap(row => [420, 460, 500, 540].map(x => ({ x, y: 520 + row * 50 })));
+    const { events } = stepUntil({ ...PIT_LEVEL, collectibles }, e => e.type === 'rollback');
+    const seedScores = events.flatMap(e => (e.type === 'score' && e.source === 'seed' ? [e] : []));
+
+    expect(seedScores.length).toBeGreaterThan(1);
+    seedScores.forEach(e => expect(e.points).toBe(SEED_POINTS * e.combo));
+    expect(Math.max(...seedScores.map(e => e.combo))).toBeGreaterThan(1);
+  });
+});
@@ -0,0 +1,646 @@
+import { GameObject, GameEvent, InputState, Vector2, BossType, DamageCause, EnemyType, ScoreSource } from '../types';
+import {
+  GRAVITY, FRICTION, AIR_FRICTION, JUMP_FORCE,
+  MOVE_SPEED, AIR_CONTROL, MAX_SPEED, TERMINAL_VELOCITY, PLAYER_WIDTH, PLAYER_HEIGHT, COLORS,
+  SHIELD_DURATION, SHIELD_WARNING, DASH_SPEED, DASH_DURATION, DASH_COOLDOWN,
+  COYOTE_FRAMES, INVINCIBILITY_DURATION, CRUMBLE_TIME,
+  CLIMB_FALL_ROOM, CLIMB_KILL_MARGIN, STOMP_TOLERANCE, STOMP_BOUNCE, SEED_POINTS, STOMP_POINTS, CRATE_POINTS, MAX_COMBO,
+  BOSS_HIT_COOLDOWN, BOSS_HIT_POINTS, BOSS_DEFEAT_POINTS,
+  WATER_GRAVITY, WATER_DRAG, WATER_MAX_SPEED, SWIM_FORCE, QUICKSAND_SINK, QUICKSAND_MAX_SPEED, QUICKSAND_JUMP
+} from '../constants';
+import { World, getMotionOffset } from './world';
+import { updateBoss, isBossTouchable, isBossStompable } from './boss';
+import { checkRectCollision, checkCircleRectCollision, getBounds } from './collision';
+import { nextRandom } from './random';
+import { spawnDebris } from './effects';
+import { updateEnemy, isEnemyHidden, isEnemyStompable } from './enemies';
+
+const handlePlayerDamage = (world: World, events: GameEvent[], cause: DamageCause) => {
+    if (world.invincibility > 0 || world.isGameOver || world.shieldTimer > 0 || world.player.isDashing) return;
+
+    events.push({ type: 'damage', cause });
+    world.lives -= 1;
+    events.push({ type: 'lives', lives: world.lives });
+    world.combo = 0;
+    world.shakeTimer = 20; // Screen shake
+    world.shakeStrength = 10;
+
+    if (world.lives <= 0) {
+        world.isGameOver = true;
+        // Death hop
+        world.player.velocity.y = -15;
+    } else {
+        // Respawn at safe pos
+        world.player.position = { ...world.lastSafePos };
+        world.player.velocity = { x: 0, y: 0 };
+        world.standingOn = null;
+        world.invincibility = INVINCIBILITY_DURATION;
+    }
+};
+
+// Lock in the player's progress at a checkpoint burrow
+const saveCheckpoint = (world: World, checkpoint: GameObject) => {
+    const { player } = world;
+    checkpoint.activated = true;
+    world.checkpoint = {
+        position: {
+            x: checkpoint.position.x + (checkpoint.size.width - player.size.width) / 2,
+            y: checkpoint.position.y + checkpoint.size.height - player.size.height
+        },
+        killY: world.killY,
+        collected: world.collectibles.filter(c => c.isBroken).map(c => c.id),
+        brokenCrates: world.obstacles.filter(o => o.isBroken).map(o => o.id),
+        score: world.score,
+        seeds: world.seeds,
+        seedPoints: world.seedPoints
+    };
+};
+
+// A fall costs a life and winds the level back to the last checkpoint (or the start)
+const handlePlayerFall = (world: World, events: GameEvent[]) => {
+    const { player, checkpoint } = world;
+    events.push({ type: 'fell' });
+    world.lives -= 1;
+    events.push({ type: 'lives', lives: world.lives });
+    world.combo = 0;
+
+    if (world.lives <= 0) {
+        world.isGameOver = true;
+        player.velocity.y = -15; // Visual death hop
+        return;
+    }
+
+    player.position = { ...checkpoint.position };
+    player.velocity = { x: 0, y: 0 };
+    player.isDashing = false;
+    world.dashTimer = 0;
+    world.standingOn = null;
+    world.lastSafePos = { ...checkpoint.position };
+    world.killY = checkpoint.killY;
+    world.invincibility = INVINCIBILITY_DURATION;
+    world.shakeTimer = 20;
+    world.shakeStrength = 10;
+
+    // Pickups and crates from after the checkpoint come back, along with what they paid out
+    world.collectibles.forEach(c => { c.isBroken = checkpoint.collected.includes(c.id); });
+    world.obstacles.forEach(o => { o.isBroken = checkpoint.brokenCrates.includes(o.id); });
+    world.score = checkpoint.score;
+    world.seeds = checkpoint.seeds;
+    world.seedPoints = checkpoint.seedPoints;
+    events.push({ type: 'rollback', score: checkpoint.score, seeds: checkpoint.seeds, seedPoints: checkpoint.seedPoints });
+};
+
+// Every scoring action extends the airborne chain, and the chain multiplies what it is worth
+const awardPoints = (world: World, events: GameEvent[], points: number, source: ScoreSource) => {
+    world.combo++;
+    const combo = Math.min(world.combo, MAX_COMBO);
+    world.score += points * combo;
+    if (source === 'seed') world.seedPoints += points * combo;
+    events.push({ type: 'score', points: points * combo, combo, source });
+};
+
+// Stomping something bounces the player off its top, higher while jump is held; the double jump comes back like on a bouncy pad
+const stompBounce = (world: World, input: InputState, events: GameEvent[], top: number) => {
+    const player = world.player;
+    player.position.y = top - player.size.height;
+    player.velocity.y = input.up ? JUMP_FORCE : STOMP_BOUNCE;
+    player.canDoubleJump = true;
+    events.push({ type: 'jump' });
+    world.shakeTimer = 5;
+    world.shakeStrength = 3;
+};
+
+// Respawn points must not sit in spikes, water or quicksand (wind is harmless)
+const isSafeSpot = (world: World, spot: Vector2) => {
+    const probe = { position: spot, size: world.player.size };
+    return !world.hazards.some(h => h.subtype !== 'wind' && checkRectCollision(probe, h));
+};
+
+// Climbs only: lift the death plane to just under the lowest solid ledge the player could still fall back to
+const raiseClimbKillPlane = (world: World, safeLedgeY: number) => {
+    let lowestLedgeY = safeLedgeY;
+    world.platforms.forEach(p => {
+        if (p.isBroken || p.subtype === 'crumble' || p.motion) return;
+        if (p.position.y > lowestLedgeY && p.position.y <= safeLedgeY + CLIMB_FALL_ROOM) lowestLedgeY = p.position.y;
+    });
+    world.killY = Math.min(world.killY, lowestLedgeY + CLIMB_KILL_MARGIN);
+};
+
+const updatePlayerAnimation = (world: World) => {
+    const anim = world.anim;
+
+    // Determine sprite row speed
+    // 0:Idle, 1:Run, 2:Jump, 3:Walk
+    let speedDiv = 10; // Frames per sprite update
+    if (anim.state === 'run') speedDiv = 5;
+    else if (anim.state === 'jump') anim.frame = world.player.velocity.y < 0 ? 0 : 1; // Up/Down frames
+    else if (anim.state === 'walk') speedDiv = 8;
+
+    // Update Frame Timer
+    anim.timer++;
+    if (anim.timer >= speedDiv && anim.state !== 'jump') {
+        anim.frame = (anim.frame + 1) % 4; // 4 frames per row
+        anim.timer = 0;
+    }
+};
+
+/**
+ * Advance the world by one fixed simulation step (1 / SIMULATION_HZ seconds).
+ * The jump/dash latches on `input` are cleared once they are consumed, exactly like the old input ref.
+ * Sound, scoring and status changes are left to the caller via the returned events.
+ */
+export const stepWorld = (world: World, input: InputState): GameEvent[] => {
+  const events: GameEvent[] = [];
+  if (world.result) return events;
+
+  const player = world.player;
+  world.tick++;
+
+  // --- GAME OVER SEQUENCE ---
+  if (world.isGameOver) {
+       // Simple physics for death fall
+       player.velocity.y += GRAVITY;
+       player.position.y += player.velocity.y;
+       world.gameOverTimer++;
+
+       // Screen shake decay
+       if (world.shakeTimer > 0) world.shakeTimer--;
+
+       if (world.gameOverTimer > 100) { // ~1.6 seconds
+           world.result = 'lose';
+           events.push({ type: 'lose' });
+       }
+       return events;
+  }
+
+  // --- NORMAL UPDATE ---
+
+  // 1. Update Effects Timers
+  if (world.coyoteFrames > 0) world.coyoteFrames--;
+  if (world.invincibility > 0) world.invincibility--;
+  if (world.shieldTimer > 0) {
+      world.shieldTimer--;
+      if (world.shieldTimer === SHIELD_WARNING) events.push({ type: 'shield', state: 'expiring' });
+      else if (world.shieldTimer === 0) events.push({ type: 'shield', state: 'ended' });
+  }
+  if (world.shakeTimer > 0) world.shakeTimer--;
+  if (world.dashCooldown > 0) {
+      world.dashCooldown--;
+      if (world.dashCooldown === 0) events.push({ type: 'dash_ready' });
+  }
+
+  // Spin Animation Update
+  if (world.anim.spin > 0) {
+      world.anim.spin -= 20; // Rotate 20 degrees per frame back to 0
+      if (world.anim.spin < 0) world.anim.spin = 0;
+  }
+
+  // Hazard volumes the player is in decide this step's physics
+  const wasInWater = world.inWater;
+  world.inWater = false;
+  let waterSurface = Infinity;
+  const quicksand = world.hazards.find(h => h.subtype === 'quicksand' && checkRectCollision(player, h));
+  world.inQuicksand = !!quicksand;
+  const wind = { x: 0, y: 0 };
+  world.hazards.forEach(h => {
+      if (!checkRectCollision(player, h)) return;
+      if (h.subtype === 'water') {
+          world.inWater = true;
+          waterSurface = Math.min(waterSurface, h.position.y);
+      } else if (h.subtype === 'wind') {
+          wind.x += h.force!.x;
+          wind.y += h.force!.y;
+      }
+  });
+  if (world.inWater && !wasInWater) {
+      events.push({ type: 'splash' });
+      spawnDebris(world, player.position.x, waterSurface - 20, '#7DD3FC', 8);
+  }
+
+  // Moving platforms follow their paths; the step they took is kept so riders move with them
+  world.platforms.forEach(p => {
+      if (!p.motion) return;
+      const offset = getMotionOffset(p.motion, world.tick);
+      const x = p.initialPosition!.x + offset.x;
+      const y = p.initialPosition!.y + offset.y;
+      p.velocity = { x: x - p.position.x, y: y - p.position.y };
+      p.position.x = x;
+      p.position.y = y;
+  });
+
+  // 2. Physics Calculation
+
+  // Dash Logic
+  if (input.dashPressed && world.dashCooldown <= 0 && !player.isDashing) {
+      player.isDashing = true;
+      world.dashTimer = DASH_DURATION;
+      world.dashCooldown = DASH_COOLDOWN;
+      events.push({ type: 'dash' });
+
+      // Dash impulse
+      const dir = player.facingRight ? 1 : -1;
+      player.velocity.x = dir * DASH_SPEED;
+      player.velocity.y = 0; // Gravity suspension start
+
+      spawnDebris(world, player.position.x + PLAYER_WIDTH/2, player.position.y + PLAYER_HEIGHT/2, 'white', 8);
+      events.push({ type: 'jump' }); // Reuse jump sound or new sound
+      world.shakeTimer = 5;
+      world.shakeStrength = 2;
+      input.dashPressed = false;
+  }
+
+  if (player.isDashing) {
+      world.dashTimer--;
+
+      // Maintain Dash Speed
+      const dir = player.facingRight ? 1 : -1;
+      player.velocity.x = dir * DASH_SPEED;
+      player.velocity.y = 0; // Suspend gravity
+
+      // Trail particles
+      if (nextRandom(world.fxRng) > 0.5) {
+          world.particles.push({
+              x: player.position.x + nextRandom(world.fxRng) * PLAYER_WIDTH,
+              y: player.position.y + nextRandom(world.fxRng) * PLAYER_HEIGHT,
+              vx: -dir * nextRandom(world.fxRng) * 2,
+              vy: (nextRandom(world.fxRng) - 0.5),
+              life: 10,
+              color: 'rgba(255,255,255,0.5)',
+              size: 2
+          });
+      }
+
+      if (world.dashTimer <= 0) {
+          player.isDashing = false;
+          player.velocity.x = Math.sign(player.velocity.x) * MAX_SPEED; // Clamp exit speed
+      }
+  }
+  else {
+      // Normal Horizontal Movement
+      if (input.left) {
+          player.velocity.x -= MOVE_SPEED * (player.isGrounded ? 1 : AIR_CONTROL);
+          player.facingRight = false;
+          world.anim.state = Math.abs(player.velocity.x) > 8 ? 'run' : 'walk';
+      } else if (input.right) {
+          player.velocity.x += MOVE_SPEED * (player.isGrounded ? 1 : AIR_CONTROL);
+          player.facingRight = true;
+          world.anim.state = Math.abs(player.velocity.x) > 8 ? 'run' : 'walk';
+      } else {
+          // Idle friction
+          player.velocity.x *= player.isGrounded ? FRICTION : AIR_FRICTION;
+          if (Math.abs(player.velocity.x) < 0.5) {
+            player.velocity.x = 0;
+            world.anim.state = 'idle';
+          } else {
+            world.anim.state = Math.abs(player.velocity.x) > 8 ? 'run' : 'walk';
+          }
+      }
+
+      // Clamp Speed
+      const maxSpeed = world.inQuicksand ? QUICKSAND_MAX_SPEED : world.inWater ? WATER_MAX_SPEED : MAX_SPEED;
+      player.velocity.x = Math.max(Math.min(player.velocity.x, maxSpeed), -maxSpeed);
+
+      // Jumping Logic
+      if (input.jumpPressed) {
+        // Swimming: every press is a stroke, and a full jump once the head is above the surface
+        if (world.inWater) {
+          player.velocity.y = player.position.y <= waterSurface ? JUMP_FORCE : SWIM_FORCE;
+          events.push({ type: 'jump' });
+        }
+        // Normal Jump / Coyote Jump (quicksand only allows a feeble hop)
+        else if (player.isGrounded || world.coyoteFrames > 0 || world.inQuicksand) {
+          player.velocity.y = world.inQuicksand ? QUICKSAND_JUMP : JUMP_FORCE;
+          player.isGrounded = false;
+          player.canDoubleJump = true; // Enable double jump
+          world.coyoteFrames = 0;
+          events.push({ type: 'jump' });
+        }
+        // Double Jump
+        else if (player.canDoubleJump) {
+            player.velocity.y = JUMP_FORCE * 0.9; // Slightly less force
+            player.canDoubleJump = false; // Consume double jump
+            world.anim.spin = 360; // Trigger spin animation
+            events.push({ type: 'jump' });
+            spawnDebris(world, player.position.x + PLAYER_WIDTH/2, player.position.y + PLAYER_HEIGHT, 'white', 6); // Cloud effect
+        }
+        input.jumpPressed = false; // Consume jump
+      } else if (player.velocity.y < 0 && !input.up && !world.inWater) {
+        // Variable Jump Height: Damping if key released early
+        player.velocity.y *= 0.6;
+      }
+
+      // Gravity (water turns the fall into a slow sink, quicksand into a slower one)
+      if (world.inWater) {
+          player.velocity.x *= WATER_DRAG;
+          player.velocity.y = (player.velocity.y + WATER_GRAVITY) * WATER_DRAG;
+      } else {
+          player.velocity.y += GRAVITY;
+          player.velocity.y = Math.min(player.velocity.y, world.inQuicksand ? QUICKSAND_SINK : TERMINAL_VELOCITY);
+      }
+
+      // Wind pushes, but an updraft never lifts faster than a jump
+      player.velocity.x += wind.x;
+      if (wind.y !== 0) player.velocity.y = Math.max(player.velocity.y + wind.y, JUMP_FORCE);
+  }
+
+  // Riding: whatever the player stood on last step carries them along, and conveyor belts push them
+  const carry = { x: 0, y: 0 };
+  const ground = world.standingOn;
+  if (ground && !ground.isBroken) {
+      carry.x = (ground.velocity?.x || 0) + (ground.conveyorSpeed || 0);
+      carry.y = ground.velocity?.y || 0;
+  }
+
+  // Apply Velocity
+  player.position.x += player.velocity.x + carry.x;
+  player.position.y += player.velocity.y + carry.y;
+
+  // Jump Animation Override
+  if (!player.isGrounded && !player.isDashing) {
+      world.anim.state = 'jump';
+  }
+
+  // 3. Collisions
+  let groundedThisFrame = false;
+
+  // Platforms & Obstacles
+  const checkEnvironmentCollision = (obj: GameObject) => {
+       if (obj.isBroken) return;
+
+       // Simple AABB Logic for floor/walls
+       // We use the object bounds directly
+       const b = getBounds(obj);
+
+       // Predict previous positions (of the player and of a moving platform) to determine collision side
+       const prevY = player.position.y - player.velocity.y - carry.y;
+       const prevX = player.position.x - player.velocity.x - carry.x;
+       const prevTop = b.y - (obj.velocity?.y || 0);
+       const prevLeft = b.x - (obj.velocity?.x || 0);
+
+       if (checkRectCollision(player, obj, false)) {
+           const landing = prevY + player.size.height <= prevTop && player.velocity.y >= 0;
+           // One-way ledges only catch the player from above
+           if (obj.subtype === 'oneway' && !landing) return;
+
+           // Top Collision (Landing)
+           if (landing) {
+
+               // Bouncy Platform Logic
+               if (obj.subtype === 'bouncy') {
+                   player.position.y = b.y - player.size.height;
+                   player.velocity.y = JUMP_FORCE * 1.4; // Super Bounce
+                   player.isGrounded = false; // Immediately airborne
+                   player.canDoubleJump = true; // Restore double jump
+                   events.push({ type: 'jump' }); // Play sound
+                   spawnDebris(world, obj.position.x + obj.size.width/2, obj.position.y, '#EC4899', 5); // Pink bounce particles
+                   return; // Skip normal grounding
+               }
+
+               player.position.y = b.y - player.size.height;
+               player.velocity.y = 0;
+               player.isGrounded = true;
+               groundedThisFrame = true;
+               world.standingOn = obj;
+
+               // Handle Crumble
+               if (obj.subtype === 'crumble') {
+                   obj.timer = (obj.timer || CRUMBLE_TIME) - 1;
+                   // Shake effect for platform
+                   if (nextRandom(world.rng) > 0.5) obj.position.x += (nextRandom(world.rng) - 0.5) * 2;
+
+                   if (obj.timer <= 0) {
+                       obj.isBroken = true;
+                       spawnDebris(world, obj.position.x + obj.size.width/2, obj.position.y, COLORS.ground, 10);
+                       events.push({ type: 'platform_crumbled' }); // Sound effect for breaking
+                   }
+               } else if (!obj.motion) { // Respawning onto a platform that has moved on would drop the player
+                   const spot = { x: obj.position.x, y: obj.position.y - 40 };
+                   if (isSafeSpot(world, spot)) world.lastSafePos = spot;
+                   if (world.level.archetype === 'climb') raiseClimbKillPlane(world, obj.position.y);
+               }
+           }
+           // Bottom Collision (Bonk)
+           else if (prevY >= prevTop + b.h && player.velocity.y < 0) {
+               player.position.y = b.y + b.h;
+               player.velocity.y = 0;
+
+               // Break Crate from below
+               if (obj.type === 'obstacle' && obj.subtype === 'crate') {
+                   obj.isBroken = true;
+                   spawnDebris(world, obj.position.x + obj.size.width/2, obj.position.y + obj.size.height/2, '#8B4513', 8);
+                   events.push({ type: 'crate_broken' });
+                   awardPoints(world, events, CRATE_POINTS, 'crate');
+               }
+           }
+           // Side Collisions
+           else if (prevX + player.size.width <= prevLeft) {
+               player.position.x = b.x - player.size.width;
+               player.velocity.x = 0;
+           }
+           else if (prevX >= prevLeft + b.w) {
+               player.position.x = b.x + b.w;
+               player.velocity.x = 0;
+           }
+       }
+  };
+
+  world.standingOn = null;
+  world.platforms.forEach(checkEnvironmentCollision);
+  world.obstacles.forEach(obj => {
+      // Special logic for crates - destroy on impact if shielded or jumped on
+      if (obj.isBroken) return;
+
+      // If shielded or dashing, break instantly on touch
+      if ((world.shieldTimer > 0 || player.isDashing) && checkRectCollision(player, obj, true)) {
+          obj.isBroken = true;
+          spawnDebris(world, obj.position.x + obj.size.width/2, obj.position.y, '#8B4513', 10);
+          events.push({ type: 'crate_broken' });
+          awardPoints(world, events, CRATE_POINTS, 'crate');
+          return;
+      }
+      checkEnvironmentCollision(obj);
+  });
+
+  player.isGrounded = groundedThisFrame;
+  if (groundedThisFrame) {
+      world.coyoteFrames = COYOTE_FRAMES;
+      player.canDoubleJump = true; // Reset Double Jump on ground
+      world.combo = 0; // Touching the ground ends the chain
+  }
+
+  // Boss arena: walking in shuts it behind the player until the boss is beaten
+  const bossAlive = !!world.boss && !world.boss.isBroken;
+  if (bossAlive) {
+      const arena = world.level.boss!.arena;
+      if (!world.arenaLocked && player.position.x >= arena.x) world.arenaLocked = true;
+      if (world.arenaLocked) {
+          const left = arena.x;
+          const right = arena.x + arena.w - player.size.width;
+          world.lastSafePos.x = Math.max(left, Math.min(right, world.lastSafePos.x)); // Respawns stay in the fight
+          const x = Math.max(left, Math.min(right, player.position.x));
+          if (x !== player.position.x) {
+              player.position.x = x;
+              player.velocity.x = 0;
+          }
+      }
+  }
+
+  // World Bounds (Death Floor)
+  if (player.position.y > world.killY && !world.isGameOver) handlePlayerFall(world, events);
+
+  // Spikes hurt on touch; quicksand swallows the player once it closes over their head
+  if (world.hazards.some(h => h.subtype === 'spikes' && checkRectCollision(player, h))) {
+      handlePlayerDamage(world, events, 'spikes');
+  } else if (quicksand && player.position.y > quicksand.position.y) {
+      handlePlayerDamage(world, events, 'quicksand');
+  }
+
+  // Collectibles
+  world.collectibles.forEach(c => {
+      if (c.isBroken) return;
+      if (checkRectCollision(player, c, true)) { // Use hurtbox for easier collection
+          c.isBroken = true;
+          if (c.subtype === 'shield') {
+              world.shieldTimer = SHIELD_DURATION;
+              events.push({ type: 'collect', subtype: 'shield' });
+              events.push({ type: 'shield', state: 'started' });
+              world.shakeTimer = 20;
+              world.shakeStrength = 5;
+          } else {
+              world.seeds++;
+              events.push({ type: 'collect', subtype: 'seed' });
+              awardPoints(world, events, SEED_POINTS, 'seed');
+              world.shakeTimer = 5;
+              world.shakeStrength = 2;
+          }
+      }
+  });
+
+  // Checkpoints
+  world.checkpoints.forEach(cp => {
+      if (cp.activated || !checkRectCollision(player, cp, true)) return;
+      saveCheckpoint(world, cp);
+      events.push({ type: 'checkpoint' });
+  });
+
+  // Goal (shut while a boss still guards the level)
+  if (world.goal && !bossAlive && checkRectCollision(player, world.goal, true)) {
+      world.result = 'win';
+      events.push({ type: 'win' });
+      return events;
+  }
+
+  // Enemies Update & Collision
+  world.enemies.forEach(enemy => {
+      if (enemy.isBroken) return;
+
+      updateEnemy(world, enemy);
+      if (enemy.isBroken) return; // Fell out of the level
+
+      // Damage check
+      if (isEnemyHidden(enemy)) return;
+
+      if (checkRectCollision(player, enemy, true)) {
+          // Stomp: falling onto the enemy with the feet still above its head last step
+          const prevBottom = player.position.y + player.size.height - player.velocity.y - carry.y;
+          const stomped = player.velocity.y > 0 && prevBottom <= enemy.position.y + STOMP_TOLERANCE && isEnemyStompable(enemy);
+
+          if (stomped) {
+              enemy.isBroken = true;
+              spawnDebris(world, enemy.position.x, enemy.position.y, COLORS.enemy, 8);
+              events.push({ type: 'enemy_defeated', subtype: enemy.subtype });
+              awardPoints(world, events, STOMP_POINTS, 'stomp');
+              stompBounce(world, input, events, enemy.position.y);
+          } else if (world.shieldTimer > 0 || player.isDashing) {
+              // Kill enemy if shielded OR dashing
+              enemy.isBroken = true;
+              spawnDebris(world, enemy.position.x, enemy.position.y, COLORS.enemy, 8);
+              events.push({ type: 'enemy_defeated', subtype: enemy.subtype });
+              awardPoints(world, events, STOMP_POINTS, 'stomp');
+              if (player.isDashing) {
+                  world.shakeTimer = 10;
+                  world.shakeStrength = 5;
+              }
+          } else {
+              handlePlayerDamage(world, events, enemy.subtype as EnemyType);
+          }
+      }
+  });
+
+  // Boss Update & Collision
+  const boss = world.boss;
+  if (boss && !boss.isBroken) {
+      updateBoss(world, boss, events);
+
+      if (isBossTouchable(boss) && checkRectCollision(player, boss, true)) {
+          const prevBottom = player.position.y + player.size.height - player.velocity.y - carry.y;
+          const onTop = prevBottom <= boss.position.y + STOMP_TOLERANCE;
+          if (boss.invulnerable! > 0 && onTop && player.velocity.y <= 0) {
+              // Still rising off the last stomp
+          } else if (player.velocity.y > 0 && onTop && isBossStompable(boss)) {
+              stompBounce(world, input, events, boss.position.y);
+              if (boss.invulnerable! <= 0) {
+                  boss.health! -= 1;
+                  boss.invulnerable = BOSS_HIT_COOLDOWN;
+                  events.push({ type: 'boss_hit', health: boss.health! });
+                  awardPoints(world, events, BOSS_HIT_POINTS, 'boss');
+                  spawnDebris(world, boss.position.x + boss.size.width / 2, boss.position.y, COLORS.enemy, 10);
+
+                  if (boss.health! <= 0) {
+                      boss.isBroken = true;
+                      world.arenaLocked = false;
+                      events.push({ type: 'boss_defeated', subtype: boss.subtype as BossType });
+                      awardPoints(world, events, BOSS_DEFEAT_POINTS, 'boss');
+                      spawnDebris(world, boss.position.x + boss.size.width / 2, boss.position.y + boss.size.height / 2, COLORS.enemy, 30);
+                      world.shakeTimer = 30;
+                      world.shakeStrength = 12;
+                  }
+              }
+          } else {
+              handlePlayerDamage(world, events, `boss_${boss.subtype as BossType}`);
+          }
+      }
+  }
+
+  // Projectiles Update
+  for (let i = world.projectiles.length - 1; i >= 0; i--) {
+      const p = world.projectiles[i];
+      p.x += p.vx;
+      p.y += p.vy;
+      p.vy += 0.15; // Gravity
+
+      // Check Bounds
+      if (p.y > world.level.platforms[0]?.y + 500 || p.y > world.killY) {
+          world.projectiles.splice(i, 1);
+          continue;
+      }
+
+      // Hit Player
+      if (checkCircleRectCollision(p, player, true)) {
+          handlePlayerDamage(world, events, 'projectile');
+          world.projectiles.splice(i, 1);
+          continue;
+      }
+
+      // Hit Platforms
+      const hitPlat = world.platforms.some(plat => !plat.isBroken && checkCircleRectCollision(p, plat));
+      if (hitPlat) {
+          spawnDebris(world, p.x, p.y, p.color, 3);
+          world.projectiles.splice(i, 1);
+      }
+  }
+
+  // Particles Update
+  for (let i = world.particles.length - 1; i >= 0; i--) {
+      const p = world.particles[i];
+      p.x += p.vx;
+      p.y += p.vy;
+      p.vy += GRAVITY * 0.5;
+      p.life--;
+      if (p.life <= 0) world.particles.splice(i, 1);
+  }
+
+  updatePlayerAnimation(world);
+
+  return events;
+};
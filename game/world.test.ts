@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { InputState } from '../types';
+import { generateProceduralLevel } from '../services/proceduralService';
+import { createWorld, getWorldProgress, restoreWorldProgress } from './world';
+import { stepWorld } from './simulation';
+import { nextRandom } from './random';
+
+const RUN_RIGHT: InputState = { left: false, right: true, up: false, jumpPressed: false, dashPressed: false };
+
+describe('world progress', () => {
+  it('puts a resumed world back where the save left it', () => {
+    const level = generateProceduralLevel(2, 'medium', 7);
+    const world = createWorld(level, 1234);
+    for (let i = 0; i < 300; i++) stepWorld(world, { ...RUN_RIGHT });
+    const progress = getWorldProgress(world);
+
+    const resumed = createWorld(level, progress.seed);
+    restoreWorldProgress(resumed, JSON.parse(JSON.stringify(progress)));
+
+    expect(resumed.tick).toBe(world.tick);
+    expect(resumed.lives).toBe(world.lives);
+    expect(resumed.player.position).toEqual(world.checkpoint.position);
+    expect(resumed.collectibles.filter(c => c.isBroken).map(c => c.id)).toEqual(world.checkpoint.collected);
+    expect(resumed.score).toBe(world.checkpoint.score);
+    expect(resumed.seeds).toBe(world.checkpoint.seeds);
+    expect(resumed.seedPoints).toBe(world.checkpoint.seedPoints);
+  });
+
+  it('carries both random streams on from the save', () => {
+    const level = generateProceduralLevel(1, 'medium', 3);
+    const world = createWorld(level, 99);
+    for (let i = 0; i < 200; i++) stepWorld(world, { ...RUN_RIGHT });
+    const resumed = createWorld(level, world.seed);
+    restoreWorldProgress(resumed, getWorldProgress(world));
+
+    const draws = (rng: { state: number }) => Array.from({ length: 5 }, () => nextRandom(rng));
+    expect(draws(resumed.rng)).toEqual(draws(world.rng));
+    expect(draws(resumed.fxRng)).toEqual(draws(world.fxRng));
+  });
+});
@@ -0,0 +1,280 @@
+import { LevelConfig, LevelBounds, PlatformMotion, Player, GameObject, Vector2, Particle, Projectile, PlayerAnimation, HudState } from '../types';
+import { PLAYER_WIDTH, PLAYER_HEIGHT, CANVAS_HEIGHT, MAX_LIVES, CRUMBLE_TIME, CONVEYOR_SPEED, WIND_FORCE, SHIELD_DURATION, DASH_COOLDOWN } from '../constants';
+import { Rng, createRng } from './random';
+import { createBoss } from './boss';
+import { createEnemy } from './enemies';
+
+// What the last checkpoint touched locked in; falling into a pit rolls the level back to it
+export interface CheckpointSave {
+  position: Vector2; // Where the player respawns
+  killY: number; // Climbs: the death plane when the checkpoint was reached
+  collected: string[]; // Ids of collectibles picked up by then; later pickups come back
+  brokenCrates: string[]; // Ids of crates broken by then; later ones are rebuilt
+  score: number; // Points the level had paid out by then; a fall takes the rest back
+  seeds: number;
+  seedPoints: number; // The part of score that came from seeds
+}
+
+// Complete gameplay state for one run of a level.
+// Everything the game loop used to keep in refs lives here so the simulation can be stepped headlessly.
+export interface World {
+  level: LevelConfig;
+  seed: number;
+  tick: number; // Simulation steps since the level started
+  rng: Rng; // Gameplay randomness (AI decisions, timers, variants)
+  fxRng: Rng; // Cosmetic randomness (particles) kept on its own stream so effects never shift gameplay
+
+  player: Player;
+  anim: PlayerAnimation;
+
+  // Gameplay State
+  coyoteFrames: number;
+  lives: number;
+  lastSafePos: Vector2; // Where damage respawns the player
+  checkpoint: CheckpointSave; // Where a fall respawns the player; the level start until a checkpoint is touched
+  standingOn: GameObject | null; // Platform or crate the player landed on last step; it carries or pushes them
+  inWater: boolean; // Swimming physics apply while the player overlaps water
+  inQuicksand: boolean;
+  combo: number; // Stomps, crate breaks and pickups since the player last touched the ground
+  score: number; // Points awarded on this level so far (the app adds them to the run's score)
+  seeds: number; // Seeds picked up on this level so far
+  seedPoints: number; // Points those seeds paid out, combo included
+  invincibility: number;
+  shieldTimer: number;
+
+  // Dash State
+  dashTimer: number;
+  dashCooldown: number;
+
+  // Visual Effects
+  shakeTimer: number;
+  shakeStrength: number;
+  particles: Particle[];
+  projectiles: Projectile[];
+
+  // Level Objects
+  platforms: GameObject[];
+  obstacles: GameObject[];
+  enemies: GameObject[];
+  collectibles: GameObject[];
+  hazards: GameObject[];
+  checkpoints: GameObject[];
+  boss: GameObject | null;
+  goal: GameObject | null;
+
+  // Game Flow
+  bounds: LevelBounds; // Resolved with getLevelBounds, so never missing
+  killY: number; // Current death plane; starts at bounds.killY and rises during climbs
+  arenaLocked: boolean; // The player walked into the boss arena and can't leave until the boss is beaten
+  isGameOver: boolean;
+  gameOverTimer: number;
+  result: 'win' | 'lose' | null; // Set once the run has been decided
+}
+
+export const PLAYER_SPAWN: Vector2 = { x: 50, y: 400 };
+
+// Explicit bounds when the level has them; otherwise fitted to the layout the way levels always worked:
+// death 400px below the lowest platform and room to jump well above the highest one.
+export const getLevelBounds = (level: LevelConfig): LevelBounds => {
+  if (level.bounds) return level.bounds;
+
+  const ys = level.platforms.map(p => p.y);
+  const lowestY = ys.length > 0 ? Math.max(...ys) : CANVAS_HEIGHT;
+  const highestY = Math.min(0, ...ys);
+  const rightEdge = Math.max(level.goal.x + 200, ...level.platforms.map(p => p.x + p.w));
+
+  const killY = lowestY + 400;
+  return { width: rightEdge, height: killY - highestY + CANVAS_HEIGHT, killY };
+};
+
+// Offset of a moving platform from its start after `tick` steps. Both paths start (and every cycle end) at zero:
+// linear eases out to (dx, dy) and back, circular loops around a centre `radius` above the start.
+export const getMotionOffset = (motion: PlatformMotion, tick: number): Vector2 => {
+  const angle = (tick / motion.period) * Math.PI * 2;
+  if (motion.path === 'circular') {
+    const r = motion.radius || 0;
+    return { x: Math.sin(angle) * r, y: (Math.cos(angle) - 1) * r };
+  }
+  const t = (1 - Math.cos(angle)) / 2;
+  return { x: (motion.dx || 0) * t, y: (motion.dy || 0) * t };
+};
+
+// Build a fresh world from a level config.
+// The same level and seed always produce the same world; the seed defaults to the one the level was generated with.
+// `spawn` overrides the start position, e.g. to play-test from the middle of a level in the editor.
+export const createWorld = (level: LevelConfig, seed: number = level.seed ?? 0, spawn: Vector2 = PLAYER_SPAWN): World => {
+  const rng = createRng(seed);
+
+  return {
+    level,
+    seed,
+    tick: 0,
+    rng,
+    fxRng: createRng(seed ^ 0x9E3779B9),
+
+    player: {
+      position: { ...spawn },
+      velocity: { x: 0, y: 0 },
+      size: { width: PLAYER_WIDTH, height: PLAYER_HEIGHT },
+      isGrounded: false,
+      isDead: false,
+      facingRight: true,
+      canDoubleJump: false,
+      isDashing: false
+    },
+    anim: { state: 'idle', frame: 0, timer: 0, spin: 0 },
+
+    coyoteFrames: 0,
+    lives: MAX_LIVES,
+    lastSafePos: { ...spawn },
+    checkpoint: { position: { ...spawn }, killY: getLevelBounds(level).killY, collected: [], brokenCrates: [], score: 0, seeds: 0, seedPoints: 0 },
+    standingOn: null,
+    inWater: false,
+    inQuicksand: false,
+    combo: 0,
+    score: 0,
+    seeds: 0,
+    seedPoints: 0,
+    invincibility: 0,
+    shieldTimer: 0,
+
+    dashTimer: 0,
+    dashCooldown: 0,
+
+    shakeTimer: 0,
+    shakeStrength: 0,
+    particles: [],
+    projectiles: [],
+
+    // Parse platforms
+    platforms: level.platforms.map((p, i) => ({
+      id: `plat-${i}`,
+      position: { x: p.x, y: p.y },
+      size: { width: p.w, height: p.h },
+      type: 'platform',
+      subtype: p.subtype, // normal, crumble, bouncy, oneway, conveyor
+      isBroken: false,
+      timer: p.subtype === 'crumble' ? CRUMBLE_TIME : 0,
+      initialPosition: { x: p.x, y: p.y },
+      velocity: { x: 0, y: 0 }, // Movement over the last step, handed on to riders
+      motion: p.motion,
+      conveyorSpeed: p.subtype === 'conveyor' ? p.speed ?? CONVEYOR_SPEED : undefined
+    })),
+
+    // Parse obstacles
+    obstacles: (level.obstacles || []).map((o, i) => ({
+      id: `obs-${i}`,
+      position: { x: o.x, y: o.y },
+      size: { width: o.w, height: o.h },
+      type: 'obstacle',
+      subtype: o.type,
+      isBroken: false
+    })),
+
+    enemies: level.enemies.map((e, i) => createEnemy(e, i, level, rng)),
+
+    // Parse collectibles
+    collectibles: level.collectibles.map((c, i) => ({
+      id: `col-${i}`,
+      position: { x: c.x, y: c.y },
+      size: { width: 30, height: 30 },
+      type: 'collectible',
+      subtype: c.type || 'seed'
+    })),
+
+    // Parse hazards
+    hazards: (level.hazards || []).map((h, i) => ({
+      id: `haz-${i}`,
+      position: { x: h.x, y: h.y },
+      size: { width: h.w, height: h.h },
+      type: 'hazard',
+      subtype: h.type,
+      force: h.type === 'wind' ? h.force || { x: WIND_FORCE, y: 0 } : undefined
+    })),
+
+    // Parse checkpoints (burrows the size of the goal)
+    checkpoints: (level.checkpoints || []).map((c, i) => ({
+      id: `cp-${i}`,
+      position: { x: c.x, y: c.y },
+      size: { width: 60, height: 80 },
+      type: 'checkpoint',
+      activated: false
+    })),
+
+    boss: level.boss ? createBoss(level.boss) : null,
+
+    // Parse goal
+    goal: {
+      id: 'goal',
+      position: { x: level.goal.x, y: level.goal.y },
+      size: { width: 60, height: 80 },
+      type: 'end_goal',
+    },
+
+    bounds: getLevelBounds(level),
+    killY: getLevelBounds(level).killY,
+    arenaLocked: false,
+    isGameOver: false,
+    gameOverTimer: 0,
+    result: null
+  };
+};
+
+// The part of the world the React HUD shows
+export const getHudState = (world: World): HudState => ({
+  lives: Math.max(0, world.lives),
+  maxLives: MAX_LIVES,
+  shield: world.shieldTimer / SHIELD_DURATION,
+  dash: 1 - world.dashCooldown / DASH_COOLDOWN
+});
+
+// What a saved run keeps of a level in progress. Resuming rebuilds the world from the same seed and puts the player
+// back at their last checkpoint with the lives and clock they had, and the pickups, points and seeds they had when
+// they reached it (later pickups come back, just like after a fall); enemies start over.
+// Both random streams carry on from where they were saved, so the rest of the level draws the same numbers it would
+// have without the break. It still isn't the same run (enemies are back at their spawns), which is why resumed runs
+// record no replay: a replay re-simulates its inputs from tick 0.
+export interface WorldProgress {
+  seed: number;
+  tick: number;
+  lives: number;
+  checkpoint: CheckpointSave;
+  reachedCheckpoints: string[]; // Ids of the checkpoint flags already raised
+  rngState: number;
+  fxRngState: number;
+}
+
+export const getWorldProgress = (world: World): WorldProgress => ({
+  seed: world.seed,
+  tick: world.tick,
+  lives: world.lives,
+  checkpoint: {
+    ...world.checkpoint,
+    position: { ...world.checkpoint.position },
+    collected: [...world.checkpoint.collected],
+    brokenCrates: [...world.checkpoint.brokenCrates]
+  },
+  reachedCheckpoints: world.checkpoints.filter(c => c.activated).map(c => c.id),
+  rngState: world.rng.state,
+  fxRngState: world.fxRng.state
+});
+
+// Apply saved progress to a world fresh from createWorld(level, progress.seed)
+export const restoreWorldProgress = (world: World, progress: WorldProgress) => {
+  const { checkpoint } = progress;
+  world.tick = progress.tick;
+  world.lives = progress.lives;
+  world.checkpoint = { ...checkpoint, position: { ...checkpoint.position } };
+  world.killY = checkpoint.killY;
+  world.player.position = { ...checkpoint.position };
+  world.lastSafePos = { ...checkpoint.position };
+  world.score = checkpoint.score;
+  world.seeds = checkpoint.seeds;
+  world.seedPoints = checkpoint.seedPoints;
+  world.rng.state = progress.rngState >>> 0;
+  world.fxRng.state = progress.fxRngState >>> 0;
+
+  world.collectibles.forEach(c => { c.isBroken = checkpoint.collected.includes(c.id); });
+  world.obstacles.forEach(o => { o.isBroken = checkpoint.brokenCrates.includes(o.id); });
+  world.checkpoints.forEach(c => { c.activated = progress.reachedCheckpoints.includes(c.id); });
+};
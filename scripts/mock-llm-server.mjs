@@ -0,0 +1,109 @@
+// Tiny stand-in for an OpenAI-compatible model server, for working on level generation offline.
+//
+//   node scripts/mock-llm-server.mjs [--port 8787] [--level file.json] [--script steps.json]
+//
+// Every chat completion returns the canned level (--level, default public/levels/backup-burrow.json).
+// With --script, requests walk through a list of steps instead (cycling at the end). Each step may set:
+//   status   HTTP status to reply with; non-200 replies send `body` (or a generic error)
+//   delayMs  wait before replying, e.g. to exercise timeouts
+//   content  message content, a string (sent as-is) or an object (sent as JSON)
+//   file     path of a level JSON to send as the content (arrays use their first entry)
+//   fenced   wrap the content in ```json fences like chatty local models do
+// See scripts/mock-llm-script.example.json.
+
+import http from 'node:http';
+import fs from 'node:fs';
+import path from 'node:path';
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+  const i = args.indexOf(`--${name}`);
+  return i >= 0 && args[i + 1] ? args[i + 1] : fallback;
+};
+
+const port = Number(option('port', process.env.MOCK_LLM_PORT || 8787));
+const levelPath = option('level', 'public/levels/backup-burrow.json');
+const scriptPath = option('script', null);
+
+const readLevel = (file) => {
+  const data = JSON.parse(fs.readFileSync(path.resolve(file), 'utf8'));
+  return Array.isArray(data) ? data[0] : data;
+};
+
+const cannedLevel = readLevel(levelPath);
+const steps = scriptPath ? JSON.parse(fs.readFileSync(path.resolve(scriptPath), 'utf8')) : [{}];
+let requestCount = 0;
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS'
+  });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  let data = '';
+  req.on('data', chunk => { data += chunk; });
+  req.on('end', () => resolve(data));
+  req.on('error', reject);
+});
+
+const stepContent = (step) => {
+  let content;
+  if (step.content !== undefined) {
+    content = typeof step.content === 'string' ? step.content : JSON.stringify(step.content);
+  } else {
+    content = JSON.stringify(step.file ? readLevel(step.file) : cannedLevel, null, 2);
+  }
+  return step.fenced ? '```json\n' + content + '\n```' : content;
+};
+
+const handleCompletion = async (req, res) => {
+  const request = JSON.parse((await readBody(req)) || '{}');
+  const stepIndex = requestCount++ % steps.length;
+  const step = steps[stepIndex];
+  const prompt = request.messages?.at(-1)?.content || '';
+  const difficulty = prompt.match(/Difficulty: ([^.]*)/)?.[1] || 'unknown';
+
+  console.log(`#${requestCount} model=${request.model} step=${stepIndex} difficulty="${difficulty}"`);
+
+  if (step.delayMs) await sleep(step.delayMs);
+
+  const status = step.status || 200;
+  if (status !== 200) {
+    sendJson(res, status, step.body || { error: { message: `Mock error ${status}` } });
+    return;
+  }
+
+  sendJson(res, 200, {
+    id: `mock-${requestCount}`,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model: request.model || 'mock',
+    choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content: stepContent(step) } }]
+  });
+};
+
+const server = http.createServer(async (req, res) => {
+  try {
+    const url = new URL(req.url, `http://localhost:${port}`);
+    if (req.method === 'OPTIONS') return sendJson(res, 204, {});
+    if (req.method === 'GET' && url.pathname === '/v1/models') {
+      return sendJson(res, 200, { object: 'list', data: [{ id: 'local-model', object: 'model', owned_by: 'mock' }] });
+    }
+    if (req.method === 'POST' && url.pathname === '/v1/chat/completions') return await handleCompletion(req, res);
+    sendJson(res, 404, { error: { message: `No route for ${req.method} ${url.pathname}` } });
+  } catch (error) {
+    console.error(error);
+    sendJson(res, 500, { error: { message: String(error) } });
+  }
+});
+
+server.listen(port, () => {
+  console.log(`Mock LLM server on http://localhost:${port}/v1 (${scriptPath ? `script ${scriptPath}, ${steps.length} steps` : `canned level ${levelPath}`})`);
+});
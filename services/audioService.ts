@@ -65,6 +65,75 @@ export const playCollect = () => {
     osc.stop(t + 0.3);
 };
 
+export const playCheckpoint = () => {
+    if (isMuted) return;
+    const ctx = getCtx();
+    const t = ctx.currentTime;
+
+    // Two rising notes, like a doorbell
+    [659.25, 880].forEach((freq, i) => { // E5, A5
+        const osc = ctx.createOscillator();
+        const gain = ctx.createGain();
+        osc.connect(gain);
+        gain.connect(ctx.destination);
+
+        const start = t + i * 0.12;
+        osc.type = 'triangle';
+        osc.frequency.value = freq;
+
+        gain.gain.setValueAtTime(0.12, start);
+        gain.gain.linearRampToValueAtTime(0, start + 0.25);
+
+        osc.start(start);
+        osc.stop(start + 0.25);
+    });
+};
+
+export const playSplash = () => {
+    if (isMuted) return;
+    const ctx = getCtx();
+    const t = ctx.currentTime;
+    
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.connect(gain);
+    gain.connect(ctx.destination);
+    
+    // Falling "bloop"
+    osc.type = 'sine';
+    osc.frequency.setValueAtTime(600, t);
+    osc.frequency.exponentialRampToValueAtTime(120, t + 0.25);
+    
+    gain.gain.setValueAtTime(0.15, t);
+    gain.gain.linearRampToValueAtTime(0, t + 0.25);
+    
+    osc.start();
+    osc.stop(t + 0.25);
+};
+
+export const playRoar = () => {
+    if (isMuted) return;
+    const ctx = getCtx();
+    const t = ctx.currentTime;
+    
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.connect(gain);
+    gain.connect(ctx.destination);
+    
+    // Low rumbling growl, warning of a boss attack
+    osc.type = 'sawtooth';
+    osc.frequency.setValueAtTime(90, t);
+    osc.frequency.linearRampToValueAtTime(140, t + 0.15);
+    osc.frequency.exponentialRampToValueAtTime(60, t + 0.5);
+    
+    gain.gain.setValueAtTime(0.15, t);
+    gain.gain.linearRampToValueAtTime(0, t + 0.5);
+    
+    osc.start();
+    osc.stop(t + 0.5);
+};
+
 export const playDeath = () => {
     if (isMuted) return;
     const ctx = getCtx();
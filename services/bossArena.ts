@@ -0,0 +1,29 @@
+import { LevelConfig, BossType } from "../types";
+import { BOSS_ARENA_WIDTH } from "../constants";
+import { getBossSpawn } from "../game/boss";
+
+const APPROACH = 200; // Flat run-up between the end of the level and the arena
+const EXIT = 300; // Floor past the arena holding the goal
+const GOAL_HEIGHT = 80;
+
+// Turn a finished level into a boss level: a flat arena continues from the platform under the goal,
+// the boss waits inside it, and the goal moves past the arena's far wall.
+// Runs after validation and repair, so the arena never depends on what a provider generated.
+export const addBossArena = (level: LevelConfig, type: BossType): LevelConfig => {
+  const { goal } = level;
+  const under = level.platforms
+    .filter(p => !p.motion && goal.x >= p.x && goal.x <= p.x + p.w && p.y >= goal.y && p.y - goal.y < 150)
+    .sort((a, b) => a.y - b.y)[0];
+  const floorY = under ? under.y : goal.y + GOAL_HEIGHT;
+  const start = under ? under.x + under.w : goal.x;
+
+  const arena = { x: start + APPROACH, w: BOSS_ARENA_WIDTH };
+  const end = arena.x + arena.w + EXIT;
+  level.platforms.push({ x: start, y: floorY, w: end - start, h: 60, subtype: 'normal' });
+
+  const spawn = getBossSpawn(type, arena, floorY);
+  level.boss = { type, x: spawn.x, y: spawn.y, arena };
+  level.goal = { x: end - EXIT / 2 - 30, y: floorY - GOAL_HEIGHT };
+  if (level.bounds) level.bounds = { ...level.bounds, width: Math.max(level.bounds.width, end) };
+  return level;
+};
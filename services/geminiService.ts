@@ -1,8 +1,7 @@
 import { GoogleGenAI, Type } from "@google/genai";
-import { LevelConfig } from "../types";
-import { CANVAS_WIDTH, CANVAS_HEIGHT, GENERATION_MODEL, PLAYER_WIDTH } from "../constants";
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+import { LevelProvider } from "../types";
+import { GENERATION_MODEL } from "../constants";
+import { buildLevelPrompt, buildFixPrompt } from "./levelPrompt";
 
 const levelSchema = {
   type: Type.OBJECT,
@@ -18,11 +17,25 @@ const levelSchema = {
           y: { type: Type.NUMBER },
           w: { type: Type.NUMBER },
           h: { type: Type.NUMBER },
-          subtype: { type: Type.STRING, enum: ["normal", "crumble", "bouncy"], nullable: true },
+          subtype: { type: Type.STRING, enum: ["normal", "crumble", "bouncy", "oneway", "conveyor"], nullable: true },
+          motion: {
+            type: Type.OBJECT,
+            nullable: true,
+            properties: {
+              path: { type: Type.STRING, enum: ["linear", "circular"] },
+              dx: { type: Type.NUMBER, nullable: true },
+              dy: { type: Type.NUMBER, nullable: true },
+              radius: { type: Type.NUMBER, nullable: true },
+              period: { type: Type.NUMBER },
+            },
+            required: ["path", "period"],
+            description: "Makes the platform move. 'linear' travels to (x+dx, y+dy) and back; 'circular' loops around a centre 'radius' px above its start. 'period' is ticks per cycle (60 ticks = 1 second).",
+          },
+          speed: { type: Type.NUMBER, nullable: true, description: "Conveyor belts only: push in px per tick, negative pushes left" },
         },
         required: ["x", "y", "w", "h"],
       },
-      description: "List of platforms. 'crumble' platforms break after standing on them. 'bouncy' platforms launch the player high up.",
+      description: "List of platforms. 'crumble' platforms break after standing on them. 'bouncy' platforms launch the player high up. 'oneway' ledges can be jumped through from below. 'conveyor' belts push the player along. Any platform can be given a 'motion' path.",
     },
     obstacles: {
       type: Type.ARRAY,
@@ -46,7 +59,7 @@ const levelSchema = {
         properties: {
           x: { type: Type.NUMBER },
           y: { type: Type.NUMBER },
-          type: { type: Type.STRING, enum: ["snake", "hawk", "bat", "bug", "mole"] },
+          type: { type: Type.STRING, enum: ["snake", "hawk", "bat", "bug", "mole", "coyote", "badger", "rattlesnake"] },
         },
         required: ["x", "y", "type"],
       },
@@ -63,6 +76,32 @@ const levelSchema = {
         required: ["x", "y"],
       },
     },
+    hazards: {
+      type: Type.ARRAY,
+      nullable: true,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          x: { type: Type.NUMBER },
+          y: { type: Type.NUMBER },
+          w: { type: Type.NUMBER },
+          h: { type: Type.NUMBER },
+          type: { type: Type.STRING, enum: ["spikes", "water", "quicksand", "wind"] },
+          force: {
+            type: Type.OBJECT,
+            nullable: true,
+            properties: {
+              x: { type: Type.NUMBER },
+              y: { type: Type.NUMBER },
+            },
+            required: ["x", "y"],
+            description: "Wind only: push in px per tick per tick, between -2 and 2 (gravity is 1.2)",
+          },
+        },
+        required: ["x", "y", "w", "h", "type"],
+      },
+      description: "Hazard volumes. 'spikes' hurt on touch. 'water' can be swum through. 'quicksand' slowly swallows the player. 'wind' zones push with 'force'.",
+    },
     goal: {
       type: Type.OBJECT,
       properties: {
@@ -71,186 +110,74 @@ const levelSchema = {
       },
       required: ["x", "y"],
     },
+    checkpoints: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          x: { type: Type.NUMBER },
+          y: { type: Type.NUMBER },
+        },
+        required: ["x", "y"],
+      },
+      description: "Checkpoint burrows (60x80, placed like the goal, standing on a platform). Falling into a pit respawns the player at the last one touched.",
+    },
+    archetype: {
+      type: Type.STRING,
+      enum: ["run", "climb"],
+      nullable: true,
+      description: "'run' levels go left to right; 'climb' levels go up a tall shaft to a goal at the top.",
+    },
+    bounds: {
+      type: Type.OBJECT,
+      properties: {
+        width: { type: Type.NUMBER },
+        height: { type: Type.NUMBER },
+        killY: { type: Type.NUMBER },
+      },
+      required: ["width", "height", "killY"],
+      description: "World size: x from 0 to width, y from killY - height to killY. Falling below killY ends the run.",
+    },
   },
   required: ["name", "description", "platforms", "obstacles", "enemies", "collectibles", "goal"],
 };
 
-export const generateLevel = async (difficulty: number, collectibleDensity: 'low' | 'medium' | 'high' = 'medium'): Promise<LevelConfig> => {
-  const difficultyPrompt = difficulty === 1 
-    ? "easy, flat terrain with very few small gaps" 
-    : difficulty === 2 
-    ? "medium, some jumping required, moderate enemies" 
-    : "hard, lots of verticality, precision jumps, and enemies";
-
-  const densityDescription = collectibleDensity === 'high'
-    ? "abundant seeds and frequent shields"
-    : collectibleDensity === 'low'
-    ? "scarce seeds placed in difficult spots, very rare shields"
-    : "moderate amount of seeds, balanced placement";
-
-  const prompt = `
-    Design a 2D platformer level for a Prairie Dog.
-    The level dimensions are roughly 3000px wide by ${CANVAS_HEIGHT}px high.
-    The player starts at x=50, y=450.
-    
-    Difficulty: ${difficultyPrompt}.
-    Collectible Density: ${densityDescription}.
-    
-    REQUIREMENTS:
-    1. **CRITICAL**: Create a solid 'normal' platform from x=0 to x=300 at y=500 to ensure the player has a safe start.
-    2. Create a continuous 'ground' path using platforms near y=500 to y=600 across the level. Gaps are allowed but must be jumpable (max 150px).
-    3. Add platforms at various heights (y=200 to y=450) for verticality.
-    4. Make some platforms 'crumble' (fragile bridges) or 'bouncy' (pink platforms to reach high areas).
-    5. Add 'obstacles' (type: 'crate') that stack or block paths. These are destructible.
-    6. Add 'snake' enemies on ground platforms.
-    7. Add 'mole' enemies that ambush from the ground on platforms.
-    8. Add flying enemies: 'hawk' (high up), 'bat' (mid-air patrol), or 'bug' (erratic swarms).
-    9. Place 'collectibles' (seeds) - ${densityDescription}.
-    10. Place 'shield' collectibles - ${collectibleDensity === 'high' ? 'occasionally' : 'rarely'}.
-    11. Place 'goal' (burrow) at the far right (approx x=2800) on a safe platform.
-    
-    Output ONLY valid JSON conforming to the schema.
-  `;
-
-  try {
-    // 60 Second Timeout Race (Increased from 30s to avoid timeouts)
-    const timeoutPromise = new Promise<never>((_, reject) => 
-        setTimeout(() => reject(new Error("Gemini request timed out")), 60000)
-    );
-
-    const apiCallPromise = ai.models.generateContent({
-      model: GENERATION_MODEL,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: levelSchema,
-        temperature: 0.7, 
-      },
-    });
-
-    const response: any = await Promise.race([apiCallPromise, timeoutPromise]);
-
-    const text = response.text;
-    if (!text) throw new Error("No content generated");
-    
-    let levelConfig = JSON.parse(text) as LevelConfig;
-
-    // --- SANITY CHECKS & REPAIRS ---
-    
-    // 1. Sort platforms by X for logical processing
-    levelConfig.platforms.sort((a: any, b: any) => a.x - b.x);
-
-    // 2. Safe Start: Ensure there is a platform under the start position
-    const startX = 50;
-    const hasSafeStart = levelConfig.platforms.some(p => 
-        p.x <= startX && 
-        (p.x + p.w) >= startX + PLAYER_WIDTH &&
-        p.y >= 400 && p.y <= 600
-    );
-
-    if (!hasSafeStart) {
-        // Inject safety platform at start
-        levelConfig.platforms.unshift({
-            x: 0,
-            y: 500,
-            w: 400,
-            h: 50,
-            subtype: 'normal'
-        });
-        // Re-sort
-        levelConfig.platforms.sort((a: any, b: any) => a.x - b.x);
-    }
-
-    // 3. Gap Filling (Ground Path Continuity)
-    // Iterate through platforms and ensure that the "ground layer" doesn't have impossible gaps.
-    // We define "ground layer" roughly as y > 300 (since 0 is top).
-    let currentRightEdge = 0;
-    // Initialize right edge based on the first ground platform
-    const firstGround = levelConfig.platforms.find(p => p.y > 300);
-    if (firstGround) currentRightEdge = firstGround.x + firstGround.w;
-
-    // Create a temporary list to add bridge platforms
-    const bridges: any[] = [];
-    const MAX_GAP = 220; // Slightly generous max jump
-
-    for (const p of levelConfig.platforms) {
-        // Only consider platforms that could be part of the "main path"
-        if (p.y < 300) continue; 
-
-        // If this platform starts significantly after our current reach
-        if (p.x > currentRightEdge + MAX_GAP) {
-             // Found a gap! Inject a bridge.
-             const bridgeStart = currentRightEdge + 20;
-             const bridgeW = Math.min(200, p.x - bridgeStart - 20);
-             
-             if (bridgeW > 40) {
-                 bridges.push({
-                    x: bridgeStart,
-                    y: 500 + (Math.random() * 40 - 20), // Varied height
-                    w: bridgeW,
-                    h: 40,
-                    subtype: 'normal'
-                 });
-                 // Extend reach
-                 currentRightEdge = bridgeStart + bridgeW;
-             }
-        }
-        
-        // Update reach if this platform extends it
-        // (Simple logic: if it overlaps or is close enough to jump to, it extends our reach)
-        if (p.x <= currentRightEdge + MAX_GAP) {
-            currentRightEdge = Math.max(currentRightEdge, p.x + p.w);
-        }
-    }
-    levelConfig.platforms.push(...bridges);
-    levelConfig.platforms.sort((a: any, b: any) => a.x - b.x); // Final sort
-
-    // 4. Safe Goal: Ensure there is a platform under the goal
-    const goal = levelConfig.goal;
-    const hasGoalPlatform = levelConfig.platforms.some(p => 
-        p.x <= goal.x && 
-        (p.x + p.w) >= goal.x &&
-        Math.abs(p.y - goal.y) < 150
-    );
+export interface GeminiProviderOptions {
+  apiKey?: string;
+  model?: string;
+}
+
+export const createGeminiProvider = ({ apiKey, model = GENERATION_MODEL }: GeminiProviderOptions): LevelProvider => {
+  // Built on first use, so a missing key only matters when Gemini is actually picked
+  let ai: GoogleGenAI | null = null;
+
+  return {
+    source: 'gemini',
+    label: `Gemini (${model})`,
+    acceptsFeedback: true,
+    generate: async (request, feedback) => {
+      if (!apiKey) throw new Error("No Gemini API key configured");
+      ai = ai || new GoogleGenAI({ apiKey });
+
+      const prompt = buildLevelPrompt(request);
+      const response = await ai.models.generateContent({
+        model,
+        // A rejected answer continues the conversation so the model can see what it got wrong
+        contents: feedback ? [
+          { role: 'user', parts: [{ text: prompt }] },
+          { role: 'model', parts: [{ text: feedback.response }] },
+          { role: 'user', parts: [{ text: buildFixPrompt(feedback.issues) }] }
+        ] : prompt,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: levelSchema,
+          temperature: 0.7, 
+        },
+      });
 
-    if (!hasGoalPlatform) {
-        // Inject safety platform at goal
-        levelConfig.platforms.push({
-            x: goal.x - 100,
-            y: goal.y + 60, // Goal typically sits on top, so platform is below
-            w: 250,
-            h: 50,
-            subtype: 'normal'
-        });
+      const text = response.text;
+      if (!text) throw new Error("No content generated");
+      return text;
     }
-
-    return levelConfig;
-  } catch (error) {
-    console.error("Failed to generate level (using fallback):", error);
-    // Fallback level if API fails or times out
-    return {
-      name: "The Backup Burrow",
-      description: "The AI spirits were silent, so here is a basic field.",
-      platforms: [
-        { x: 0, y: 500, w: 1000, h: 100, subtype: 'normal' },
-        { x: 1200, y: 450, w: 400, h: 100, subtype: 'crumble' },
-        { x: 1800, y: 500, w: 1200, h: 100, subtype: 'normal' },
-        { x: 400, y: 350, w: 200, h: 20, subtype: 'normal' },
-        { x: 600, y: 200, w: 100, h: 20, subtype: 'bouncy' },
-        { x: 800, y: 250, w: 200, h: 20, subtype: 'crumble' },
-      ],
-      obstacles: [
-        { x: 600, y: 450, w: 50, h: 50, type: 'crate' },
-        { x: 650, y: 450, w: 50, h: 50, type: 'crate' },
-        { x: 625, y: 400, w: 50, h: 50, type: 'crate' } // Pyramid stack
-      ],
-      enemies: [
-        { x: 600, y: 460, type: 'snake' },
-        { x: 1400, y: 300, type: 'bat' },
-        { x: 850, y: 250, type: 'mole' }
-      ],
-      collectibles: [{ x: 500, y: 300, type: 'seed' }, { x: 1500, y: 350, type: 'shield' }],
-      goal: { x: 2800, y: 450 }
-    };
-  }
-};
\ No newline at end of file
+  };
+};
@@ -0,0 +1,38 @@
+import { Ghost, GHOST_VERSION } from '../game/ghost';
+
+// Personal-best ghosts, persisted in localStorage keyed by level
+
+const GHOST_STORAGE_KEY = 'prairie_ghosts';
+const MAX_STORED_GHOSTS = 10; // Ghosts are large; keep only the most recent personal bests
+
+const loadAll = (): Ghost[] => {
+  try {
+    const saved = localStorage.getItem(GHOST_STORAGE_KEY);
+    if (!saved) return [];
+    const parsed = JSON.parse(saved) as Ghost[];
+    return Array.isArray(parsed) ? parsed.filter(g => g.version === GHOST_VERSION) : [];
+  } catch (e) {
+    console.error("Failed to load ghosts", e);
+    return [];
+  }
+};
+
+export const loadGhost = (levelKey: string): Ghost | null => {
+  return loadAll().find(g => g.levelKey === levelKey) || null;
+};
+
+// Store the ghost if it beats the saved one for its level. Returns true when it became the new best.
+export const saveGhostIfFaster = (ghost: Ghost): boolean => {
+  const ghosts = loadAll();
+  const existing = ghosts.find(g => g.levelKey === ghost.levelKey);
+  if (existing && existing.ticks <= ghost.ticks) return false;
+
+  const next = [ghost, ...ghosts.filter(g => g.levelKey !== ghost.levelKey)].slice(0, MAX_STORED_GHOSTS);
+  try {
+    localStorage.setItem(GHOST_STORAGE_KEY, JSON.stringify(next));
+  } catch (e) {
+    console.error("Failed to save ghost", e);
+    return false;
+  }
+  return true;
+};
@@ -0,0 +1,93 @@
+import { LevelRequest, LevelIssue } from "../types";
+import { CHECKPOINT_SPACING } from "../constants";
+
+// The level design brief shared by every LLM-backed provider
+
+// Spelled out for endpoints that cannot enforce a response schema themselves
+const LEVEL_JSON_SHAPE = `{
+      "name": string, "description": string,
+      "platforms": [{ "x": number, "y": number, "w": number, "h": number, "subtype": "normal" | "crumble" | "bouncy" | "oneway" | "conveyor",
+        "motion"?: { "path": "linear" | "circular", "dx"?: number, "dy"?: number, "radius"?: number, "period": number }, "speed"?: number }],
+      "obstacles": [{ "x": number, "y": number, "w": number, "h": number, "type": "crate" }],
+      "enemies": [{ "x": number, "y": number, "type": "snake" | "hawk" | "bat" | "bug" | "mole" | "coyote" | "badger" | "rattlesnake" }],
+      "collectibles": [{ "x": number, "y": number, "type": "seed" | "shield" }],
+      "hazards": [{ "x": number, "y": number, "w": number, "h": number, "type": "spikes" | "water" | "quicksand" | "wind", "force"?: { "x": number, "y": number } }],
+      "goal": { "x": number, "y": number },
+      "checkpoints": [{ "x": number, "y": number }],
+      "bounds": { "width": number, "height": number, "killY": number },
+      "archetype": "run" | "climb"
+    }`;
+
+export const buildLevelPrompt = (request: LevelRequest, schemaHint: boolean = false): string => {
+  const { width, height, killY } = request.bounds;
+  const difficultyPrompt = request.difficulty === 1 
+    ? "easy, flat terrain with very few small gaps" 
+    : request.difficulty === 2 
+    ? "medium, some jumping required, moderate enemies" 
+    : "hard, lots of verticality, precision jumps, and enemies";
+
+  const densityDescription = request.collectibleDensity === 'high'
+    ? "abundant seeds and frequent shields"
+    : request.collectibleDensity === 'low'
+    ? "scarce seeds placed in difficult spots, very rare shields"
+    : "moderate amount of seeds, balanced placement";
+
+  const top = killY - height;
+  const checkpointSpacing = CHECKPOINT_SPACING[Math.min(Math.max(request.difficulty, 1), 3) as 1 | 2 | 3];
+  const layout = request.archetype === 'climb' ? `
+    This is a CLIMB level: a tall vertical shaft. Progress goes UP, not right.
+    REQUIREMENTS:
+    1. **CRITICAL**: Create a solid 'normal' floor from x=0 to x=${width} at y=500 for a safe start.
+    2. Add tall 'normal' walls on both sides of the shaft: { "x": -100, "w": 100 } and { "x": ${width}, "w": 100 }, from y=${top} down to y=600.
+    3. Stack ledges zig-zagging upwards from the floor to the top. Each ledge must be at most 150px above the one below it and offset sideways so the player can jump past its edge.
+    4. Use 'bouncy' pads for bigger rises (up to 350px), leaving at least 120px of clear space above each pad. Use runs of 'crumble' ledges that must be hopped up quickly.
+       'oneway' ledges can be jumped through from below, and an elevator ('motion': { "path": "linear", "dy": -300, "period": 300 }) can carry the player up a gap.
+    5. Add flying enemies in the shaft: 'bug' (erratic swarms), 'bat' (mid-air patrol) or 'hawk' (high up). Wide ledges may hold a 'snake'.
+       Optional 'hazards': rows of 'spikes' (h=20) sitting on ledges, or a 'wind' updraft column ('force': { "x": 0, "y": -1.5 }) to float up through.
+    6. Place 'collectibles' (seeds) above ledges - ${densityDescription}.
+    7. Place 'shield' collectibles - ${request.collectibleDensity === 'high' ? 'occasionally' : 'rarely'}.
+    8. Place 'goal' (burrow) at the top of the shaft (approx y=${top + 200}) on a safe ledge.
+       Add a 'checkpoints' burrow (same size as the goal, standing on a wide ledge) about every ${checkpointSpacing}px of height.
+    9. Set "archetype": "climb" and 'bounds' to { "width": ${width}, "height": ${height}, "killY": ${killY} }; keep everything inside them.` : `
+    REQUIREMENTS:
+    1. **CRITICAL**: Create a solid 'normal' platform from x=0 to x=300 at y=500 to ensure the player has a safe start.
+    2. Create a continuous 'ground' path using platforms near y=500 to y=600 across the level. Gaps are allowed but must be jumpable (max 150px).
+    3. Add platforms at various heights (y=200 to y=450) for verticality.
+    4. Make some platforms 'crumble' (fragile bridges), 'bouncy' (pink platforms to reach high areas), 'oneway' (ledges you jump up through) or 'conveyor' (belts that push the player; set 'speed', 2 to 4, negative pushes left).
+       Give a few platforms a 'motion' path to ferry the player over wide gaps: 'linear' travels to (x+dx, y+dy) and back, 'circular' loops around a centre 'radius' px above the start; 'period' is ticks per cycle (60 ticks = 1 second, use 180 to 360).
+    5. Add 'obstacles' (type: 'crate') that stack or block paths. These are destructible.
+    6. Add 'snake' enemies on ground platforms.
+    7. Add 'mole' enemies that ambush from the ground on platforms.
+       Harder levels can add 'coyote' (chases the player across gaps), 'rattlesnake' (rattles, then lunges along its ledge)
+       and 'badger' (burrows towards the player and smashes crates); give each a long ground platform.
+    8. Add flying enemies: 'hawk' (high up), 'bat' (mid-air patrol), or 'bug' (erratic swarms).
+       Add a few 'hazards' for a prairie biome: 'spikes' (cactus rows, h=20) sitting on platforms, 'water' filling a creek bed between two banks,
+       'quicksand' patches on the ground (deeper than 40px swallows the player) and 'wind' dust storms ('force': { "x": -0.3, "y": 0 }). Never put spikes or quicksand at the start.
+    9. Place 'collectibles' (seeds) - ${densityDescription}.
+    10. Place 'shield' collectibles - ${request.collectibleDensity === 'high' ? 'occasionally' : 'rarely'}.
+    11. Place 'goal' (burrow) at the far right (approx x=${width - 200}) on a safe platform.
+        Add a 'checkpoints' burrow (same size as the goal, standing on a ground platform) about every ${checkpointSpacing}px along the way.
+    12. Set "archetype": "run" and 'bounds' to { "width": ${width}, "height": ${height}, "killY": ${killY} }; keep everything inside them.`;
+
+  const prompt = `
+    Design a 2D platformer level for a Prairie Dog.
+    The level is ${width}px wide (x=0 to x=${width}) and spans y=${top} to y=${killY} (y grows downwards).
+    Falling below y=${killY} costs a life and sends the player back to the last checkpoint. The player starts at x=50, y=450.
+    
+    Difficulty: ${difficultyPrompt}.
+    Collectible Density: ${densityDescription}.
+    ${layout}
+    
+    Output ONLY valid JSON conforming to the schema.${schemaHint ? `\n\n    Schema:\n    ${LEVEL_JSON_SHAPE}` : ''}
+  `;
+
+  return prompt;
+};
+
+// Follow-up turn asking the model to correct its previous answer
+export const buildFixPrompt = (issues: LevelIssue[]): string => `
+    Your level JSON was rejected. Fix these issues:
+${issues.map(i => `    - ${i.path}: ${i.message}`).join('\n')}
+
+    Reply with the complete corrected level as JSON only, keeping everything that was already valid.
+  `;
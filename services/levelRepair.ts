@@ -0,0 +1,112 @@
+import { LevelConfig } from "../types";
+import { PLAYER_WIDTH } from "../constants";
+import { createRng, nextRandom } from "../game/random";
+import { repairReachability } from "../game/reachability";
+
+// Sanity checks and repairs applied to every level that comes from outside the game (LLMs, files).
+// Mutates the level in place and throws if it still can't be finished.
+export const repairLevel = (levelConfig: LevelConfig, seed: number): LevelConfig => {
+  // All randomness in the repair passes comes from the level seed, so a seed always repairs the same way
+  const rng = createRng(seed);
+  levelConfig.seed = seed;
+
+  // --- SANITY CHECKS & REPAIRS ---
+  
+  // 1. Sort platforms by X for logical processing
+  levelConfig.platforms.sort((a: any, b: any) => a.x - b.x);
+
+  // 2. Safe Start: Ensure there is a platform under the start position
+  const startX = 50;
+  const hasSafeStart = levelConfig.platforms.some(p => 
+      p.x <= startX && 
+      (p.x + p.w) >= startX + PLAYER_WIDTH &&
+      p.y >= 400 && p.y <= 600
+  );
+
+  if (!hasSafeStart) {
+      // Inject safety platform at start
+      levelConfig.platforms.unshift({
+          x: 0,
+          y: 500,
+          w: 400,
+          h: 50,
+          subtype: 'normal'
+      });
+      // Re-sort
+      levelConfig.platforms.sort((a: any, b: any) => a.x - b.x);
+  }
+
+  // 3. Gap Filling (Ground Path Continuity)
+  // Iterate through platforms and ensure that the "ground layer" doesn't have impossible gaps.
+  // We define "ground layer" roughly as y > 300 (since 0 is top).
+  let currentRightEdge = 0;
+  // Initialize right edge based on the first ground platform
+  const firstGround = levelConfig.platforms.find(p => p.y > 300);
+  if (firstGround) currentRightEdge = firstGround.x + firstGround.w;
+
+  // Create a temporary list to add bridge platforms
+  const bridges: any[] = [];
+  const MAX_GAP = 220; // Slightly generous max jump
+  const isClimb = levelConfig.archetype === 'climb'; // The main path goes up, so there is no ground path to fill
+
+  for (const p of levelConfig.platforms) {
+      // Only consider platforms that could be part of the "main path"
+      if (p.y < 300 || isClimb) continue; 
+
+      // If this platform starts significantly after our current reach
+      if (p.x > currentRightEdge + MAX_GAP) {
+           // Found a gap! Inject a bridge.
+           const bridgeStart = currentRightEdge + 20;
+           const bridgeW = Math.min(200, p.x - bridgeStart - 20);
+           
+           if (bridgeW > 40) {
+               bridges.push({
+                  x: bridgeStart,
+                  y: 500 + (nextRandom(rng) * 40 - 20), // Varied height
+                  w: bridgeW,
+                  h: 40,
+                  subtype: 'normal'
+               });
+               // Extend reach
+               currentRightEdge = bridgeStart + bridgeW;
+           }
+      }
+      
+      // Update reach if this platform extends it
+      // (Simple logic: if it overlaps or is close enough to jump to, it extends our reach)
+      if (p.x <= currentRightEdge + MAX_GAP) {
+          // A moving platform carries the player as far right as its path goes
+          const travel = p.motion ? (p.motion.path === 'circular' ? p.motion.radius || 0 : p.motion.dx || 0) : 0;
+          currentRightEdge = Math.max(currentRightEdge, p.x + p.w + Math.max(0, travel));
+      }
+  }
+  levelConfig.platforms.push(...bridges);
+  levelConfig.platforms.sort((a: any, b: any) => a.x - b.x); // Final sort
+
+  // 4. Safe Goal: Ensure there is a platform under the goal
+  const goal = levelConfig.goal;
+  const hasGoalPlatform = levelConfig.platforms.some(p => 
+      p.x <= goal.x && 
+      (p.x + p.w) >= goal.x &&
+      Math.abs(p.y - goal.y) < 150
+  );
+
+  if (!hasGoalPlatform) {
+      // Inject safety platform at goal
+      levelConfig.platforms.push({
+          x: goal.x - 100,
+          y: goal.y + 60, // Goal typically sits on top, so platform is below
+          w: 250,
+          h: 50,
+          subtype: 'normal'
+      });
+  }
+
+  // 5. Reachability: fly the real movement envelope through the level, bridging to the goal if needed
+  const report = repairReachability(levelConfig);
+  if (!report.goalReachable) {
+      throw new Error("Generated level has no path from spawn to the goal");
+  }
+
+  return levelConfig;
+};
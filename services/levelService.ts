@@ -0,0 +1,188 @@
+import { LevelConfig, LevelProvider, LevelSource, LevelArchetype, LevelRequest, BossType, CollectibleDensity, LevelFeedback, LevelIssue } from "../types";
+import { GENERATION_MODEL, ARCHETYPE_BOUNDS } from "../constants";
+import { randomSeed } from "../game/random";
+import { createGeminiProvider, GeminiProviderOptions } from "./geminiService";
+import { createOpenAiProvider, OpenAiProviderOptions } from "./openAiService";
+import { createStaticProvider, StaticProviderOptions } from "./staticLevelService";
+import { createProceduralProvider, generateProceduralLevel } from "./proceduralService";
+import { repairLevel } from "./levelRepair";
+import { parseLevelJson } from "./levelValidator";
+import { addBossArena } from "./bossArena";
+
+// Picks a level provider from configuration, runs it, then validates and repairs the result.
+// Rejected answers are sent back to the model with their issues; anything else falls back to the offline generator.
+
+export interface LevelProviderConfig {
+  gemini: GeminiProviderOptions;
+  openai: OpenAiProviderOptions;
+  static: StaticProviderOptions;
+}
+
+export const LEVEL_SOURCES: { source: LevelSource; label: string; description: string }[] = [
+  { source: 'gemini', label: 'Gemini', description: 'Levels generated by Gemini, with an offline fallback' },
+  { source: 'openai', label: 'Local Model', description: 'Levels from an OpenAI-compatible model server' },
+  { source: 'static', label: 'Level File', description: 'Hand-made levels loaded from a JSON file' },
+  { source: 'procedural', label: 'Offline', description: 'Levels built on this device, no network needed' }
+];
+
+// Build-time configuration (see vite.config.ts); the menu can switch the source at runtime
+export const PROVIDER_CONFIG: LevelProviderConfig = {
+  gemini: {
+    apiKey: process.env.API_KEY,
+    model: process.env.GEMINI_MODEL || GENERATION_MODEL
+  },
+  openai: {
+    baseUrl: process.env.OPENAI_BASE_URL || 'http://localhost:8787/v1', // The mock server's default
+    model: process.env.OPENAI_MODEL || 'local-model',
+    apiKey: process.env.OPENAI_API_KEY
+  },
+  static: {
+    url: process.env.STATIC_LEVELS_URL || '/levels/backup-burrow.json'
+  }
+};
+
+export const DEFAULT_LEVEL_SOURCE: LevelSource =
+  LEVEL_SOURCES.find(s => s.source === process.env.LEVEL_PROVIDER)?.source || 'gemini';
+
+const GENERATION_TIMEOUT_MS = 60000; // Per attempt
+const MAX_GENERATION_ATTEMPTS = 3; // First answer plus follow-ups asking the model to fix its issues
+
+const providers = new Map<LevelSource, LevelProvider>();
+
+export const createLevelProvider = (source: LevelSource, config: LevelProviderConfig = PROVIDER_CONFIG): LevelProvider => {
+  switch (source) {
+    case 'gemini': return createGeminiProvider(config.gemini);
+    case 'openai': return createOpenAiProvider(config.openai);
+    case 'static': return createStaticProvider(config.static);
+    case 'procedural': return createProceduralProvider();
+  }
+};
+
+const getProvider = (source: LevelSource): LevelProvider => {
+  let provider = providers.get(source);
+  if (!provider) {
+    provider = createLevelProvider(source);
+    providers.set(source, provider);
+  }
+  return provider;
+};
+
+const withTimeout = <T>(promise: Promise<T>, ms: number, label: string): Promise<T> => {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${label} timed out`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+};
+
+type AttemptOutcome = 'accepted' | 'rejected' | 'failed';
+
+const logAttempt = (provider: LevelProvider, attempt: number, startedAt: number, outcome: AttemptOutcome, issues: LevelIssue[] = []) => {
+  const seconds = ((Date.now() - startedAt) / 1000).toFixed(1);
+  const summary = `[levels] ${provider.label} attempt ${attempt}/${MAX_GENERATION_ATTEMPTS}: ${outcome} after ${seconds}s`;
+  if (outcome === 'accepted') {
+    console.info(summary);
+  } else {
+    console.warn(issues.length > 0 ? `${summary} with ${issues.length} issue(s)` : summary);
+    if (issues.length > 0) console.table(issues);
+  }
+};
+
+// Validate and repair one provider answer, turning anything wrong into issues the model can act on
+const acceptResponse = (text: string, request: LevelRequest): { level: LevelConfig } | { issues: LevelIssue[] } => {
+  const result = parseLevelJson(text);
+  if ('issues' in result) return { issues: result.issues };
+  const hint = request.archetype === 'climb'
+    ? 'Keep every ledge within 150px (or 350px above a bouncy pad) of the one below it, all the way up to the goal.'
+    : 'Keep the ground path jumpable (gaps under 150px) all the way to the goal.';
+  try {
+    return { level: repairLevel(result.level, request.seed) };
+  } catch (error) {
+    return { issues: [{ path: 'goal', code: 'unreachable', message: `${(error as Error).message}. ${hint}` }] };
+  }
+};
+
+export const generateLevel = async (
+  source: LevelSource,
+  difficulty: number,
+  collectibleDensity: CollectibleDensity = 'medium',
+  seed: number = randomSeed(),
+  archetype: LevelArchetype = 'run'
+): Promise<LevelConfig> => {
+  const provider = getProvider(source);
+  const request: LevelRequest = { difficulty, collectibleDensity, seed, archetype, bounds: ARCHETYPE_BOUNDS[archetype] };
+  const maxAttempts = provider.acceptsFeedback ? MAX_GENERATION_ATTEMPTS : 1;
+  let feedback: LevelFeedback | undefined;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const startedAt = Date.now();
+    let text: string;
+    try {
+      text = await withTimeout(provider.generate(request, feedback), GENERATION_TIMEOUT_MS, provider.label);
+    } catch (error) {
+      // Transport problems (no key, network, timeout) won't be fixed by asking again
+      logAttempt(provider, attempt, startedAt, 'failed');
+      console.error(error);
+      break;
+    }
+
+    const result = acceptResponse(text, request);
+    if ('level' in result) {
+      logAttempt(provider, attempt, startedAt, 'accepted');
+      return result.level;
+    }
+    logAttempt(provider, attempt, startedAt, 'rejected', result.issues);
+    feedback = { response: text, issues: result.issues };
+  }
+
+  console.error(`Failed to generate level with ${provider.label} (using offline fallback)`);
+  return generateProceduralLevel(difficulty, collectibleDensity, seed, archetype, request.bounds);
+};
+
+// Easy levels are generous with seeds, harder ones make you work for them
+export const getCollectibleDensity = (difficulty: number): CollectibleDensity =>
+  difficulty === 1 ? 'high' : difficulty === 2 ? 'medium' : 'low';
+
+// Every fifth level ends in a boss arena, taking turns between the bosses
+const BOSS_EVERY = 5;
+const BOSS_ORDER: BossType[] = ['badger', 'eagle'];
+export const getLevelBoss = (difficulty: number): BossType | null =>
+  difficulty % BOSS_EVERY === 0 ? BOSS_ORDER[(difficulty / BOSS_EVERY - 1) % BOSS_ORDER.length] : null;
+
+// Every third level is a climb up a shaft instead of a run across the plains (boss levels are always runs)
+const CLIMB_EVERY = 3;
+export const getLevelArchetype = (difficulty: number): LevelArchetype =>
+  difficulty % CLIMB_EVERY === 0 && !getLevelBoss(difficulty) ? 'climb' : 'run';
+
+// The level the run's difficulty progression calls for
+const generateScheduledLevel = async (source: LevelSource, difficulty: number): Promise<LevelConfig> => {
+  const level = await generateLevel(source, difficulty, getCollectibleDensity(difficulty), randomSeed(), getLevelArchetype(difficulty));
+  const boss = getLevelBoss(difficulty);
+  return boss ? addBossArena(level, boss) : level;
+};
+
+// Levels generated ahead of time, keyed by source and difficulty
+const prefetched = new Map<string, Promise<LevelConfig>>();
+const prefetchKey = (source: LevelSource, difficulty: number) => `${source}:${difficulty}`;
+
+// Start generating a level in the background; loadLevel picks it up when it's needed
+export const prefetchLevel = (source: LevelSource, difficulty: number): Promise<LevelConfig> => {
+  const key = prefetchKey(source, difficulty);
+  let pending = prefetched.get(key);
+  if (!pending) {
+    pending = generateScheduledLevel(source, difficulty);
+    prefetched.set(key, pending);
+  }
+  return pending;
+};
+
+// The prefetched level if there is one (possibly still generating), otherwise a fresh one
+export const loadLevel = (source: LevelSource, difficulty: number): Promise<LevelConfig> => {
+  const key = prefetchKey(source, difficulty);
+  const pending = prefetched.get(key);
+  if (pending) {
+    prefetched.delete(key);
+    return pending;
+  }
+  return generateScheduledLevel(source, difficulty);
+};
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { LevelArchetype } from '../types';
+import { generateProceduralLevel } from './proceduralService';
+import { validateLevel } from './levelValidator';
+import { decodeShareCode, encodeShareCode, parseLevelFile, serializeLevelFile } from './levelShareService';
+
+const seeds = (from: number, count: number) => Array.from({ length: count }, (_, i) => from + i);
+
+// Generated levels, including the one whose buried bug used to make its own share code unreadable
+const CASES: { archetype: LevelArchetype; difficulty: number; seed: number }[] = [
+  { archetype: 'run', difficulty: 5, seed: 7924 },
+  ...[1, 2, 3, 5].flatMap(difficulty => seeds(7900, 25).map(seed => ({ archetype: 'run' as const, difficulty, seed }))),
+  ...[1, 3].flatMap(difficulty => seeds(7900, 5).map(seed => ({ archetype: 'climb' as const, difficulty, seed })))
+];
+
+describe('levelShareService', () => {
+  it.each(CASES)('re-imports a generated $archetype level (difficulty $difficulty, seed $seed)', async ({ archetype, difficulty, seed }) => {
+    const level = generateProceduralLevel(difficulty, 'medium', seed, archetype);
+    expect(validateLevel(JSON.parse(JSON.stringify(level)))).not.toHaveProperty('issues');
+
+    const fromCode = await decodeShareCode(await encodeShareCode(level, difficulty));
+    expect(fromCode).not.toHaveProperty('issues');
+    if ('shared' in fromCode) {
+      expect(fromCode.shared.difficulty).toBe(difficulty);
+      expect(fromCode.shared.level.seed).toBe(seed);
+      expect(fromCode.shared.level.platforms).toHaveLength(level.platforms.length);
+      expect(fromCode.shared.level.enemies).toHaveLength(level.enemies.length);
+      expect(fromCode.shared.level.collectibles).toHaveLength(level.collectibles.length);
+    }
+
+    const fromFile = parseLevelFile(serializeLevelFile(level, difficulty));
+    expect(fromFile).not.toHaveProperty('issues');
+    if ('shared' in fromFile) expect(fromFile.shared.difficulty).toBe(difficulty);
+  }, 20000);
+
+  it('rejects a code that was mangled in transit', async () => {
+    const code = await encodeShareCode(generateProceduralLevel(1, 'medium', 1), 1);
+    const result = await decodeShareCode(code.slice(0, -1) + (code.endsWith('a') ? 'b' : 'a'));
+    expect(result).toEqual({ issues: [expect.objectContaining({ code: 'checksum_mismatch' })] });
+  });
+
+  it.each(['null', '[1, 2]', '"level"', '{ "platforms": [[1, "x"]], "goal": 3 }', '{ "format": "prairie-dog-run/level", "version": "1" }'])(
+    'reports issues for a malformed level file: %s',
+    text => {
+      const result = parseLevelFile(text);
+      expect(result).toHaveProperty('issues');
+      if ('issues' in result) expect(result.issues.length).toBeGreaterThan(0);
+    }
+  );
+
+  it('refuses codes from a newer version of the game', async () => {
+    const [prefix, , payload, sum] = (await encodeShareCode(generateProceduralLevel(1, 'medium', 1), 1)).split('.');
+    const result = await decodeShareCode([prefix, 99, payload, sum].join('.'));
+    expect(result).toEqual({ issues: [expect.objectContaining({ code: 'unsupported_version' })] });
+  });
+});
@@ -0,0 +1,259 @@
+import { LevelConfig, LevelPlatform, LevelIssue } from '../types';
+import { seedFromString } from '../game/random';
+import { validateLevel } from './levelValidator';
+
+// Share codes and level files, so a level can leave the browser it was generated in.
+//
+// Share code:  pdr.<version>.<payload>.<checksum>
+//   payload  = base64url(deflate(JSON of a compact, tuple-based level))
+//   checksum = FNV-1a of the payload in base 36, to catch codes mangled by chat apps or typos
+// Level file: a .pdrlevel.json envelope holding the full LevelConfig.
+//
+// Both carry SHARE_VERSION. Older versions are upgraded through MIGRATIONS before validation,
+// so new LevelConfig fields only need a migration step, never a second parser.
+
+export const SHARE_VERSION = 1;
+export const LEVEL_FILE_FORMAT = 'prairie-dog-run/level';
+export const LEVEL_FILE_EXTENSION = '.pdrlevel.json';
+
+const CODE_PREFIX = 'pdr';
+
+const PLATFORM_SUBTYPES = ['normal', 'crumble', 'bouncy', 'oneway', 'conveyor'] as const;
+const MOTION_PATHS = ['linear', 'circular'] as const;
+const ENEMY_TYPES = ['snake', 'hawk', 'bat', 'bug', 'mole', 'coyote', 'badger', 'rattlesnake'] as const;
+const COLLECTIBLE_TYPES = ['seed', 'shield'] as const;
+const ARCHETYPES = ['run', 'climb'] as const;
+const HAZARD_TYPES = ['spikes', 'water', 'quicksand', 'wind'] as const;
+const BOSS_TYPES = ['badger', 'eagle'] as const;
+
+export interface SharedLevel {
+  level: LevelConfig;
+  difficulty: number;
+}
+
+export interface LevelFile {
+  format: typeof LEVEL_FILE_FORMAT;
+  version: number;
+  difficulty: number;
+  checksum: string;
+  exportedAt: string;
+  level: LevelConfig;
+}
+
+export type SharedLevelResult = { shared: SharedLevel } | { issues: LevelIssue[] };
+
+// Path index, then dx and dy (linear) or radius and 0 (circular), then period
+type CompactMotion = [number, number, number, number];
+
+// x, y, w, h and subtype index; motion and belt speed trail only when set
+type CompactPlatform = [number, number, number, number, number, (CompactMotion | null)?, number?];
+
+// Version 1 compact form: short keys and positional tuples with enum indices
+interface CompactLevel {
+  n: string;
+  d: string;
+  s?: number;
+  df: number;
+  p: CompactPlatform[];
+  o: [number, number, number, number][];
+  e: [number, number, number][];
+  c: [number, number, number][];
+  g: [number, number];
+  b?: [number, number, number]; // width, height, killY
+  a?: number; // Archetype index, omitted for runs
+  hz?: ([number, number, number, number, number] | [number, number, number, number, number, number, number])[]; // Wind adds its force
+  bs?: [number, number, number, number, number]; // Boss type index, x, y, arena x and arena width
+  cp?: [number, number][];
+}
+
+type ShareData = Record<string, unknown>;
+
+// Each entry upgrades the decoded data of that version to the next one
+const MIGRATIONS: Record<number, (data: ShareData) => ShareData> = {};
+
+const isObject = (value: unknown): value is ShareData =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Enum index back to its name; anything else passes through unchanged for the validator to report
+const fromIndex = (names: readonly string[], index: unknown) =>
+  typeof index === 'number' && names[index] !== undefined ? names[index] : index;
+
+const checksum = (text: string) => seedFromString(text).toString(36);
+
+const failure = (code: LevelIssue['code'], message: string): { issues: LevelIssue[] } => ({ issues: [{ path: '$', code, message }] });
+
+// Run bytes through a (de)compression stream; level JSON is very repetitive and shrinks to about a third
+const transform = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+const toBase64Url = async (text: string) => {
+  const bytes = await transform(new TextEncoder().encode(text), new CompressionStream('deflate-raw'));
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = async (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = await transform(Uint8Array.from(binary, ch => ch.charCodeAt(0)), new DecompressionStream('deflate-raw'));
+  return new TextDecoder().decode(bytes);
+};
+
+const compactPlatform = (p: LevelPlatform): CompactPlatform => {
+  const row: CompactPlatform = [p.x, p.y, p.w, p.h, Math.max(0, PLATFORM_SUBTYPES.indexOf(p.subtype || 'normal'))];
+  const m = p.motion;
+  if (m) row[5] = m.path === 'circular' ? [1, m.radius || 0, 0, m.period] : [0, m.dx || 0, m.dy || 0, m.period];
+  if (p.speed !== undefined) {
+    row[5] = row[5] ?? null;
+    row[6] = p.speed;
+  }
+  return row;
+};
+
+// Motion tuple back to a PlatformMotion; anything malformed passes through for the validator
+const expandMotion = (m: unknown) => {
+  if (!Array.isArray(m)) return m ?? undefined;
+  const [path, a, b, period]: unknown[] = m;
+  const name = fromIndex(MOTION_PATHS, path);
+  return name === 'circular'
+    ? { path: 'circular', radius: a, period }
+    : { path: name, dx: a, dy: b, period };
+};
+
+const compactLevel = (level: LevelConfig, difficulty: number): CompactLevel => ({
+  n: level.name,
+  d: level.description,
+  ...(level.seed !== undefined ? { s: level.seed } : {}),
+  df: difficulty,
+  p: level.platforms.map(compactPlatform),
+  o: level.obstacles.map(o => [o.x, o.y, o.w, o.h]),
+  e: level.enemies.map(e => [e.x, e.y, ENEMY_TYPES.indexOf(e.type)]),
+  c: level.collectibles.map(c => [c.x, c.y, Math.max(0, COLLECTIBLE_TYPES.indexOf(c.type || 'seed'))]),
+  g: [level.goal.x, level.goal.y],
+  ...(level.bounds ? { b: [level.bounds.width, level.bounds.height, level.bounds.killY] } : {}),
+  ...(level.archetype && level.archetype !== 'run' ? { a: ARCHETYPES.indexOf(level.archetype) } : {}),
+  ...(level.hazards?.length ? {
+    hz: level.hazards.map(h => {
+      const row: [number, number, number, number, number] = [h.x, h.y, h.w, h.h, HAZARD_TYPES.indexOf(h.type)];
+      return h.force ? [...row, h.force.x, h.force.y] as [number, number, number, number, number, number, number] : row;
+    })
+  } : {}),
+  ...(level.boss ? { bs: [BOSS_TYPES.indexOf(level.boss.type), level.boss.x, level.boss.y, level.boss.arena.x, level.boss.arena.w] } : {}),
+  ...(level.checkpoints?.length ? { cp: level.checkpoints.map(c => [c.x, c.y]) } : {})
+});
+
+// Back to LevelConfig shape; anything malformed is passed through for validateLevel to report with a path
+const expandLevel = (data: ShareData): unknown => {
+  const tuple = (value: unknown): unknown[] | null => (Array.isArray(value) ? value : null);
+  const rows = (value: unknown, expand: (row: unknown[]) => object) =>
+    Array.isArray(value) ? value.map((row: unknown) => expand(tuple(row) ?? [])) : value;
+  const g = tuple(data.g);
+  const b = tuple(data.b);
+  const bs = tuple(data.bs);
+  return {
+    name: data.n,
+    description: data.d,
+    seed: data.s,
+    platforms: rows(data.p, ([x, y, w, h, subtype, motion, speed]) => ({
+      x, y, w, h, subtype: fromIndex(PLATFORM_SUBTYPES, subtype), motion: expandMotion(motion), speed
+    })),
+    obstacles: rows(data.o, ([x, y, w, h]) => ({ x, y, w, h, type: 'crate' })),
+    enemies: rows(data.e, ([x, y, type]) => ({ x, y, type: fromIndex(ENEMY_TYPES, type) })),
+    collectibles: rows(data.c, ([x, y, type]) => ({ x, y, type: fromIndex(COLLECTIBLE_TYPES, type) })),
+    goal: g ? { x: g[0], y: g[1] } : data.g,
+    bounds: b ? { width: b[0], height: b[1], killY: b[2] } : data.b,
+    archetype: fromIndex(ARCHETYPES, data.a),
+    hazards: rows(data.hz, ([x, y, w, h, type, fx, fy]) => ({
+      x, y, w, h, type: fromIndex(HAZARD_TYPES, type), force: fx === undefined ? undefined : { x: fx, y: fy }
+    })),
+    boss: bs ? { type: fromIndex(BOSS_TYPES, bs[0]), x: bs[1], y: bs[2], arena: { x: bs[3], w: bs[4] } } : data.bs,
+    checkpoints: rows(data.cp, ([x, y]) => ({ x, y }))
+  };
+};
+
+const readDifficulty = (value: unknown) =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 1 ? value : 1;
+
+// Bring data from an older version up to SHARE_VERSION, or explain why that isn't possible
+const upgrade = (data: ShareData, version: unknown): { data: ShareData } | { issues: LevelIssue[] } => {
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    return failure('invalid_value', `Unknown level format version "${version}"`);
+  }
+  if (version > SHARE_VERSION) {
+    return failure('unsupported_version', `This level was made with a newer version of the game (format ${version}, this game reads up to ${SHARE_VERSION})`);
+  }
+  for (let v = version; v < SHARE_VERSION; v++) data = MIGRATIONS[v](data);
+  return { data };
+};
+
+const finish = (levelData: unknown, difficulty: number): SharedLevelResult => {
+  const result = validateLevel(levelData);
+  return 'issues' in result ? result : { shared: { level: result.level, difficulty } };
+};
+
+export const encodeShareCode = async (level: LevelConfig, difficulty: number): Promise<string> => {
+  const payload = await toBase64Url(JSON.stringify(compactLevel(level, difficulty)));
+  return `${CODE_PREFIX}.${SHARE_VERSION}.${payload}.${checksum(payload)}`;
+};
+
+export const decodeShareCode = async (code: string): Promise<SharedLevelResult> => {
+  const parts = code.replace(/\s+/g, '').split('.');
+  if (parts.length !== 4 || parts[0] !== CODE_PREFIX) {
+    return failure('invalid_code', "That doesn't look like a level code (they start with \"pdr.\")");
+  }
+  const [, versionText, payload, sum] = parts;
+  if (checksum(payload) !== sum) {
+    return failure('checksum_mismatch', 'The level code is damaged or incomplete; copy it again');
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(await fromBase64Url(payload));
+  } catch (e) {
+    return failure('invalid_code', `The level code could not be decoded: ${(e as Error).message}`);
+  }
+  if (!isObject(data)) return failure('invalid_code', 'The level code is empty');
+
+  const upgraded = upgrade(data, Number(versionText));
+  if ('issues' in upgraded) return upgraded;
+  return finish(expandLevel(upgraded.data), readDifficulty(upgraded.data.df));
+};
+
+export const serializeLevelFile = (level: LevelConfig, difficulty: number): string => {
+  const file: LevelFile = {
+    format: LEVEL_FILE_FORMAT,
+    version: SHARE_VERSION,
+    difficulty,
+    checksum: checksum(JSON.stringify(level)),
+    exportedAt: new Date().toISOString(),
+    level
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+// Accepts a .pdrlevel.json file, or a bare LevelConfig such as a library export
+export const parseLevelFile = (text: string): SharedLevelResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    return failure('invalid_json', `The file is not valid JSON: ${(e as Error).message}`);
+  }
+
+  if (!isObject(data) || data.format !== LEVEL_FILE_FORMAT) return finish(data, 1);
+
+  // Checked before any migration, against the level exactly as it was written
+  if (data.checksum !== checksum(JSON.stringify(data.level ?? null))) {
+    return failure('checksum_mismatch', 'The level file was changed after it was exported');
+  }
+  const upgraded = upgrade(data, data.version);
+  if ('issues' in upgraded) return upgraded;
+  return finish(upgraded.data.level, readDifficulty(upgraded.data.difficulty));
+};
+
+// Whatever the player pasted or picked: a share code or the contents of a level file
+export const importSharedLevel = async (text: string): Promise<SharedLevelResult> => {
+  const trimmed = text.trim();
+  if (!trimmed) return failure('missing', 'Paste a level code or choose a level file');
+  return trimmed.startsWith(`${CODE_PREFIX}.`) ? decodeShareCode(trimmed) : parseLevelFile(trimmed);
+};
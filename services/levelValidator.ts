@@ -0,0 +1,347 @@
+import { LevelConfig, LevelBounds, LevelIssue, LevelHazard, PlatformMotion } from "../types";
+import { DEFAULT_LEVEL_BOUNDS } from "../constants";
+import { ENEMY_DEFINITIONS } from "../game/enemyDefinitions";
+
+// Strict runtime validation for level JSON from outside the game. Every problem is reported with the
+// path of the offending value, and a valid level is rebuilt from known fields only.
+
+export type LevelValidationResult = { level: LevelConfig } | { issues: LevelIssue[] };
+
+// Coordinate limits for levels without explicit bounds; anything far past the default world is a model hallucination
+const MIN_X = -500;
+const MAX_X = DEFAULT_LEVEL_BOUNDS.width * 2;
+const MIN_Y = -1500;
+const MAX_Y = 1500;
+// Levels with bounds are checked against them instead, with a little slack around the edges
+const BOUNDS_MARGIN = 500;
+const MAX_WIDTH = 20000;
+const MAX_HEIGHT = 10000;
+const MAX_SIZE = 6000;
+const MAX_ITEMS = 300;
+const ENEMY_SIZE = 40;
+const COLLECTIBLE_SIZE = 30;
+const SNAP_DISTANCE = 50; // Matches the snake/mole platform snapping in createWorld
+const BOUNCE_HEADROOM = 120; // Clear space a bouncy pad needs above it, or the launch bonks straight away
+const CLIMB_MIN_RISE = 600; // A climb's goal must be at least this far above the starting floor
+const START_FLOOR_Y = 500;
+const MIN_MOTION_PERIOD = 60; // Ticks; anything faster can't be ridden
+const MAX_MOTION_PERIOD = 1800;
+const MAX_TRAVEL = 2000; // Furthest a moving platform may stray from its start
+const MAX_CONVEYOR_SPEED = 10; // Past this a belt outruns the player
+const MAX_WIND = 2; // Stronger than gravity sideways; an updraft of up to -MAX_WIND still lets the player fall out
+const SPAWN = { x: 50, y: 400, w: 40, h: 100 }; // The spawn point and the drop onto the start floor
+
+const PLATFORM_SUBTYPES = ['normal', 'crumble', 'bouncy', 'oneway', 'conveyor'] as const;
+const MOTION_PATHS = ['linear', 'circular'] as const;
+const ENEMY_TYPES = ['snake', 'hawk', 'bat', 'bug', 'mole', 'coyote', 'badger', 'rattlesnake'] as const;
+const COLLECTIBLE_TYPES = ['seed', 'shield'] as const;
+const ARCHETYPES = ['run', 'climb'] as const;
+const HAZARD_TYPES = ['spikes', 'water', 'quicksand', 'wind'] as const;
+const BOSS_TYPES = ['badger', 'eagle'] as const;
+const MIN_ARENA_WIDTH = 400; // Room for the player to stay clear of a charge
+
+const describe = (value: unknown) => {
+  if (value === undefined) return 'undefined';
+  const json = JSON.stringify(value);
+  return json && json.length > 40 ? `${json.slice(0, 37)}...` : String(json);
+};
+
+export const validateLevel = (data: unknown): LevelValidationResult => {
+  const issues: LevelIssue[] = [];
+  const issue = (path: string, code: LevelIssue['code'], message: string) => {
+    issues.push({ path, code, message });
+  };
+
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+  const readString = (obj: Record<string, unknown>, key: string, path: string): string => {
+    const value = obj[key];
+    if (value === undefined) issue(path, 'missing', `${path} is required`);
+    else if (typeof value !== 'string' || value.trim() === '') issue(path, 'wrong_type', `${path} must be a non-empty string (got ${describe(value)})`);
+    else return value;
+    return '';
+  };
+
+  const readNumber = (obj: Record<string, unknown>, key: string, path: string, min: number, max: number, positive = false): number => {
+    const value = obj[key];
+    if (value === undefined) {
+      issue(path, 'missing', `${path} is required`);
+    } else if (typeof value !== 'number') {
+      issue(path, 'wrong_type', `${path} must be a number (got ${describe(value)})`);
+    } else if (!Number.isFinite(value)) {
+      issue(path, 'not_finite', `${path} must be a finite number (got ${describe(value)})`);
+    } else if (positive && value <= 0) {
+      issue(path, 'not_positive', `${path} must be greater than 0 (got ${value})`);
+    } else if (value < min || value > max) {
+      issue(path, 'out_of_bounds', `${path} must be between ${min} and ${max} (got ${value})`);
+    } else {
+      return value;
+    }
+    return NaN;
+  };
+
+  const readEnum = <T extends string>(obj: Record<string, unknown>, key: string, path: string, allowed: readonly T[], optional: boolean): T | undefined => {
+    const value = obj[key];
+    if (value === undefined || value === null) {
+      if (!optional) issue(path, 'missing', `${path} is required`);
+      return undefined;
+    }
+    if (!allowed.includes(value as T)) {
+      issue(path, 'invalid_value', `${path} must be one of ${allowed.map(a => `"${a}"`).join(', ')} (got ${describe(value)})`);
+      return undefined;
+    }
+    return value as T;
+  };
+
+  const readMotion = (obj: Record<string, unknown>, path: string): PlatformMotion | undefined => {
+    const value = obj.motion;
+    if (value === undefined || value === null) return undefined;
+    if (!isObject(value)) {
+      issue(path, 'wrong_type', `${path} must be an object with path and period (got ${describe(value)})`);
+      return undefined;
+    }
+    const kind = readEnum(value, 'path', `${path}.path`, MOTION_PATHS, false);
+    const period = readNumber(value, 'period', `${path}.period`, MIN_MOTION_PERIOD, MAX_MOTION_PERIOD, true);
+    if (kind === 'circular') {
+      return { path: kind, radius: readNumber(value, 'radius', `${path}.radius`, 0, MAX_TRAVEL / 2, true), period };
+    }
+    const motion: PlatformMotion = { path: 'linear', period };
+    if (value.dx !== undefined) motion.dx = readNumber(value, 'dx', `${path}.dx`, -MAX_TRAVEL, MAX_TRAVEL);
+    if (value.dy !== undefined) motion.dy = readNumber(value, 'dy', `${path}.dy`, -MAX_TRAVEL, MAX_TRAVEL);
+    if (!motion.dx && !motion.dy) issue(path, 'missing', `${path} is a linear path, so it needs a non-zero dx or dy`);
+    return motion;
+  };
+
+  // Items paired with their index in the original array, so paths stay accurate when bad items are dropped
+  const readArray = (obj: Record<string, unknown>, key: string, minItems: number): [Record<string, unknown>, number][] => {
+    const value = obj[key];
+    if (value === undefined) {
+      issue(key, 'missing', `${key} is required (use [] if there are none)`);
+      return [];
+    }
+    if (!Array.isArray(value)) {
+      issue(key, 'wrong_type', `${key} must be an array (got ${describe(value)})`);
+      return [];
+    }
+    if (value.length < minItems) issue(key, 'missing', `${key} must contain at least ${minItems} item(s)`);
+    if (value.length > MAX_ITEMS) issue(key, 'out_of_bounds', `${key} has ${value.length} items, the maximum is ${MAX_ITEMS}`);
+    const items: [Record<string, unknown>, number][] = [];
+    value.forEach((item, i) => {
+      if (isObject(item)) items.push([item, i]);
+      else issue(`${key}[${i}]`, 'wrong_type', `${key}[${i}] must be an object (got ${describe(item)})`);
+    });
+    return items;
+  };
+
+  if (!isObject(data)) {
+    return { issues: [{ path: '$', code: 'wrong_type', message: `The level must be a JSON object (got ${describe(data)})` }] };
+  }
+
+  let bounds: LevelBounds | undefined;
+  if (data.bounds !== undefined && data.bounds !== null) {
+    if (!isObject(data.bounds)) {
+      issue('bounds', 'wrong_type', `bounds must be an object with width, height and killY (got ${describe(data.bounds)})`);
+    } else {
+      bounds = {
+        width: readNumber(data.bounds, 'width', 'bounds.width', 0, MAX_WIDTH, true),
+        height: readNumber(data.bounds, 'height', 'bounds.height', 0, MAX_HEIGHT, true),
+        killY: readNumber(data.bounds, 'killY', 'bounds.killY', MIN_Y, MAX_Y)
+      };
+    }
+  }
+  const minX = bounds ? -BOUNDS_MARGIN : MIN_X;
+  const maxX = bounds ? bounds.width + BOUNDS_MARGIN : MAX_X;
+  const minY = bounds ? bounds.killY - bounds.height - BOUNDS_MARGIN : MIN_Y;
+  const maxY = bounds ? bounds.killY : MAX_Y; // Anything below the kill plane is unreachable
+
+  const name = readString(data, 'name', 'name');
+  const description = readString(data, 'description', 'description');
+  const platformItems = readArray(data, 'platforms', 1);
+  const obstacleItems = readArray(data, 'obstacles', 0);
+  const enemyItems = readArray(data, 'enemies', 0);
+  const collectibleItems = readArray(data, 'collectibles', 0);
+  const hazardItems = data.hazards === undefined || data.hazards === null ? [] : readArray(data, 'hazards', 0); // Optional
+  const checkpointItems = data.checkpoints === undefined || data.checkpoints === null ? [] : readArray(data, 'checkpoints', 0); // Optional
+
+  const level: LevelConfig = {
+    name,
+    description,
+    platforms: platformItems.map(([p, i]) => {
+      const path = `platforms[${i}]`;
+      const platform: LevelConfig['platforms'][number] = {
+        x: readNumber(p, 'x', `${path}.x`, minX, maxX),
+        y: readNumber(p, 'y', `${path}.y`, minY, maxY),
+        w: readNumber(p, 'w', `${path}.w`, 0, MAX_SIZE, true),
+        h: readNumber(p, 'h', `${path}.h`, 0, MAX_SIZE, true),
+        subtype: readEnum(p, 'subtype', `${path}.subtype`, PLATFORM_SUBTYPES, true)
+      };
+      const motion = readMotion(p, `${path}.motion`);
+      if (motion) platform.motion = motion;
+      if (p.speed !== undefined && p.speed !== null) {
+        if (platform.subtype !== 'conveyor') issue(`${path}.speed`, 'invalid_value', `${path}.speed only applies to "conveyor" platforms`);
+        else platform.speed = readNumber(p, 'speed', `${path}.speed`, -MAX_CONVEYOR_SPEED, MAX_CONVEYOR_SPEED);
+      }
+      return platform;
+    }),
+    obstacles: obstacleItems.map(([o, i]) => {
+      const path = `obstacles[${i}]`;
+      readEnum(o, 'type', `${path}.type`, ['crate'] as const, false);
+      return {
+        x: readNumber(o, 'x', `${path}.x`, minX, maxX),
+        y: readNumber(o, 'y', `${path}.y`, minY, maxY),
+        w: readNumber(o, 'w', `${path}.w`, 0, MAX_SIZE, true),
+        h: readNumber(o, 'h', `${path}.h`, 0, MAX_SIZE, true),
+        type: 'crate' as const
+      };
+    }),
+    enemies: enemyItems.map(([e, i]) => {
+      const path = `enemies[${i}]`;
+      return {
+        x: readNumber(e, 'x', `${path}.x`, minX, maxX),
+        y: readNumber(e, 'y', `${path}.y`, minY, maxY),
+        type: readEnum(e, 'type', `${path}.type`, ENEMY_TYPES, false) || 'snake'
+      };
+    }),
+    collectibles: collectibleItems.map(([c, i]) => {
+      const path = `collectibles[${i}]`;
+      return {
+        x: readNumber(c, 'x', `${path}.x`, minX, maxX),
+        y: readNumber(c, 'y', `${path}.y`, minY, maxY),
+        type: readEnum(c, 'type', `${path}.type`, COLLECTIBLE_TYPES, true) || 'seed'
+      };
+    }),
+    goal: { x: NaN, y: NaN }
+  };
+
+  if (!isObject(data.goal)) {
+    issue('goal', data.goal === undefined ? 'missing' : 'wrong_type', `goal must be an object with x and y (got ${describe(data.goal)})`);
+  } else {
+    level.goal = {
+      x: readNumber(data.goal, 'x', 'goal.x', minX, maxX),
+      y: readNumber(data.goal, 'y', 'goal.y', minY, maxY)
+    };
+  }
+
+  if (data.hazards !== undefined && data.hazards !== null) {
+    level.hazards = hazardItems.map(([h, i]) => {
+      const path = `hazards[${i}]`;
+      const hazard: LevelHazard = {
+        x: readNumber(h, 'x', `${path}.x`, minX, maxX),
+        y: readNumber(h, 'y', `${path}.y`, minY, maxY),
+        w: readNumber(h, 'w', `${path}.w`, 0, MAX_SIZE, true),
+        h: readNumber(h, 'h', `${path}.h`, 0, MAX_SIZE, true),
+        type: readEnum(h, 'type', `${path}.type`, HAZARD_TYPES, false) || 'spikes'
+      };
+      if (h.force !== undefined && h.force !== null) {
+        if (hazard.type !== 'wind') issue(`${path}.force`, 'invalid_value', `${path}.force only applies to "wind" hazards`);
+        else if (!isObject(h.force)) issue(`${path}.force`, 'wrong_type', `${path}.force must be an object with x and y (got ${describe(h.force)})`);
+        else hazard.force = {
+          x: readNumber(h.force, 'x', `${path}.force.x`, -MAX_WIND, MAX_WIND),
+          y: readNumber(h.force, 'y', `${path}.force.y`, -MAX_WIND, MAX_WIND)
+        };
+      }
+      // Spawning into something that hurts costs a life before the player can move
+      const coversSpawn = hazard.x < SPAWN.x + SPAWN.w && hazard.x + hazard.w > SPAWN.x && hazard.y < SPAWN.y + SPAWN.h && hazard.y + hazard.h > SPAWN.y;
+      if (coversSpawn && (hazard.type === 'spikes' || hazard.type === 'quicksand')) {
+        issue(path, 'overlap', `${path} (${hazard.type}) covers the spawn point at ${SPAWN.x},${SPAWN.y}; move it away from the start`);
+      }
+      return hazard;
+    });
+  }
+
+  if (data.checkpoints !== undefined && data.checkpoints !== null) {
+    level.checkpoints = checkpointItems.map(([c, i]) => ({
+      x: readNumber(c, 'x', `checkpoints[${i}].x`, minX, maxX),
+      y: readNumber(c, 'y', `checkpoints[${i}].y`, minY, maxY)
+    }));
+  }
+
+  if (data.boss !== undefined && data.boss !== null) {
+    if (!isObject(data.boss) || !isObject(data.boss.arena)) {
+      issue('boss', 'wrong_type', `boss must be an object with type, x, y and an arena with x and w (got ${describe(data.boss)})`);
+    } else {
+      level.boss = {
+        type: readEnum(data.boss, 'type', 'boss.type', BOSS_TYPES, false) || 'badger',
+        x: readNumber(data.boss, 'x', 'boss.x', minX, maxX),
+        y: readNumber(data.boss, 'y', 'boss.y', minY, maxY),
+        arena: {
+          x: readNumber(data.boss.arena, 'x', 'boss.arena.x', minX, maxX),
+          w: readNumber(data.boss.arena, 'w', 'boss.arena.w', MIN_ARENA_WIDTH, MAX_SIZE, true)
+        }
+      };
+      const { x, arena } = level.boss;
+      if (x < arena.x || x > arena.x + arena.w) {
+        issue('boss.x', 'out_of_bounds', `boss.x must be inside its arena (${arena.x} to ${arena.x + arena.w}, got ${x})`);
+      }
+    }
+  }
+
+  if (bounds) level.bounds = bounds;
+  const archetype = readEnum(data, 'archetype', 'archetype', ARCHETYPES, true);
+  if (archetype) level.archetype = archetype;
+
+  if (data.seed !== undefined) {
+    const seed = readNumber(data, 'seed', 'seed', 0, 0xFFFFFFFF);
+    if (Number.isInteger(seed)) level.seed = seed;
+  }
+
+  // Entities embedded in solid ground can never be touched (and stomped enemies can't be reached)
+  const solidAt = (x: number, y: number, w: number, h: number) => {
+    const n = level.platforms.findIndex(p => x < p.x + p.w && x + w > p.x && y < p.y + p.h && y + h > p.y);
+    return n >= 0 ? platformItems[n][1] : -1;
+  };
+
+  enemyItems.forEach(([, i], n) => {
+    const e = level.enemies[n];
+    if (ENEMY_DEFINITIONS[e.type].ground) {
+      const snaps = level.platforms.some(p => !p.motion && e.x >= p.x && e.x <= p.x + p.w && Math.abs(p.y - e.y) < SNAP_DISTANCE);
+      if (snaps) return; // Ground enemies are moved onto the platform surface
+    }
+    const inside = solidAt(e.x, e.y, ENEMY_SIZE, ENEMY_SIZE);
+    if (inside >= 0) {
+      issue(`enemies[${i}]`, 'overlap', `enemies[${i}] (${e.type} at ${e.x},${e.y}) is inside platforms[${inside}]; place it above the platform`);
+    }
+  });
+
+  collectibleItems.forEach(([, i], n) => {
+    const c = level.collectibles[n];
+    const inside = solidAt(c.x, c.y, COLLECTIBLE_SIZE, COLLECTIBLE_SIZE);
+    if (inside >= 0) {
+      issue(`collectibles[${i}]`, 'overlap', `collectibles[${i}] at ${c.x},${c.y} is inside platforms[${inside}]; place it above the platform`);
+    }
+  });
+
+  // Stacked special platforms: crumble and bouncy ones buried in other platforms never trigger,
+  // and a bouncy pad with a ledge right above it just bonks the player's head (moving platforms only pass by)
+  level.platforms.forEach((p, n) => {
+    if ((p.subtype !== 'crumble' && p.subtype !== 'bouncy') || p.motion) return;
+    const i = platformItems[n][1];
+    level.platforms.forEach((q, m) => {
+      if (m === n || q.motion || p.x >= q.x + q.w || p.x + p.w <= q.x) return;
+      const j = platformItems[m][1];
+      if (p.y < q.y + q.h && p.y + p.h > q.y) {
+        issue(`platforms[${i}]`, 'overlap', `platforms[${i}] (${p.subtype}) overlaps platforms[${j}]; stacked platforms need a gap between them`);
+      } else if (p.subtype === 'bouncy' && q.y + q.h <= p.y && q.y + q.h > p.y - BOUNCE_HEADROOM) {
+        issue(`platforms[${i}]`, 'overlap', `platforms[${i}] (bouncy) has platforms[${j}] less than ${BOUNCE_HEADROOM}px above it; move the ledge sideways or higher`);
+      }
+    });
+  });
+
+  if (level.archetype === 'climb' && level.goal.y > START_FLOOR_Y - CLIMB_MIN_RISE) {
+    issue('goal.y', 'invalid_value', `A climb's goal must be at the top of the shaft, at least ${CLIMB_MIN_RISE}px above the starting floor (y <= ${START_FLOOR_Y - CLIMB_MIN_RISE}, got ${level.goal.y})`);
+  }
+
+  return issues.length > 0 ? { issues } : { level };
+};
+
+// Parse raw model output, reporting malformed JSON as an issue rather than throwing
+export const parseLevelJson = (text: string): LevelValidationResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    return { issues: [{ path: '$', code: 'invalid_json', message: `Response is not valid JSON: ${(e as Error).message}` }] };
+  }
+  return validateLevel(data);
+};
@@ -0,0 +1,111 @@
+import { LevelConfig } from '../types';
+import { getLevelKey } from '../game/ghost';
+
+// Every level the player has been given, kept in IndexedDB so good ones can be replayed later
+
+export interface LibraryResult {
+  timeSeconds: number;
+  seeds: number;
+  score: number;
+  completedAt: string;
+}
+
+export interface LibraryEntry {
+  id: string; // getLevelKey(level)
+  name: string;
+  difficulty: number;
+  seed: number;
+  level: LevelConfig;
+  createdAt: string;
+  plays: number;
+  best: LibraryResult | null; // Fastest win
+  favourite: boolean;
+}
+
+const DB_NAME = 'prairie_dog_run';
+const DB_VERSION = 1;
+const LEVEL_STORE = 'levels';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(LEVEL_STORE)) db.createObjectStore(LEVEL_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; }); // Allow a retry after e.g. a blocked upgrade
+  }
+  return dbPromise;
+};
+
+// Run a single request against the level store and resolve once its transaction commits
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(LEVEL_STORE, mode);
+    const request = run(tx.objectStore(LEVEL_STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const getEntry = (id: string) => withStore<LibraryEntry | undefined>('readonly', store => store.get(id));
+const putEntry = (entry: LibraryEntry) => withStore('readwrite', store => store.put(entry));
+
+export const listLibrary = async (): Promise<LibraryEntry[]> => {
+  const entries = await withStore<LibraryEntry[]>('readonly', store => store.getAll());
+  return entries
+    .map(entry => ({ ...entry, favourite: entry.favourite === true })) // Entries saved before favourites have none
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+// Add a level if it isn't in the library yet; an existing entry (and its best result) is left alone
+export const saveToLibrary = async (level: LevelConfig, difficulty: number) => {
+  try {
+    const id = getLevelKey(level);
+    if (await getEntry(id)) return;
+    await putEntry({
+      id,
+      name: level.name,
+      difficulty,
+      seed: level.seed ?? 0,
+      level,
+      createdAt: new Date().toISOString(),
+      plays: 0,
+      best: null,
+      favourite: false
+    });
+  } catch (e) {
+    console.error("Failed to save level to library", e);
+  }
+};
+
+export const deleteFromLibrary = (id: string) => withStore('readwrite', store => store.delete(id));
+
+export const setLibraryFavourite = async (id: string, favourite: boolean) => {
+  const entry = await getEntry(id);
+  if (!entry) return;
+  await putEntry({ ...entry, favourite });
+};
+
+// Count a finished attempt, keeping the fastest win as the best result
+export const recordLibraryResult = async (level: LevelConfig, won: boolean, result: Omit<LibraryResult, 'completedAt'>) => {
+  try {
+    const entry = await getEntry(getLevelKey(level));
+    if (!entry) return;
+    entry.plays++;
+    if (won && (!entry.best || result.timeSeconds < entry.best.timeSeconds)) {
+      entry.best = { ...result, completedAt: new Date().toISOString() };
+    }
+    await putEntry(entry);
+  } catch (e) {
+    console.error("Failed to record library result", e);
+  }
+};
@@ -0,0 +1,52 @@
+import { LevelProvider } from "../types";
+import { buildLevelPrompt, buildFixPrompt } from "./levelPrompt";
+
+// Any server speaking the OpenAI chat-completions API: hosted models, local model servers, or the mock server
+
+export interface OpenAiProviderOptions {
+  baseUrl: string; // e.g. http://localhost:8787/v1
+  model: string;
+  apiKey?: string;
+}
+
+// Local models like to wrap JSON in markdown fences even when asked not to
+const extractJson = (text: string): string => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  return fenced ? fenced[1] : text;
+};
+
+export const createOpenAiProvider = ({ baseUrl, model, apiKey }: OpenAiProviderOptions): LevelProvider => ({
+  source: 'openai',
+  label: `${model} @ ${baseUrl}`,
+  acceptsFeedback: true,
+  generate: async (request, feedback) => {
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model,
+        temperature: 0.7,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: 'You are a level designer for a 2D platformer. Reply with a single JSON object and nothing else.' },
+          { role: 'user', content: buildLevelPrompt(request, true) },
+          // A rejected answer continues the conversation so the model can see what it got wrong
+          ...(feedback ? [
+            { role: 'assistant', content: feedback.response },
+            { role: 'user', content: buildFixPrompt(feedback.issues) }
+          ] : [])
+        ]
+      })
+    });
+
+    if (!response.ok) throw new Error(`Level server responded ${response.status} ${response.statusText}`);
+
+    const data = await response.json();
+    const text = data?.choices?.[0]?.message?.content;
+    if (typeof text !== 'string' || !text) throw new Error("No content generated");
+    return extractJson(text);
+  }
+});
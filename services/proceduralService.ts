@@ -0,0 +1,557 @@
+import { LevelConfig, LevelBounds, LevelArchetype, LevelProvider, CollectibleDensity } from "../types";
+import { ARCHETYPE_BOUNDS, CHECKPOINT_SPACING } from "../constants";
+import { Rng, createRng, nextRandom, randomSeed } from "../game/random";
+import { repairReachability } from "../game/reachability";
+import { ENEMY_DEFINITIONS } from "../game/enemyDefinitions";
+
+// Offline level generator. Builds a level left to right (or bottom to top for climbs) from hand-tuned
+// chunks, driven entirely by the seed, so the same (difficulty, density, seed) always produces the same level.
+
+type EnemyType = LevelConfig['enemies'][number]['type'];
+type ChunkKind = 'ground' | 'steps' | 'crumble_bridge' | 'bouncy_tower' | 'crate_wall' | 'ferry' | 'conveyor' | 'creek' | 'cactus' | 'quicksand';
+type ClimbChunkKind = 'ledge' | 'bouncy_stack' | 'crumble_stairs' | 'elevator';
+
+const GOAL_CHUNK_WIDTH = 400; // Chunks stop this far short of the requested width; the goal chunk follows
+const GROUND_Y = 500;
+const MAX_ATTEMPTS = 5;
+
+interface DifficultyProfile {
+  gap: [number, number]; // Horizontal gap between chunks
+  rise: number; // Max height change between neighbouring ground chunks
+  chunks: [ChunkKind, number][]; // Weighted chunk table
+  enemies: EnemyType[];
+  enemiesPerChunk: number;
+}
+
+const PROFILES: Record<1 | 2 | 3, DifficultyProfile> = {
+  1: {
+    gap: [40, 110],
+    rise: 30,
+    chunks: [['ground', 5], ['steps', 2], ['bouncy_tower', 1], ['crate_wall', 1], ['conveyor', 1], ['creek', 1], ['quicksand', 1]],
+    enemies: ['snake', 'bug'],
+    enemiesPerChunk: 0.4
+  },
+  2: {
+    gap: [80, 150],
+    rise: 60,
+    chunks: [['ground', 4], ['steps', 3], ['crumble_bridge', 2], ['bouncy_tower', 2], ['crate_wall', 1], ['ferry', 1], ['conveyor', 1], ['creek', 1], ['cactus', 1], ['quicksand', 1]],
+    enemies: ['snake', 'mole', 'bat', 'bug', 'rattlesnake'],
+    enemiesPerChunk: 0.8
+  },
+  3: {
+    gap: [120, 190],
+    rise: 90,
+    chunks: [['ground', 2], ['steps', 3], ['crumble_bridge', 3], ['bouncy_tower', 2], ['crate_wall', 2], ['ferry', 2], ['conveyor', 2], ['creek', 1], ['cactus', 2], ['quicksand', 2]],
+    enemies: ['snake', 'mole', 'bat', 'bug', 'hawk', 'coyote', 'rattlesnake', 'badger'],
+    enemiesPerChunk: 1.2
+  }
+};
+
+interface ClimbProfile {
+  rise: [number, number]; // Vertical distance between ledges (a plain jump tops out around 200px)
+  ledgeW: [number, number];
+  chunks: [ClimbChunkKind, number][];
+  enemies: EnemyType[];
+  enemiesPerChunk: number;
+}
+
+const CLIMB_PROFILES: Record<1 | 2 | 3, ClimbProfile> = {
+  1: {
+    rise: [80, 110],
+    ledgeW: [180, 260],
+    chunks: [['ledge', 6], ['bouncy_stack', 1]],
+    enemies: ['bug'],
+    enemiesPerChunk: 0.15
+  },
+  2: {
+    rise: [90, 130],
+    ledgeW: [140, 200],
+    chunks: [['ledge', 4], ['bouncy_stack', 2], ['crumble_stairs', 2], ['elevator', 1]],
+    enemies: ['bug', 'bat'],
+    enemiesPerChunk: 0.3
+  },
+  3: {
+    rise: [100, 150],
+    ledgeW: [110, 160],
+    chunks: [['ledge', 3], ['bouncy_stack', 2], ['crumble_stairs', 3], ['elevator', 2]],
+    enemies: ['bug', 'bat', 'hawk'],
+    enemiesPerChunk: 0.45
+  }
+};
+
+const WALL_THICKNESS = 100;
+const GOAL_LEDGE_WIDTH = 240;
+
+const SEEDS_PER_CHUNK: Record<CollectibleDensity, [number, number]> = { low: [0, 2], medium: [1, 3], high: [3, 5] };
+const SHIELD_CHANCE: Record<CollectibleDensity, number> = { low: 0.04, medium: 0.1, high: 0.2 };
+
+const ADJECTIVES = ['Windy', 'Dusty', 'Golden', 'Crooked', 'Sunny', 'Prickly', 'Hidden', 'Rolling', 'Thirsty', 'Whispering'];
+const PLACES = ['Gulch', 'Meadow', 'Mesa', 'Hollow', 'Flats', 'Ridge', 'Coulee', 'Bluffs', 'Draw', 'Prairie'];
+const MISSIONS = [
+  'Scurry across the plains before the hawks wake up.',
+  'Winter is coming and the pantry is empty. Grab every seed!',
+  'The burrow is just past the ridge. Probably.',
+  'Someone left crates all over the field again.',
+  'Hop, dash and tumble your way home.'
+];
+
+const randRange = (rng: Rng, min: number, max: number) => min + nextRandom(rng) * (max - min);
+const randInt = (rng: Rng, min: number, max: number) => Math.floor(randRange(rng, min, max + 1));
+const pick = <T>(rng: Rng, items: T[]): T => items[Math.floor(nextRandom(rng) * items.length)];
+
+const pickWeighted = <T>(rng: Rng, table: [T, number][]): T => {
+  const total = table.reduce((sum, [, w]) => sum + w, 0);
+  let roll = nextRandom(rng) * total;
+  for (const [item, weight] of table) {
+    roll -= weight;
+    if (roll < 0) return item;
+  }
+  return table[table.length - 1][0];
+};
+
+const buildLevel = (difficulty: number, density: CollectibleDensity, bounds: LevelBounds, rng: Rng): LevelConfig => {
+  const profile = PROFILES[Math.min(Math.max(difficulty, 1), 3) as 1 | 2 | 3];
+  // Past level 3 the profile stays "hard" but enemies keep piling on
+  const enemyRate = profile.enemiesPerChunk + Math.max(0, difficulty - 3) * 0.2;
+
+  const level: LevelConfig = {
+    name: `${pick(rng, ADJECTIVES)} ${pick(rng, PLACES)}`,
+    description: pick(rng, MISSIONS),
+    platforms: [],
+    obstacles: [],
+    enemies: [],
+    collectibles: [],
+    hazards: [],
+    goal: { x: 0, y: 0 }
+  };
+
+  const addSeedArc = (x: number, w: number, y: number) => {
+    const count = randInt(rng, ...SEEDS_PER_CHUNK[density]);
+    for (let i = 0; i < count; i++) {
+      const t = (i + 1) / (count + 1);
+      level.collectibles.push({ x: x + w * t - 15, y: y - 60 - Math.sin(t * Math.PI) * 60, type: 'seed' });
+    }
+    if (nextRandom(rng) < SHIELD_CHANCE[density]) {
+      level.collectibles.push({ x: x + w / 2 - 15, y: y - 150, type: 'shield' });
+    }
+  };
+
+  const addEnemies = (x: number, w: number, groundY: number) => {
+    let budget = enemyRate;
+    while (budget > 0 && nextRandom(rng) < budget) {
+      budget -= 1;
+      const type = pick(rng, profile.enemies);
+      const ex = randRange(rng, x + 40, x + Math.max(w - 80, 41));
+      level.enemies.push({ x: ex, y: ENEMY_DEFINITIONS[type].ground ? groundY - 40 : randRange(rng, 200, groundY - 150), type });
+    }
+  };
+
+  // Safe start
+  level.platforms.push({ x: 0, y: GROUND_Y, w: 400, h: 100, subtype: 'normal' });
+  let cursor = 400;
+  let groundY = GROUND_Y;
+
+  while (cursor < bounds.width - GOAL_CHUNK_WIDTH) {
+    const kind = pickWeighted(rng, profile.chunks);
+    cursor += randRange(rng, ...profile.gap);
+    groundY = Math.min(540, Math.max(440, groundY + randRange(rng, -profile.rise, profile.rise)));
+
+    switch (kind) {
+      case 'ground': {
+        const w = randRange(rng, 300, 600);
+        level.platforms.push({ x: cursor, y: groundY, w, h: 100, subtype: 'normal' });
+        if (difficulty >= 2 && nextRandom(rng) < 0.25) {
+          // Dust storm: a headwind across the whole stretch
+          level.hazards!.push({ x: cursor, y: groundY - 300, w, h: 300, type: 'wind', force: { x: -randRange(rng, 0.2, 0.35), y: 0 } });
+        }
+        addSeedArc(cursor, w, groundY);
+        addEnemies(cursor, w, groundY);
+        cursor += w;
+        break;
+      }
+      case 'steps': {
+        // A ground run with a staircase of ledges climbing above it
+        const w = randRange(rng, 400, 600);
+        level.platforms.push({ x: cursor, y: groundY, w, h: 100, subtype: 'normal' });
+        const steps = randInt(rng, 2, 3);
+        let stepX = cursor + 60;
+        let stepY = groundY;
+        for (let i = 0; i < steps; i++) {
+          stepY -= randRange(rng, 90, 120);
+          const stepW = randRange(rng, 100, 160);
+          const roll = nextRandom(rng);
+          const subtype = difficulty >= 3 && roll < 0.3 ? 'crumble' : roll > 0.7 ? 'oneway' : 'normal';
+          level.platforms.push({ x: stepX, y: stepY, w: stepW, h: 20, subtype });
+          stepX += stepW + randRange(rng, 40, 90);
+        }
+        addSeedArc(stepX - 160, 160, stepY);
+        addEnemies(cursor, w, groundY);
+        cursor += w;
+        break;
+      }
+      case 'crumble_bridge': {
+        // Fragile planks over a drop: keep moving
+        const planks = randInt(rng, 2, 4);
+        for (let i = 0; i < planks; i++) {
+          const w = randRange(rng, 100, 160);
+          level.platforms.push({ x: cursor, y: groundY, w, h: 20, subtype: 'crumble' });
+          if (i === planks - 1) addSeedArc(cursor, w, groundY);
+          cursor += w + randRange(rng, 60, 100);
+        }
+        cursor -= 60; // The next chunk adds its own gap
+        break;
+      }
+      case 'bouncy_tower': {
+        // Bounce pad next to a high ledge full of seeds
+        const w = randRange(rng, 350, 500);
+        level.platforms.push({ x: cursor, y: groundY, w, h: 100, subtype: 'normal' });
+        const padX = cursor + randRange(rng, 40, w - 200);
+        level.platforms.push({ x: padX, y: groundY - 20, w: 80, h: 20, subtype: 'bouncy' });
+        const ledgeY = groundY - randRange(rng, 260, 320);
+        const ledgeW = randRange(rng, 140, 200);
+        level.platforms.push({ x: padX + 100, y: ledgeY, w: ledgeW, h: 20, subtype: 'normal' });
+        addSeedArc(padX + 100, ledgeW, ledgeY);
+        addEnemies(cursor, w, groundY);
+        cursor += w;
+        break;
+      }
+      case 'ferry': {
+        // A gap too wide to jump, crossed on a platform shuttling back and forth
+        const span = randRange(rng, 350, 500);
+        const w = 140;
+        level.platforms.push({
+          x: cursor, y: groundY, w, h: 20, subtype: 'normal',
+          motion: { path: 'linear', dx: span - w, dy: 0, period: Math.round(randRange(rng, 200, 300)) }
+        });
+        addSeedArc(cursor, span, groundY - 40);
+        cursor += span;
+        const landingW = randRange(rng, 250, 400);
+        level.platforms.push({ x: cursor, y: groundY, w: landingW, h: 100, subtype: 'normal' });
+        addEnemies(cursor, landingW, groundY);
+        cursor += landingW;
+        break;
+      }
+      case 'conveyor': {
+        // Ground with a belt in the middle, pushing the player back on harder levels
+        const w = randRange(rng, 400, 600);
+        const beltW = randRange(rng, 150, w - 200);
+        const beltX = cursor + (w - beltW) / 2;
+        const speed = (difficulty >= 2 && nextRandom(rng) < 0.5 ? -1 : 1) * randRange(rng, 2, 3);
+        level.platforms.push({ x: cursor, y: groundY, w: beltX - cursor, h: 100, subtype: 'normal' });
+        level.platforms.push({ x: beltX, y: groundY, w: beltW, h: 100, subtype: 'conveyor', speed });
+        level.platforms.push({ x: beltX + beltW, y: groundY, w: cursor + w - beltX - beltW, h: 100, subtype: 'normal' });
+        addSeedArc(cursor, w, groundY);
+        cursor += w;
+        break;
+      }
+      case 'creek': {
+        // A creek bed between two banks: swim across and leap out at the far side
+        const bankW = randRange(rng, 150, 250);
+        level.platforms.push({ x: cursor, y: groundY, w: bankW, h: 100, subtype: 'normal' });
+        cursor += bankW;
+        const creekW = randRange(rng, 250, 400);
+        const bedY = groundY + randRange(rng, 100, 140);
+        level.platforms.push({ x: cursor, y: bedY, w: creekW, h: 60, subtype: 'normal' });
+        level.hazards!.push({ x: cursor, y: groundY + 20, w: creekW, h: bedY - groundY - 20, type: 'water' });
+        level.collectibles.push({ x: cursor + creekW / 2 - 15, y: bedY - 40, type: 'seed' }); // Dive for it
+        cursor += creekW;
+        const farW = randRange(rng, 200, 350);
+        level.platforms.push({ x: cursor, y: groundY, w: farW, h: 100, subtype: 'normal' });
+        addEnemies(cursor, farW, groundY);
+        cursor += farW;
+        break;
+      }
+      case 'cactus': {
+        // Ground with rows of cactus spines to hop over
+        const w = randRange(rng, 450, 650);
+        level.platforms.push({ x: cursor, y: groundY, w, h: 100, subtype: 'normal' });
+        const rows = randInt(rng, 1, 2);
+        for (let i = 0; i < rows; i++) {
+          const spikeW = randRange(rng, 40, 100);
+          const spikeX = cursor + (w / (rows + 1)) * (i + 1) - spikeW / 2;
+          level.hazards!.push({ x: spikeX, y: groundY - 20, w: spikeW, h: 20, type: 'spikes' });
+          addSeedArc(spikeX - 40, spikeW + 80, groundY - 40);
+        }
+        cursor += w;
+        break;
+      }
+      case 'quicksand': {
+        // A sunken patch of quicksand: shallow on easy levels, over the head on hard ones
+        const w = randRange(rng, 400, 550);
+        const patchW = randRange(rng, 120, 200);
+        const patchX = cursor + (w - patchW) / 2;
+        const depth = difficulty >= 3 ? 60 : 30;
+        level.platforms.push({ x: cursor, y: groundY, w: patchX - cursor, h: 100, subtype: 'normal' });
+        level.platforms.push({ x: patchX, y: groundY + depth, w: patchW, h: 100 - depth, subtype: 'normal' });
+        level.platforms.push({ x: patchX + patchW, y: groundY, w: cursor + w - patchX - patchW, h: 100, subtype: 'normal' });
+        level.hazards!.push({ x: patchX, y: groundY, w: patchW, h: depth, type: 'quicksand' });
+        addSeedArc(patchX - 30, patchW + 60, groundY);
+        cursor += w;
+        break;
+      }
+      case 'crate_wall': {
+        // A stack of crates to hop over or dash through
+        const w = randRange(rng, 350, 500);
+        level.platforms.push({ x: cursor, y: groundY, w, h: 100, subtype: 'normal' });
+        const crateX = cursor + w / 2 - 25;
+        const height = randInt(rng, 1, Math.min(difficulty + 1, 3));
+        for (let i = 0; i < height; i++) {
+          level.obstacles.push({ x: crateX, y: groundY - 50 * (i + 1), w: 50, h: 50, type: 'crate' });
+        }
+        addSeedArc(crateX - 60, 170, groundY - 50 * height);
+        addEnemies(cursor, w, groundY);
+        cursor += w;
+        break;
+      }
+    }
+  }
+
+  // Goal chunk
+  cursor += randRange(rng, ...profile.gap);
+  level.platforms.push({ x: cursor, y: GROUND_Y, w: GOAL_CHUNK_WIDTH, h: 100, subtype: 'normal' });
+  level.goal = { x: cursor + GOAL_CHUNK_WIDTH / 2, y: GROUND_Y - 50 };
+  level.bounds = { ...bounds, width: Math.ceil(cursor + GOAL_CHUNK_WIDTH) }; // Chunk sizes vary, so end exactly at the goal platform
+
+  level.platforms.sort((a, b) => a.x - b.x);
+  return level;
+};
+
+// A tall shaft: a floor, walls on both sides, and ledges zig-zagging up to a goal ledge at the top
+const buildClimbLevel = (difficulty: number, density: CollectibleDensity, bounds: LevelBounds, rng: Rng): LevelConfig => {
+  const profile = CLIMB_PROFILES[Math.min(Math.max(difficulty, 1), 3) as 1 | 2 | 3];
+  const enemyRate = profile.enemiesPerChunk + Math.max(0, difficulty - 3) * 0.1;
+  const top = bounds.killY - bounds.height;
+
+  const level: LevelConfig = {
+    name: `${pick(rng, ADJECTIVES)} ${pick(rng, PLACES)}`,
+    description: pick(rng, MISSIONS),
+    platforms: [
+      { x: 0, y: GROUND_Y, w: bounds.width, h: 100, subtype: 'normal' },
+      { x: -WALL_THICKNESS, y: top, w: WALL_THICKNESS, h: GROUND_Y + 100 - top, subtype: 'normal' },
+      { x: bounds.width, y: top, w: WALL_THICKNESS, h: GROUND_Y + 100 - top, subtype: 'normal' }
+    ],
+    obstacles: [],
+    enemies: [],
+    collectibles: [],
+    goal: { x: 0, y: 0 },
+    archetype: 'climb'
+  };
+
+  // Next ledge position: sideways from the last one, bouncing off the shaft walls
+  let x = 40;
+  let y = GROUND_Y;
+  let dir = 1;
+  const stepAside = (w: number, minStep: number, maxStep: number) => {
+    let next = x + dir * randRange(rng, minStep, maxStep);
+    if (next < 20 || next + w > bounds.width - 20) {
+      dir = -dir;
+      next = x + dir * randRange(rng, minStep, maxStep);
+    }
+    x = Math.min(Math.max(next, 20), bounds.width - w - 20);
+  };
+
+  const addLedgeExtras = (lx: number, w: number, ly: number) => {
+    const seeds = randInt(rng, ...SEEDS_PER_CHUNK[density]);
+    for (let i = 0; i < Math.min(seeds, 2); i++) {
+      level.collectibles.push({ x: lx + (w / 3) * (i + 1) - 15, y: ly - 60, type: 'seed' });
+    }
+    if (nextRandom(rng) < SHIELD_CHANCE[density] / 2) {
+      level.collectibles.push({ x: lx + w / 2 - 15, y: ly - 110, type: 'shield' });
+    }
+    if (nextRandom(rng) < enemyRate) {
+      const type = pick(rng, profile.enemies);
+      level.enemies.push({ x: randRange(rng, 40, bounds.width - 80), y: ly - randRange(rng, 150, 250), type });
+    }
+  };
+
+  const goalLedgeY = top + 300;
+  while (y - profile.rise[1] * 3 > goalLedgeY) {
+    const kind = pickWeighted(rng, profile.chunks);
+    switch (kind) {
+      case 'ledge': {
+        const w = randRange(rng, ...profile.ledgeW);
+        stepAside(w, 120, 240);
+        y -= randRange(rng, ...profile.rise);
+        level.platforms.push({ x, y, w, h: 20, subtype: nextRandom(rng) < 0.25 ? 'oneway' : 'normal' });
+        addLedgeExtras(x, w, y);
+        break;
+      }
+      case 'elevator': {
+        // A lift rising past a ledge far above; ride it up and hop off at the top
+        const liftW = 100;
+        stepAside(liftW, 140, 200);
+        y -= randRange(rng, 60, 100);
+        const rise = randRange(rng, 250, 350);
+        level.platforms.push({
+          x, y, w: liftW, h: 20, subtype: 'normal',
+          motion: { path: 'linear', dx: 0, dy: -rise, period: Math.round(randRange(rng, 240, 320)) }
+        });
+        const w = randRange(rng, ...profile.ledgeW);
+        const side = x + liftW + w + 40 < bounds.width - 20 ? 1 : -1;
+        x = side > 0 ? x + liftW + randRange(rng, 20, 50) : x - w - randRange(rng, 20, 50);
+        y -= rise - randRange(rng, 0, 40);
+        level.platforms.push({ x, y, w, h: 20, subtype: 'normal' });
+        addLedgeExtras(x, w, y);
+        break;
+      }
+      case 'bouncy_stack': {
+        // A pad just above the last ledge, then a ledge far above it and off to the side (no bonking the pad's launch)
+        const padW = 80;
+        stepAside(padW, 140, 220);
+        y -= randRange(rng, 40, 80);
+        level.platforms.push({ x, y, w: padW, h: 20, subtype: 'bouncy' });
+        const w = randRange(rng, ...profile.ledgeW);
+        const side = x + padW + w + 40 < bounds.width - 20 ? 1 : -1;
+        x = side > 0 ? x + padW + randRange(rng, 20, 60) : x - w - randRange(rng, 20, 60);
+        y -= randRange(rng, 260, 320);
+        level.platforms.push({ x, y, w, h: 20, subtype: 'normal' });
+        addLedgeExtras(x, w, y);
+        break;
+      }
+      case 'crumble_stairs': {
+        // Quick hops up fragile planks: no standing around
+        const steps = randInt(rng, 2, 3);
+        for (let i = 0; i < steps; i++) {
+          const w = randRange(rng, 100, 140);
+          stepAside(w, 120, 180);
+          y -= randRange(rng, 80, 110);
+          level.platforms.push({ x, y, w, h: 20, subtype: 'crumble' });
+        }
+        level.collectibles.push({ x: x + 35, y: y - 60, type: 'seed' });
+        break;
+      }
+    }
+  }
+
+  // Goal ledge, within a normal jump of the last one
+  stepAside(GOAL_LEDGE_WIDTH, 120, 200);
+  y -= randRange(rng, ...profile.rise);
+  level.platforms.push({ x, y, w: GOAL_LEDGE_WIDTH, h: 20, subtype: 'normal' });
+  level.goal = { x: x + GOAL_LEDGE_WIDTH / 2 - 30, y: y - 80 };
+  level.bounds = { ...bounds };
+  return level;
+};
+
+// Last resort when no attempt reaches the goal: the plainest layout of the archetype (flat ground with
+// short hops, or a zig-zag of wide one-way ledges) so the player always gets a finishable level
+const buildFallbackLevel = (archetype: LevelArchetype, density: CollectibleDensity, bounds: LevelBounds, rng: Rng): LevelConfig => {
+  const level: LevelConfig = {
+    name: `${pick(rng, ADJECTIVES)} ${pick(rng, PLACES)}`,
+    description: pick(rng, MISSIONS),
+    platforms: [],
+    obstacles: [],
+    enemies: [],
+    collectibles: [],
+    goal: { x: 0, y: 0 },
+    bounds: { ...bounds }
+  };
+  const addSeeds = (x: number, w: number, y: number) => {
+    const count = randInt(rng, ...SEEDS_PER_CHUNK[density]);
+    for (let i = 0; i < count; i++) level.collectibles.push({ x: x + (w / (count + 1)) * (i + 1) - 15, y: y - 60, type: 'seed' });
+  };
+
+  if (archetype === 'climb') {
+    const top = bounds.killY - bounds.height;
+    level.archetype = 'climb';
+    level.platforms.push(
+      { x: 0, y: GROUND_Y, w: bounds.width, h: 100, subtype: 'normal' },
+      { x: -WALL_THICKNESS, y: top, w: WALL_THICKNESS, h: GROUND_Y + 100 - top, subtype: 'normal' },
+      { x: bounds.width, y: top, w: WALL_THICKNESS, h: GROUND_Y + 100 - top, subtype: 'normal' }
+    );
+    let y = GROUND_Y;
+    for (let i = 0; y - 100 > top + 300; i++) {
+      y -= 100;
+      const x = i % 2 === 0 ? 40 : bounds.width - 260;
+      level.platforms.push({ x, y, w: 220, h: 20, subtype: 'oneway' });
+      addSeeds(x, 220, y);
+    }
+    y -= 100;
+    const x = (bounds.width - GOAL_LEDGE_WIDTH) / 2;
+    level.platforms.push({ x, y, w: GOAL_LEDGE_WIDTH, h: 20, subtype: 'oneway' });
+    level.goal = { x: x + GOAL_LEDGE_WIDTH / 2 - 30, y: y - 80 };
+    return level;
+  }
+
+  let cursor = 0;
+  while (cursor < bounds.width - GOAL_CHUNK_WIDTH) {
+    level.platforms.push({ x: cursor, y: GROUND_Y, w: 500, h: 100, subtype: 'normal' });
+    addSeeds(cursor, 500, GROUND_Y);
+    cursor += 560;
+  }
+  level.platforms.push({ x: cursor, y: GROUND_Y, w: GOAL_CHUNK_WIDTH, h: 100, subtype: 'normal' });
+  level.goal = { x: cursor + GOAL_CHUNK_WIDTH / 2, y: GROUND_Y - 50 };
+  level.bounds = { ...bounds, width: cursor + GOAL_CHUNK_WIDTH };
+  return level;
+};
+
+// Flyers and seeds are placed before the platforms around them exist, and the reachability repair adds
+// bridges and ledges of its own; drop anything that ended up inside solid ground
+const dropBuried = (level: LevelConfig) => {
+  const buried = (x: number, y: number, size: number) =>
+    level.platforms.some(p => x < p.x + p.w && x + size > p.x && y < p.y + p.h && y + size > p.y);
+  level.enemies = level.enemies.filter(e => !buried(e.x, e.y, 40));
+  level.collectibles = level.collectibles.filter(c => !buried(c.x, c.y, 30));
+};
+
+// Checkpoint burrows on solid ground every CHECKPOINT_SPACING along the way to the goal,
+// so longer levels get more of them and harder ones fewer
+const addCheckpoints = (level: LevelConfig, difficulty: number) => {
+  const climb = level.archetype === 'climb';
+  const progress = (spot: { x: number; y: number }) => (climb ? GROUND_Y - spot.y : spot.x);
+  const spacing = CHECKPOINT_SPACING[Math.min(Math.max(difficulty, 1), 3) as 1 | 2 | 3];
+  const length = progress(level.goal);
+
+  const overlaps = (spot: { x: number; y: number }, r: { x: number; y: number; w: number; h: number }) =>
+    spot.x < r.x + r.w && spot.x + 60 > r.x && spot.y < r.y + r.h && spot.y + 80 > r.y;
+  const spots = level.platforms
+    .filter(p => !p.motion && (p.subtype || 'normal') === 'normal' && p.w >= 100 && (climb ? p.h < 100 : p.h >= 100)) // Climb ledges, run ground
+    .map(p => ({ x: p.x + p.w / 2 - 30, y: p.y - 80 }))
+    .filter(spot => !level.obstacles.some(o => overlaps(spot, o)) &&
+      !(level.hazards || []).some(h => h.type !== 'wind' && overlaps(spot, h)));
+
+  level.checkpoints = [];
+  for (let mark = spacing; mark < length - spacing / 2; mark += spacing) {
+    const spot = spots.reduce<{ x: number; y: number } | null>((best, s) =>
+      !best || Math.abs(progress(s) - mark) < Math.abs(progress(best) - mark) ? s : best, null);
+    if (spot && !level.checkpoints.includes(spot)) level.checkpoints.push(spot);
+  }
+};
+
+export const generateProceduralLevel = (
+  difficulty: number,
+  collectibleDensity: CollectibleDensity = 'medium',
+  seed: number = randomSeed(),
+  archetype: LevelArchetype = 'run',
+  bounds: LevelBounds = ARCHETYPE_BOUNDS[archetype]
+): LevelConfig => {
+  const rng = createRng(seed);
+  const build = archetype === 'climb' ? buildClimbLevel : buildLevel;
+
+  // Chunks are built to be jumpable, but the validator has the final say; retry from the same rng if not
+  let level = build(difficulty, collectibleDensity, bounds, rng);
+  let attempts = 1;
+  let reachable = repairReachability(level).goalReachable;
+  while (!reachable && attempts < MAX_ATTEMPTS) {
+    level = build(difficulty, collectibleDensity, bounds, rng);
+    reachable = repairReachability(level).goalReachable;
+    attempts++;
+  }
+  if (!reachable) {
+    console.warn(`[levels] Seed ${seed} gave no reachable layout in ${MAX_ATTEMPTS} attempts; using the fallback layout`);
+    level = buildFallbackLevel(archetype, collectibleDensity, bounds, rng);
+    repairReachability(level);
+  }
+
+  dropBuried(level);
+  addCheckpoints(level, difficulty);
+  level.seed = seed;
+  return level;
+};
+
+export const createProceduralProvider = (): LevelProvider => ({
+  source: 'procedural',
+  label: 'Offline generator',
+  acceptsFeedback: false,
+  generate: async ({ difficulty, collectibleDensity, seed, archetype, bounds }) =>
+    JSON.stringify(generateProceduralLevel(difficulty, collectibleDensity, seed, archetype, bounds))
+});
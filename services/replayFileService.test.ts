@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { InputState } from '../types';
+import { createReplay, recordInput } from '../game/replay';
+import { generateProceduralLevel } from './proceduralService';
+import { parseReplay, serializeReplay } from './replayFileService';
+
+const RUN_RIGHT: InputState = { left: false, right: true, up: false, jumpPressed: false, dashPressed: false };
+
+const recordedReplay = () => {
+  const replay = createReplay(generateProceduralLevel(1, 'medium', 5), 42);
+  for (let i = 0; i < 120; i++) recordInput(replay, { ...RUN_RIGHT, jumpPressed: i % 30 === 0 });
+  return replay;
+};
+
+describe('replayFileService', () => {
+  it('reads back a saved replay', () => {
+    const replay = recordedReplay();
+    const result = parseReplay(serializeReplay(replay));
+
+    expect(result).not.toHaveProperty('error');
+    if ('replay' in result) {
+      expect(result.replay.seed).toBe(42);
+      expect(result.replay.inputs).toEqual(replay.inputs);
+      expect(result.replay.ticks).toBe(120);
+      expect(result.replay.level.platforms).toHaveLength(replay.level.platforms.length);
+    }
+  });
+
+  it.each([
+    ['not JSON', () => '{'],
+    ['not an object', () => '[]'],
+    ['a newer version', () => JSON.stringify({ ...recordedReplay(), version: 99 })],
+    ['no seed', () => JSON.stringify({ ...recordedReplay(), seed: undefined })],
+    ['odd inputs', () => JSON.stringify({ ...recordedReplay(), inputs: [1, 2, 3] })],
+    ['negative counts', () => JSON.stringify({ ...recordedReplay(), inputs: [2, -5] })],
+    ['no level', () => JSON.stringify({ ...recordedReplay(), level: undefined })],
+    ['a level without enemies or goal', () => {
+      const replay = recordedReplay();
+      return JSON.stringify({ ...replay, level: { ...replay.level, enemies: undefined, goal: undefined } });
+    }]
+  ])('reports an error for a file with %s', (_, file) => {
+    expect(parseReplay(file())).toEqual({ error: expect.any(String) });
+  });
+});
@@ -0,0 +1,57 @@
+import { SIMULATION_HZ } from '../constants';
+import { REPLAY_VERSION, Replay } from '../game/replay';
+import { validateLevel } from './levelValidator';
+
+// Replay files (.pdrreplay.json). Everything in a loaded file is checked before the viewer simulates it,
+// the embedded level included, so a damaged or hand-edited file is reported instead of crashing playback.
+
+const MAX_REPLAY_TICKS = 60 * 60 * SIMULATION_HZ; // An hour; no level clock runs anywhere near that long
+
+export type ReplayParseResult = { replay: Replay } | { error: string };
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isCount = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+export const serializeReplay = (replay: Replay): string => JSON.stringify(replay);
+
+export const parseReplay = (text: string): ReplayParseResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    return { error: `The replay file is not valid JSON: ${(e as Error).message}` };
+  }
+
+  if (!isObject(data)) return { error: 'The replay file is not an object' };
+  if (data.version !== REPLAY_VERSION) return { error: `Unsupported replay version: ${String(data.version)}` };
+  if (!isCount(data.seed) || data.seed > 0xFFFFFFFF) return { error: 'The replay is missing its seed' };
+
+  const inputs = data.inputs;
+  if (!Array.isArray(inputs) || inputs.length % 2 !== 0 || !inputs.every(isCount)) {
+    return { error: 'The replay inputs are corrupted' };
+  }
+  let ticks = 0;
+  for (let i = 1; i < inputs.length; i += 2) ticks += inputs[i];
+  if (ticks > MAX_REPLAY_TICKS) return { error: 'The replay is too long to play back' };
+
+  if (data.level === undefined) return { error: 'The replay is missing its level' };
+  const level = validateLevel(data.level);
+  if ('issues' in level) {
+    const [first] = level.issues;
+    const more = level.issues.length > 1 ? ` (and ${level.issues.length - 1} more)` : '';
+    return { error: `The replay's level is invalid: ${first.message}${more}` };
+  }
+
+  return {
+    replay: {
+      version: REPLAY_VERSION,
+      level: level.level,
+      seed: data.seed,
+      inputs,
+      ticks, // Recounted, so the viewer's timeline always matches the inputs
+      recordedAt: typeof data.recordedAt === 'string' ? data.recordedAt : ''
+    }
+  };
+};
@@ -0,0 +1,114 @@
+import { LevelConfig } from '../types';
+import { WorldProgress, getLevelBounds } from '../game/world';
+
+// The run in progress, persisted in localStorage at level boundaries and on pause so it can be finished later.
+//
+// Saves carry RUN_SAVE_VERSION. Older saves are upgraded through MIGRATIONS before they are read,
+// and fields a save doesn't have fall back to defaults, so adding run state never breaks an old save.
+// Saves from a newer build than this one are ignored rather than guessed at.
+
+export const RUN_SAVE_VERSION = 1;
+
+const RUN_SAVE_KEY = 'prairie_run';
+
+export interface SavedRun {
+  version: number;
+  savedAt: string;
+  level: LevelConfig;
+  difficulty: number;
+  score: number;
+  levelStartScore: number; // Score a restart of this level goes back to
+  seedsCollected: number;
+  elapsed: number; // Seconds on this level's clock
+  continueTokens: number;
+  cleared: boolean; // Saved on the victory screen: resuming moves on to the next level
+  progress: WorldProgress | null; // Null when saved at the start or end of a level
+}
+
+export type RunSaveData = Omit<SavedRun, 'version' | 'savedAt'>;
+
+type SaveData = Record<string, unknown>;
+
+// Each entry upgrades a save of that version to the next one
+const MIGRATIONS: Record<number, (data: SaveData) => SaveData> = {};
+
+const isObject = (value: unknown): value is SaveData =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isLevel = (value: unknown): value is LevelConfig =>
+  isObject(value) && Array.isArray(value.platforms) && Array.isArray(value.enemies) && Array.isArray(value.collectibles) &&
+  isObject(value.goal) && isFiniteNumber(value.goal.x) && isFiniteNumber(value.goal.y);
+
+const isProgress = (value: unknown): value is WorldProgress =>
+  isObject(value) && isFiniteNumber(value.seed) && isFiniteNumber(value.tick) && isFiniteNumber(value.lives) && value.lives > 0 &&
+  isObject(value.checkpoint) && isObject(value.checkpoint.position) &&
+  isFiniteNumber(value.checkpoint.position.x) && isFiniteNumber(value.checkpoint.position.y);
+
+const numberOr = (value: unknown, fallback: number) => isFiniteNumber(value) ? value : fallback;
+
+// Fill in anything missing or malformed; a save without a usable level can't be resumed at all
+const normalize = (data: SaveData): SavedRun | null => {
+  if (!isLevel(data.level)) return null;
+  const progress = isProgress(data.progress) ? data.progress : null;
+  return {
+    version: RUN_SAVE_VERSION,
+    savedAt: typeof data.savedAt === 'string' ? data.savedAt : new Date().toISOString(),
+    level: data.level,
+    difficulty: Math.max(1, Math.floor(numberOr(data.difficulty, 1))),
+    score: Math.max(0, numberOr(data.score, 0)),
+    levelStartScore: Math.max(0, numberOr(data.levelStartScore, 0)),
+    seedsCollected: Math.max(0, numberOr(data.seedsCollected, 0)),
+    elapsed: Math.max(0, numberOr(data.elapsed, 0)),
+    continueTokens: Math.max(0, numberOr(data.continueTokens, 0)),
+    cleared: data.cleared === true,
+    progress: progress && {
+      ...progress,
+      checkpoint: {
+        ...progress.checkpoint,
+        killY: numberOr(progress.checkpoint.killY, getLevelBounds(data.level).killY),
+        collected: Array.isArray(progress.checkpoint.collected) ? progress.checkpoint.collected : [],
+        brokenCrates: Array.isArray(progress.checkpoint.brokenCrates) ? progress.checkpoint.brokenCrates : [],
+        score: Math.max(0, numberOr(progress.checkpoint.score, 0)),
+        seeds: Math.max(0, numberOr(progress.checkpoint.seeds, 0)),
+        seedPoints: Math.max(0, numberOr(progress.checkpoint.seedPoints, 0))
+      },
+      reachedCheckpoints: Array.isArray(progress.reachedCheckpoints) ? progress.reachedCheckpoints : [],
+      // Saves without the random streams start them over from the seed
+      rngState: numberOr(progress.rngState, progress.seed),
+      fxRngState: numberOr(progress.fxRngState, progress.seed ^ 0x9E3779B9)
+    }
+  };
+};
+
+export const loadRun = (): SavedRun | null => {
+  try {
+    const saved = localStorage.getItem(RUN_SAVE_KEY);
+    if (!saved) return null;
+
+    const parsed: unknown = JSON.parse(saved);
+    if (!isObject(parsed)) return null;
+    const version = parsed.version;
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1 || version > RUN_SAVE_VERSION) return null;
+    let data = parsed;
+    for (let v = version; v < RUN_SAVE_VERSION; v++) data = MIGRATIONS[v](data);
+    return normalize(data);
+  } catch (e) {
+    console.error('Failed to load saved run', e);
+    return null;
+  }
+};
+
+export const saveRun = (run: RunSaveData) => {
+  const save: SavedRun = { version: RUN_SAVE_VERSION, savedAt: new Date().toISOString(), ...run };
+  try {
+    localStorage.setItem(RUN_SAVE_KEY, JSON.stringify(save));
+  } catch (e) {
+    console.error('Failed to save run', e);
+  }
+};
+
+export const clearRun = () => {
+  localStorage.removeItem(RUN_SAVE_KEY);
+};
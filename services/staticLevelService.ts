@@ -0,0 +1,29 @@
+import { LevelProvider } from "../types";
+
+// Levels from a JSON file: a single LevelConfig, or an array picked by difficulty (the last one repeats)
+
+export interface StaticProviderOptions {
+  url: string;
+}
+
+export const createStaticProvider = ({ url }: StaticProviderOptions): LevelProvider => {
+  let levels: unknown[] | null = null; // Validated by the caller like any other provider output
+
+  return {
+    source: 'static',
+    label: `Level file (${url})`,
+    acceptsFeedback: false,
+    generate: async (request) => {
+      if (!levels) {
+        const response = await fetch(url);
+        if (!response.ok) throw new Error(`Could not load ${url}: ${response.status} ${response.statusText}`);
+        const data = await response.json();
+        levels = Array.isArray(data) ? data : [data];
+      }
+      if (levels.length === 0) throw new Error(`${url} contains no levels`);
+
+      const index = Math.min(Math.max(request.difficulty, 1), levels.length) - 1;
+      return JSON.stringify(levels[index]);
+    }
+  };
+};
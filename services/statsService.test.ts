@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { LevelStats, STATS_VERSION, finishRunRecord, listRuns, recordLevelStats, startRunRecord, summarizeRuns } from './statsService';
+
+const KEY = 'prairie_runs';
+let store: Record<string, string>;
+
+const level: LevelStats = {
+  name: 'Windy Gulch',
+  difficulty: 1,
+  outcome: 'lost',
+  seconds: 40,
+  seedsCollected: 3,
+  seedsAvailable: 8,
+  dashes: 2,
+  cratesBroken: 1,
+  livesLost: { snake: 2, pit: 1 },
+  lostTo: 'pit'
+};
+
+beforeEach(() => {
+  store = {};
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => store[key] ?? null,
+    setItem: (key: string, value: string) => { store[key] = value; },
+    removeItem: (key: string) => { delete store[key]; }
+  });
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('statsService', () => {
+  it('records a run level by level', () => {
+    startRunRecord();
+    recordLevelStats(level, 1200);
+    finishRunRecord();
+
+    const [run] = listRuns();
+    expect(run.levels).toEqual([level]);
+    expect(run.score).toBe(1200);
+    expect(run.endedBy).toBe('pit');
+  });
+
+  it('drops malformed records and fields instead of failing to summarise', () => {
+    store[KEY] = JSON.stringify([
+      null,
+      { version: STATS_VERSION, id: 'partial' },
+      { version: STATS_VERSION + 1, id: 'newer', startedAt: 'x', levels: [] },
+      {
+        version: STATS_VERSION, id: 'ok', startedAt: '2026-01-01T00:00:00.000Z', endedAt: null, score: 50, endedBy: 'lava',
+        levels: [null, { outcome: 'cleared', name: 'Bare' }, { ...level, livesLost: { snake: 'many', hawk: 1, lava: 2 } }]
+      }
+    ]);
+
+    const runs = listRuns();
+    expect(runs.map(r => r.id)).toEqual(['ok']);
+    expect(runs[0].endedBy).toBeNull();
+    expect(runs[0].levels).toHaveLength(2);
+    expect(runs[0].levels[1].livesLost).toEqual({ hawk: 1 });
+
+    const summary = summarizeRuns(runs);
+    expect(summary.levelsCleared).toBe(1);
+    expect(summary.livesLost).toEqual({ hawk: 1 });
+  });
+
+  it('never writes over history it could not read', () => {
+    store[KEY] = '{ not json';
+
+    startRunRecord();
+    recordLevelStats(level, 100);
+    finishRunRecord();
+
+    expect(store[KEY]).toBe('{ not json');
+    expect(listRuns()).toEqual([]);
+  });
+});
@@ -0,0 +1,220 @@
+import { DamageCause, EnemyType } from '../types';
+
+// Run history, persisted in localStorage: every run with what happened on each level it reached.
+// The newest run stays open (endedAt null) until the player leaves it after a game over or starts another one,
+// so a run resumed in a later session keeps adding to the same record.
+
+export const STATS_VERSION = 1;
+
+const STATS_STORAGE_KEY = 'prairie_runs';
+const MAX_STORED_RUNS = 200;
+
+export type LevelOutcome = 'cleared' | 'lost' | 'restarted' | 'quit';
+
+// One attempt at one level
+export interface LevelStats {
+  name: string;
+  difficulty: number;
+  outcome: LevelOutcome;
+  seconds: number;
+  seedsCollected: number;
+  seedsAvailable: number;
+  dashes: number;
+  cratesBroken: number;
+  livesLost: Partial<Record<DamageCause, number>>;
+  lostTo: DamageCause | null; // What took the last life, on a lost attempt
+}
+
+export interface RunRecord {
+  version: number;
+  id: string;
+  startedAt: string;
+  endedAt: string | null;
+  score: number;
+  levels: LevelStats[];
+  endedBy: DamageCause | null; // Null for runs that were abandoned or are still going
+}
+
+export interface StatsSummary {
+  runs: number;
+  levelsCleared: number;
+  bestScore: number;
+  bestStreak: number; // Most levels cleared in one run
+  seconds: number;
+  seedsCollected: number;
+  seedsAvailable: number;
+  dashes: number;
+  cratesBroken: number;
+  livesLost: Partial<Record<DamageCause, number>>;
+  deadliestEnemy: { type: EnemyType; lives: number } | null;
+  byDifficulty: { difficulty: number; attempts: number; cleared: number; seconds: number; livesLost: number }[];
+}
+
+const ENEMY_CAUSES: EnemyType[] = ['snake', 'hawk', 'bat', 'bug', 'mole', 'coyote', 'badger', 'rattlesnake'];
+const DAMAGE_CAUSES: DamageCause[] = [...ENEMY_CAUSES, 'boss_badger', 'boss_eagle', 'projectile', 'spikes', 'quicksand', 'pit', 'timeout'];
+const LEVEL_OUTCOMES: LevelOutcome[] = ['cleared', 'lost', 'restarted', 'quit'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isCause = (value: unknown): value is DamageCause => DAMAGE_CAUSES.some(cause => cause === value);
+
+const countOr0 = (value: unknown) => typeof value === 'number' && Number.isFinite(value) ? Math.max(0, value) : 0;
+
+const normalizeLevel = (value: unknown): LevelStats | null => {
+  if (!isObject(value)) return null;
+  const outcome = LEVEL_OUTCOMES.find(o => o === value.outcome);
+  if (!outcome) return null;
+  const livesLost: LevelStats['livesLost'] = {};
+  if (isObject(value.livesLost)) {
+    Object.entries(value.livesLost).forEach(([cause, n]) => {
+      if (isCause(cause) && countOr0(n) > 0) livesLost[cause] = countOr0(n);
+    });
+  }
+  return {
+    name: typeof value.name === 'string' ? value.name : '',
+    difficulty: Math.max(1, Math.floor(countOr0(value.difficulty))),
+    outcome,
+    seconds: countOr0(value.seconds),
+    seedsCollected: countOr0(value.seedsCollected),
+    seedsAvailable: countOr0(value.seedsAvailable),
+    dashes: countOr0(value.dashes),
+    cratesBroken: countOr0(value.cratesBroken),
+    livesLost,
+    lostTo: isCause(value.lostTo) ? value.lostTo : null
+  };
+};
+
+// A record of this version with its levels cleaned up, or null for anything unrecognisable
+const normalizeRun = (value: unknown): RunRecord | null => {
+  if (!isObject(value) || value.version !== STATS_VERSION) return null;
+  if (typeof value.id !== 'string' || typeof value.startedAt !== 'string' || !Array.isArray(value.levels)) return null;
+  return {
+    version: STATS_VERSION,
+    id: value.id,
+    startedAt: value.startedAt,
+    endedAt: typeof value.endedAt === 'string' ? value.endedAt : null,
+    score: countOr0(value.score),
+    levels: value.levels.map(normalizeLevel).filter((level): level is LevelStats => level !== null),
+    endedBy: isCause(value.endedBy) ? value.endedBy : null
+  };
+};
+
+// Null when the stored history can't be read at all, so callers never write over it
+const loadAll = (): RunRecord[] | null => {
+  try {
+    const saved = localStorage.getItem(STATS_STORAGE_KEY);
+    if (!saved) return [];
+    const parsed: unknown = JSON.parse(saved);
+    if (!Array.isArray(parsed)) throw new Error('Run history is not a list');
+    return parsed.map(normalizeRun).filter((run): run is RunRecord => run !== null);
+  } catch (e) {
+    console.error('Failed to load run history', e);
+    return null;
+  }
+};
+
+const saveAll = (runs: RunRecord[]) => {
+  try {
+    localStorage.setItem(STATS_STORAGE_KEY, JSON.stringify(runs.slice(-MAX_STORED_RUNS)));
+  } catch (e) {
+    console.error('Failed to save run history', e);
+  }
+};
+
+const closeRun = (run: RunRecord) => {
+  const last = run.levels[run.levels.length - 1];
+  run.endedAt = new Date().toISOString();
+  run.endedBy = last?.outcome === 'lost' ? last.lostTo : null;
+};
+
+// Oldest first
+export const listRuns = (): RunRecord[] => loadAll() ?? [];
+
+// Start recording a new run, closing the one before it if it was left open
+export const startRunRecord = () => {
+  const runs = loadAll();
+  if (!runs) return;
+  const open = runs[runs.length - 1];
+  if (open && !open.endedAt) closeRun(open);
+
+  const now = new Date().toISOString();
+  runs.push({ version: STATS_VERSION, id: now, startedAt: now, endedAt: null, score: 0, levels: [], endedBy: null });
+  saveAll(runs);
+};
+
+// Add a level attempt to the open run (starting one if there is none) along with the run's score so far
+export const recordLevelStats = (level: LevelStats, score: number) => {
+  let runs = loadAll();
+  if (runs && (runs.length === 0 || runs[runs.length - 1].endedAt)) {
+    startRunRecord();
+    runs = loadAll();
+  }
+  if (!runs || runs.length === 0) return;
+  const run = runs[runs.length - 1];
+  run.levels.push(level);
+  run.score = score;
+  saveAll(runs);
+};
+
+export const finishRunRecord = () => {
+  const runs = loadAll();
+  const open = runs?.[runs.length - 1];
+  if (!runs || !open || open.endedAt) return;
+  closeRun(open);
+  saveAll(runs);
+};
+
+export const clearRunHistory = () => {
+  localStorage.removeItem(STATS_STORAGE_KEY);
+};
+
+export const summarizeRuns = (runs: RunRecord[]): StatsSummary => {
+  const summary: StatsSummary = {
+    runs: runs.length,
+    levelsCleared: 0,
+    bestScore: 0,
+    bestStreak: 0,
+    seconds: 0,
+    seedsCollected: 0,
+    seedsAvailable: 0,
+    dashes: 0,
+    cratesBroken: 0,
+    livesLost: {},
+    deadliestEnemy: null,
+    byDifficulty: []
+  };
+  const byDifficulty = new Map<number, StatsSummary['byDifficulty'][number]>();
+
+  runs.forEach(run => {
+    summary.bestScore = Math.max(summary.bestScore, run.score);
+    summary.bestStreak = Math.max(summary.bestStreak, run.levels.filter(l => l.outcome === 'cleared').length);
+
+    run.levels.forEach(level => {
+      const lives = Object.values(level.livesLost).reduce((sum, n) => sum + (n || 0), 0);
+      if (level.outcome === 'cleared') summary.levelsCleared++;
+      summary.seconds += level.seconds;
+      summary.seedsCollected += level.seedsCollected;
+      summary.seedsAvailable += level.seedsAvailable;
+      summary.dashes += level.dashes;
+      summary.cratesBroken += level.cratesBroken;
+      (Object.entries(level.livesLost) as [DamageCause, number][]).forEach(([cause, n]) => {
+        summary.livesLost[cause] = (summary.livesLost[cause] || 0) + n;
+      });
+
+      const row = byDifficulty.get(level.difficulty) || { difficulty: level.difficulty, attempts: 0, cleared: 0, seconds: 0, livesLost: 0 };
+      row.attempts++;
+      if (level.outcome === 'cleared') row.cleared++;
+      row.seconds += level.seconds;
+      row.livesLost += lives;
+      byDifficulty.set(level.difficulty, row);
+    });
+  });
+
+  ENEMY_CAUSES.forEach(type => {
+    const lives = summary.livesLost[type] || 0;
+    if (lives > 0 && (!summary.deadliestEnemy || lives > summary.deadliestEnemy.lives)) summary.deadliestEnemy = { type, lives };
+  });
+  summary.byDifficulty = [...byDifficulty.values()].sort((a, b) => a.difficulty - b.difficulty);
+  return summary;
+};
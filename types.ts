@@ -15,20 +15,29 @@ export interface GameObject {
   id: string;
   position: Vector2;
   size: Size;
-  type: 'platform' | 'enemy' | 'collectible' | 'end_goal' | 'obstacle';
-  subtype?: 'snake' | 'hawk' | 'bat' | 'bug' | 'mole' | 'seed' | 'shield' | 'crumble' | 'crate' | 'normal' | 'bouncy';
+  type: 'platform' | 'enemy' | 'collectible' | 'end_goal' | 'obstacle' | 'hazard' | 'boss' | 'checkpoint';
+  subtype?: EnemyType | 'seed' | 'shield' | 'crate' | PlatformSubtype | HazardType | BossType;
   
   // AI / Physics Properties
   velocity?: Vector2;
   initialPosition?: Vector2;
   patrolRange?: { min: number; max: number };
-  aiState?: string; // e.g. 'idle', 'patrol', 'hover', 'dive', 'return', 'circle', 'hidden', 'active'
+  aiState?: string; // Enemies: a state of their EnemyDefinition; bosses: see game/boss.ts
   timer?: number; // General purpose timer for AI cycles
+  phase?: number; // Offset into cyclic movement, so a swarm doesn't move in lockstep
+  anchored?: boolean; // Ground enemies placed in mid-air hold their height instead of falling
   variant?: 'default' | 'alt'; // Behavior variant (e.g. Jumper snake vs Charger snake)
   
   // Dynamic Elements
   isBroken?: boolean;
+  activated?: boolean; // Checkpoints: touched this run
   health?: number;
+  maxHealth?: number;
+  invulnerable?: number; // Bosses: ticks left in which another stomp does no damage
+  target?: Vector2; // Bosses: where the telegraphed attack will land
+  motion?: PlatformMotion; // Moving platforms follow this path from initialPosition
+  conveyorSpeed?: number; // Belt push in px per tick (positive is rightwards)
+  force?: Vector2; // Wind zones: acceleration applied to the player, px per tick per tick
 }
 
 export interface Projectile {
@@ -62,6 +71,61 @@ export interface Player {
   isDashing: boolean;
 }
 
+export type AnimationState = 'idle' | 'walk' | 'run' | 'jump';
+
+export interface PlayerAnimation {
+  state: AnimationState;
+  frame: number;
+  timer: number;
+  spin: number; // Rotation angle in degrees for double jump
+}
+
+// Per-tick controller snapshot fed to the simulation
+export interface InputState {
+  left: boolean;
+  right: boolean;
+  up: boolean;
+  jumpPressed: boolean; // Latched until consumed by the simulation
+  dashPressed: boolean; // Latched until consumed by the simulation
+}
+
+// Side effects the simulation reports instead of performing them itself
+export type GameEvent =
+  | { type: 'jump' }
+  | { type: 'collect'; subtype: 'seed' | 'shield' }
+  | { type: 'damage'; cause: DamageCause }
+  | { type: 'lives'; lives: number } // After damage or a fall
+  | { type: 'shield'; state: 'started' | 'expiring' | 'ended' }
+  | { type: 'dash' }
+  | { type: 'dash_ready' } // The dash cooldown ran out
+  | { type: 'crate_broken' }
+  | { type: 'platform_crumbled' }
+  | { type: 'enemy_defeated'; subtype: GameObject['subtype'] }
+  | { type: 'fell' } // Dropped into a pit; costs a life like damage does
+  | { type: 'rollback'; score: number; seeds: number; seedPoints: number } // After a fall: the level's points and seeds as of the checkpoint
+  | { type: 'checkpoint' }
+  | { type: 'splash' }
+  | { type: 'score'; points: number; combo: number; source: ScoreSource } // Points already multiplied by the combo
+  | { type: 'boss_telegraph' } // The boss winds up an attack
+  | { type: 'boss_hit'; health: number }
+  | { type: 'boss_defeated'; subtype: BossType }
+  | { type: 'win' }
+  | { type: 'lose' };
+
+// What a scoring event paid out for
+export type ScoreSource = 'seed' | 'crate' | 'stomp' | 'boss';
+
+// What cost the player a life. The simulation reports all but 'timeout', which the app's level clock decides.
+export type DamageCause = EnemyType | `boss_${BossType}` | 'projectile' | 'spikes' | 'quicksand' | 'pit' | 'timeout';
+
+// Player status shown by the React HUD, sampled from the world after each step
+export interface HudState {
+  lives: number;
+  maxLives: number;
+  shield: number; // Fraction of the shield left, 0 when unshielded
+  dash: number; // Fraction of the dash cooldown recovered, 1 when ready
+}
+
 export interface LeaderboardEntry {
   name: string;
   score: number;
@@ -69,14 +133,137 @@ export interface LeaderboardEntry {
 }
 
 // AI Gen Types
+export type LevelSource = 'gemini' | 'openai' | 'static' | 'procedural'; // Where new levels come from
+export type CollectibleDensity = 'low' | 'medium' | 'high';
+
+// World extents: the level spans x 0..width and y (killY - height)..killY
+export interface LevelBounds {
+  width: number;
+  height: number;
+  killY: number; // Falling below this line ends the run
+}
+
+// 'run' levels go left to right; 'climb' levels go up a tall shaft to a goal at the top
+export type LevelArchetype = 'run' | 'climb';
+
+// 'oneway' ledges can be jumped through from below; 'conveyor' belts push whoever stands on them
+export type PlatformSubtype = 'normal' | 'crumble' | 'bouncy' | 'oneway' | 'conveyor';
+
+// Path a moving platform follows from its (x, y) start, repeating every `period` ticks
+export interface PlatformMotion {
+  path: 'linear' | 'circular';
+  dx?: number; // Linear: offset of the far end, travelled there and back
+  dy?: number;
+  radius?: number; // Circular: loops around a centre this far above the start
+  period: number; // Ticks per full cycle
+}
+
+export interface LevelPlatform {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  subtype?: PlatformSubtype;
+  motion?: PlatformMotion; // Static when missing
+  speed?: number; // Conveyor belts only: px per tick, negative pushes left (defaults to CONVEYOR_SPEED)
+}
+
+// Hazard volumes: 'spikes' hurt on touch, 'water' can be swum through, 'quicksand' swallows whoever
+// lingers in it and 'wind' zones push with a constant force
+export type HazardType = 'spikes' | 'water' | 'quicksand' | 'wind';
+
+export interface LevelHazard {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  type: HazardType;
+  force?: Vector2; // Wind only: px per tick per tick (defaults to a gentle push rightwards)
+}
+
+export type EnemyType = 'snake' | 'hawk' | 'bat' | 'bug' | 'mole' | 'coyote' | 'badger' | 'rattlesnake';
+
+// Enemy behaviour as data: each type is a state machine (see game/enemyDefinitions.ts).
+// A state moves the enemy with one movement primitive, may attack on entry, and leaves through the
+// first of its transitions whose trigger fires.
+
+export type EnemyTrigger =
+  | { when: 'timer' } // The state's duration ran out
+  | { when: 'near'; range: number; dy?: number } // Player within range (and within dy vertically)
+  | { when: 'far'; range: number }
+  | { when: 'sight'; range: number } // Within range with no platform in between
+  | { when: 'below'; dx: number } // Player lower down, within dx horizontally
+  | { when: 'above'; dx: number; dy: number } // Player at least dy higher, within dx horizontally
+  | { when: 'edge' } // Ran into the end of its patrol range
+  | { when: 'arrived' }; // The movement reached its goal (dive bottom, home, landing from a hop)
+
+export type EnemyMovement =
+  | { type: 'still' }
+  | { type: 'patrol'; speed: number; turnChance?: number } // Back and forth along its platform
+  | { type: 'charge'; speed: number } // Straight towards where the player was when the state began
+  | { type: 'chase'; speed: number; leap: number } // After the player, leaping across gaps between platforms
+  | { type: 'hover'; bob: number; period: number; drift: number } // Bobs at home height, drifting towards the player
+  | { type: 'dive'; speed: number; steer: number; depth: number } // Drops on the player; arrives under them or depth below home
+  | { type: 'return'; ease: number } // Flies home
+  | { type: 'figure8'; width: number; height: number; period: number; swoop?: number }
+  | { type: 'orbit'; radius: number; period: number; pulse?: number; follow?: number }
+  | { type: 'burrow'; speed: number; range: number }; // Tunnels towards the player along its platform
+
+export type EnemyAttack =
+  | { type: 'spit'; speed: number; lift: number; color: string } // Projectile aimed at the player
+  | { type: 'hop'; force: number };
+
+export interface EnemyTransition {
+  to: string;
+  trigger: EnemyTrigger;
+}
+
+export interface EnemyState {
+  move: EnemyMovement;
+  duration?: [number, number]; // Ticks, rolled on entry for 'timer' transitions
+  enter?: EnemyAttack; // Fired once when the state begins
+  hidden?: boolean; // Underground: can't hurt or be hurt
+  stompable?: boolean; // Overrides the definition
+  emote?: string; // Drawn over the enemy
+  pose?: 'sleep' | 'tilt' | 'bank' | 'rise' | 'surfaced' | 'sink' | 'mound';
+  transitions: EnemyTransition[];
+}
+
+export interface EnemyDefinition {
+  emoji: string;
+  tint?: string; // Canvas filter to tell look-alikes apart
+  ground: boolean; // Snaps onto the platform below, walks on platforms and falls off them
+  stompable: boolean;
+  breaksCrates?: boolean;
+  start: string | string[]; // Initial state, picked at random from a list
+  states: Record<string, EnemyState>;
+  alt?: { start?: string | string[]; states?: Record<string, EnemyState> }; // The alternate variant (40% of spawns)
+}
+
+// Bosses guard an arena at the end of a level; the goal stays shut until they are beaten
+export type BossType = 'badger' | 'eagle';
+
+export interface LevelBoss {
+  type: BossType;
+  x: number; // Where the boss waits for the player
+  y: number;
+  arena: { x: number; w: number }; // Stretch of the level the player and camera are locked to during the fight
+}
+
 export interface LevelConfig {
   name: string;
   description: string;
-  platforms: { x: number; y: number; w: number; h: number; subtype?: 'crumble' | 'normal' | 'bouncy' }[];
+  platforms: LevelPlatform[];
   obstacles: { x: number; y: number; w: number; h: number; type: 'crate' }[];
-  enemies: { x: number; y: number; type: 'snake' | 'hawk' | 'bat' | 'bug' | 'mole' }[];
+  enemies: { x: number; y: number; type: EnemyType }[];
   collectibles: { x: number; y: number; type?: 'seed' | 'shield' }[];
+  hazards?: LevelHazard[]; // None when missing (older levels)
   goal: { x: number; y: number };
+  checkpoints?: { x: number; y: number }[]; // Burrows that become the respawn point after a fall; none when missing
+  seed?: number; // Seed used to generate (and to simulate) this level
+  bounds?: LevelBounds; // Derived from the layout when missing (older levels)
+  archetype?: LevelArchetype; // Defaults to 'run'
+  boss?: LevelBoss; // Boss levels only
 }
 
 export enum GameStatus {
@@ -85,5 +272,39 @@ export enum GameStatus {
   PLAYING = 'PLAYING',
   PAUSED = 'PAUSED',
   GAME_OVER = 'GAME_OVER',
-  VICTORY = 'VICTORY'
-}
\ No newline at end of file
+  VICTORY = 'VICTORY',
+  NAME_ENTRY = 'NAME_ENTRY', // Typing a name for the leaderboard after a run
+  REPLAY = 'REPLAY',
+  LIBRARY = 'LIBRARY',
+  EDITOR = 'EDITOR',
+  STATS = 'STATS'
+}
+
+export interface LevelRequest {
+  difficulty: number;
+  collectibleDensity: CollectibleDensity;
+  seed: number; // Drives repairs and offline generation, so a request always resolves the same way
+  bounds: LevelBounds; // Size of the world to build
+  archetype: LevelArchetype;
+}
+
+// A problem found in level JSON, addressed by path (e.g. "platforms[3].w") so a model can fix it
+export interface LevelIssue {
+  path: string;
+  code: 'missing' | 'wrong_type' | 'not_finite' | 'not_positive' | 'out_of_bounds' | 'invalid_value' | 'overlap' | 'invalid_json' | 'unreachable' | 'invalid_code' | 'checksum_mismatch' | 'unsupported_version';
+  message: string;
+}
+
+// Sent back to a provider when its previous answer was rejected
+export interface LevelFeedback {
+  response: string;
+  issues: LevelIssue[];
+}
+
+// Anything that can produce level JSON for a request. Output is validated and repaired by the caller.
+export interface LevelProvider {
+  source: LevelSource;
+  label: string;
+  acceptsFeedback: boolean; // Whether asking again with a list of issues can give a different answer
+  generate: (request: LevelRequest, feedback?: LevelFeedback) => Promise<string>;
+}